@@ -1,10 +1,9 @@
+import { DEFAULT_PROMPT_VERSION, getExtractionPrompt } from './prompt.config.js'
 import type { ApifyActorInput } from '../types/apify.js'
+import type { ScrapeOrigin } from '../types/exhibition.js'
+import type { CrawlSettings, EffectiveCrawlSettings } from '../types/scraper.js'
 
 const BASE_CONFIG = {
-  excludeUrlGlobs: [{ glob: '' }],
-  linkSelector: 'a[href]',
-  maxPagesPerCrawl: 100,
-  model: 'gpt-4o-mini',
   proxyConfiguration: {
     useApifyProxy: true,
     apifyProxyGroups: [],
@@ -15,111 +14,87 @@ const BASE_CONFIG = {
   useStructureOutput: true,
 }
 
-const EXHIBITION_SCHEMA = {
-  title: 'ExhibitionListSchema',
-  type: 'object',
-  properties: {
-    exhibitions: {
-      type: 'array',
-      description: '展覧会情報の一覧',
-      items: {
-        type: 'object',
-        properties: {
-          title: {
-            type: 'string',
-            description: '展覧会のタイトル',
-          },
-          venue: {
-            type: 'string',
-            description: '会場名',
-          },
-          startDate: {
-            type: 'string',
-            description: '展覧会の開始日時',
-          },
-          endDate: {
-            type: 'string',
-            description: '展覧会の終了日時',
-          },
-          officialUrl: {
-            type: 'string',
-            description: '展覧会の公式URL',
-          },
-          imageUrl: {
-            type: 'string',
-            description: '展覧会の代表画像URL',
-          },
-        },
-        additionalProperties: false,
-      },
-    },
-  },
+const DEFAULT_CRAWL_SETTINGS = {
+  excludeUrlGlobs: [''],
+  linkSelector: 'a[href]',
+  maxPagesPerCrawl: 100,
+  model: 'gpt-4o-mini',
 }
 
-const EXHIBITION_SCHEMA_WITHOUT_URLS = {
-  title: 'ExhibitionListSchema',
-  type: 'object',
-  properties: {
-    exhibitions: {
-      type: 'array',
-      description: '展示会情報の一覧',
-      items: {
-        type: 'object',
-        properties: {
-          title: {
-            type: 'string',
-            description: '展覧会のタイトル',
-          },
-          venue: {
-            type: 'string',
-            description: '会場名',
-          },
-          startDate: {
-            type: 'string',
-            description: '展覧会の開始日時',
-          },
-          endDate: {
-            type: 'string',
-            description: '展覧会の終了日時',
-          },
-        },
-        additionalProperties: false,
-      },
-    },
-  },
+// Museum pages link to the exhibition details, while feeds already list them on one page
+const DEFAULT_CRAWLING_DEPTH: Record<ScrapeOrigin, number> = {
+  scrape: 2,
+  'scrape-feed': 1,
+}
+
+/**
+ * Fill in the crawl settings a museum or feed source does not override
+ * Targets with equal effective settings can be crawled in the same actor run.
+ */
+export function resolveCrawlSettings(
+  crawl: CrawlSettings = {},
+  origin: ScrapeOrigin,
+): EffectiveCrawlSettings {
+  return {
+    maxCrawlingDepth: crawl.maxCrawlingDepth ?? DEFAULT_CRAWLING_DEPTH[origin],
+    maxPagesPerCrawl: crawl.maxPagesPerCrawl ?? DEFAULT_CRAWL_SETTINGS.maxPagesPerCrawl,
+    linkSelector: crawl.linkSelector ?? DEFAULT_CRAWL_SETTINGS.linkSelector,
+    excludeUrlGlobs: crawl.excludeUrlGlobs ?? DEFAULT_CRAWL_SETTINGS.excludeUrlGlobs,
+    model: crawl.model ?? DEFAULT_CRAWL_SETTINGS.model,
+    ...(crawl.instructions && { instructions: crawl.instructions }),
+  }
+}
+
+function buildCrawlInput(crawl: EffectiveCrawlSettings, instructions: string) {
+  return {
+    excludeUrlGlobs: crawl.excludeUrlGlobs.map((glob) => ({ glob })),
+    instructions: [instructions, crawl.instructions].filter(Boolean).join('\n'),
+    linkSelector: crawl.linkSelector,
+    maxCrawlingDepth: crawl.maxCrawlingDepth,
+    maxPagesPerCrawl: crawl.maxPagesPerCrawl,
+    model: crawl.model,
+  }
 }
 
+/**
+ * Build the actor input for museum exhibition pages
+ * The crawl settings may be overridden per museum, and the prompt is taken from the given version.
+ */
 export function buildScrapeActorInput(
   startUrls: Array<{ url: string; method: 'GET' }>,
   openaiApiKey: string,
+  crawl: EffectiveCrawlSettings = resolveCrawlSettings({}, 'scrape'),
+  promptVersion: string = DEFAULT_PROMPT_VERSION,
 ): ApifyActorInput {
+  const prompt = getExtractionPrompt(promptVersion, 'scrape')
   return {
     ...BASE_CONFIG,
-    instructions:
-      '開催中、開催予定の「展覧会」の情報を取得して、指定されたJSONの形式で出力して下さい。「常設展」の情報はJSONに含めないでください。',
-    maxCrawlingDepth: 2,
+    ...buildCrawlInput(crawl, prompt.instructions),
     openaiApiKey,
-    schema: EXHIBITION_SCHEMA,
-    schemaDescription:
-      '`title`の先頭に「特別展」「企画展」などの余計な単語を付け加えないでください。`startDate`と`endDate`は`yyyy-mm-dd`形式で出力して下さい。`officialUrl`と`imageUrl`は`https`始まりの代表画像のURLを出力して下さい。`venue`は美術館、博物館の名称を出力して下さい。例えば、`venue`には「本館展示室」「企画展示室」ではなく「国立西洋美術館」を出力して下さい。情報が見つからない場合は空文字列を出力して下さい。',
+    schema: prompt.schema,
+    schemaDescription: prompt.schemaDescription,
     startUrls,
   }
 }
 
-export function buildScrapeFeedActorInput(openaiApiKey: string): ApifyActorInput {
+/**
+ * Build the actor input for feed sources
+ * The crawl depth and any extra instructions come from the feed source settings, and the prompt
+ * from the given version.
+ */
+export function buildScrapeFeedActorInput(
+  startUrls: Array<{ url: string; method: 'GET' }>,
+  openaiApiKey: string,
+  crawl: EffectiveCrawlSettings = resolveCrawlSettings({}, 'scrape-feed'),
+  promptVersion: string = DEFAULT_PROMPT_VERSION,
+): ApifyActorInput {
+  const prompt = getExtractionPrompt(promptVersion, 'scrape-feed')
   return {
     ...BASE_CONFIG,
-    instructions: '「展覧会」情報を取得して、指定されたJSONの形式で出力して下さい。',
-    maxCrawlingDepth: 1,
+    ...buildCrawlInput(crawl, prompt.instructions),
     openaiApiKey,
-    schema: EXHIBITION_SCHEMA_WITHOUT_URLS,
-    schemaDescription:
-      '`title` の先頭に「特別展」「企画展」などの余計な単語を付け加えないでください。`startDate`と`endDate`は`yyyy-mm-dd`形式で出力して下さい。`venue`は美術館、博物館の名称を出力して下さい。例えば、`venue`には「本館展示室」「企画展示室」ではなく「国立西洋美術館」を出力して下さい。情報が見つからない場合は空文字列を出力して下さい。',
-    startUrls: [
-      {
-        url: 'https://www.tokyoartbeat.com/events/regionId/3t69ZtVfJeKUQ2UM0DXnJM/orderBy/latest',
-        method: 'GET',
-      },
-    ],
+    schema: prompt.schema,
+    schemaDescription: prompt.schemaDescription,
+    startUrls,
   }
 }
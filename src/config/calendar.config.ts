@@ -0,0 +1,9 @@
+/**
+ * Settings for the iCalendar export of exhibitions
+ */
+export const CALENDAR_CONFIG = {
+  prodId: '-//Artlyst//Artlyst Data Processor//JA',
+  name: 'Artlyst 展覧会',
+  // Appended to the document ID to make event UIDs globally unique
+  uidDomain: 'artlyst-data-processor',
+}
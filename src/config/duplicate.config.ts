@@ -0,0 +1,10 @@
+/**
+ * Settings for detecting near-duplicate exhibitions within a museum
+ * Titles are compared after canonicalization, and only exhibitions with overlapping dates match
+ */
+export const DUPLICATE_DETECTION_CONFIG = {
+  // Title similarity (0-1) above which a new exhibition is treated as the existing one
+  linkThreshold: 0.9,
+  // Title similarity (0-1) above which a new exhibition is held as a merge candidate for review
+  candidateThreshold: 0.7,
+}
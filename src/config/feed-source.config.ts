@@ -0,0 +1,15 @@
+import type { FeedSourceDocument } from '../types/feed-source.js'
+
+/**
+ * Feed sources registered by POST /feed-source/seed
+ * The Tokyo Art Beat listing was scraped by POST /exhibition/scrape-feed before feed sources were stored.
+ */
+export const DEFAULT_FEED_SOURCES: FeedSourceDocument[] = [
+  {
+    name: 'Tokyo Art Beat',
+    url: 'https://www.tokyoartbeat.com/events/regionId/3t69ZtVfJeKUQ2UM0DXnJM/orderBy/latest',
+    crawlDepth: 1,
+    enabled: true,
+    region: '東京',
+  },
+]
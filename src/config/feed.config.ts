@@ -0,0 +1,12 @@
+/**
+ * Settings for the Atom and JSON feeds of newly added exhibitions
+ */
+export const FEED_CONFIG = {
+  title: 'Artlyst 新着展覧会',
+  description: 'Artlyst に新しく追加された展覧会',
+  language: 'ja',
+  // Followed by the document ID to form entry IDs, which stay the same wherever the feed is served
+  entryIdPrefix: 'urn:artlyst:exhibition:',
+  // Most recently added exhibitions read per request, before filtering by museum
+  scanLimit: 500,
+}
@@ -0,0 +1,13 @@
+/**
+ * Settings for downloading and validating exhibition images
+ */
+export const IMAGE_CONFIG = {
+  allowedContentTypes: ['image/jpeg', 'image/png', 'image/gif', 'image/webp'],
+  // Larger files are most likely not a key visual
+  maxBytes: 10 * 1024 * 1024,
+  // Smaller images are icons or thumbnails
+  minWidth: 200,
+  minHeight: 200,
+  timeoutMs: 10_000,
+  maxRedirects: 5,
+}
@@ -0,0 +1,7 @@
+/**
+ * Settings for transitioning exhibitions between lifecycle statuses
+ */
+export const LIFECYCLE_CONFIG = {
+  // Documents read and written per transaction, well below the Firestore limit of 500 writes
+  pageSize: 200,
+}
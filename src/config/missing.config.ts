@@ -0,0 +1,8 @@
+/**
+ * Settings for detecting exhibitions that are no longer listed on their museum's site
+ * Only scrapes that cover a museum's whole listing count towards its exhibitions' missed runs
+ */
+export const MISSING_DETECTION_CONFIG = {
+  // Consecutive runs without the exhibition after which it is flagged as missing
+  missedRunThreshold: 3,
+}
@@ -0,0 +1,120 @@
+import { ValidationError } from '../errors/app-error.js'
+import type { ScrapeOrigin } from '../types/exhibition.js'
+import type { ExtractionPrompt, PromptDefinition } from '../types/scraper.js'
+
+const EXHIBITION_SCHEMA = {
+  title: 'ExhibitionListSchema',
+  type: 'object',
+  properties: {
+    exhibitions: {
+      type: 'array',
+      description: '展覧会情報の一覧',
+      items: {
+        type: 'object',
+        properties: {
+          title: {
+            type: 'string',
+            description: '展覧会のタイトル',
+          },
+          venue: {
+            type: 'string',
+            description: '会場名',
+          },
+          startDate: {
+            type: 'string',
+            description: '展覧会の開始日時',
+          },
+          endDate: {
+            type: 'string',
+            description: '展覧会の終了日時',
+          },
+          officialUrl: {
+            type: 'string',
+            description: '展覧会の公式URL',
+          },
+          imageUrl: {
+            type: 'string',
+            description: '展覧会の代表画像URL',
+          },
+        },
+        additionalProperties: false,
+      },
+    },
+  },
+}
+
+const EXHIBITION_SCHEMA_WITHOUT_URLS = {
+  title: 'ExhibitionListSchema',
+  type: 'object',
+  properties: {
+    exhibitions: {
+      type: 'array',
+      description: '展示会情報の一覧',
+      items: {
+        type: 'object',
+        properties: {
+          title: {
+            type: 'string',
+            description: '展覧会のタイトル',
+          },
+          venue: {
+            type: 'string',
+            description: '会場名',
+          },
+          startDate: {
+            type: 'string',
+            description: '展覧会の開始日時',
+          },
+          endDate: {
+            type: 'string',
+            description: '展覧会の終了日時',
+          },
+        },
+        additionalProperties: false,
+      },
+    },
+  },
+}
+
+/**
+ * Registered extraction prompts, keyed by version
+ * A registered version must never be edited once it has been used, since exhibitions record the
+ * version that extracted them. Changes to the instructions or schemas go into a new version.
+ */
+export const PROMPT_VERSIONS: Record<string, PromptDefinition> = {
+  v1: {
+    version: 'v1',
+    description: 'Initial prompts, with official and image URLs extracted from museum pages',
+    prompts: {
+      scrape: {
+        instructions:
+          '開催中、開催予定の「展覧会」の情報を取得して、指定されたJSONの形式で出力して下さい。「常設展」の情報はJSONに含めないでください。',
+        schema: EXHIBITION_SCHEMA,
+        schemaDescription:
+          '`title`の先頭に「特別展」「企画展」などの余計な単語を付け加えないでください。`startDate`と`endDate`は`yyyy-mm-dd`形式で出力して下さい。`officialUrl`と`imageUrl`は`https`始まりの代表画像のURLを出力して下さい。`venue`は美術館、博物館の名称を出力して下さい。例えば、`venue`には「本館展示室」「企画展示室」ではなく「国立西洋美術館」を出力して下さい。情報が見つからない場合は空文字列を出力して下さい。',
+      },
+      'scrape-feed': {
+        instructions: '「展覧会」情報を取得して、指定されたJSONの形式で出力して下さい。',
+        schema: EXHIBITION_SCHEMA_WITHOUT_URLS,
+        schemaDescription:
+          '`title` の先頭に「特別展」「企画展」などの余計な単語を付け加えないでください。`startDate`と`endDate`は`yyyy-mm-dd`形式で出力して下さい。`venue`は美術館、博物館の名称を出力して下さい。例えば、`venue`には「本館展示室」「企画展示室」ではなく「国立西洋美術館」を出力して下さい。情報が見つからない場合は空文字列を出力して下さい。',
+      },
+    },
+  },
+}
+
+// Used by runs that do not select a version
+export const DEFAULT_PROMPT_VERSION = 'v1'
+
+export const PROMPT_VERSION_IDS = Object.keys(PROMPT_VERSIONS)
+
+/**
+ * Look up the prompt of a registered version for the given origin
+ */
+export function getExtractionPrompt(version: string, origin: ScrapeOrigin): ExtractionPrompt {
+  const definition = PROMPT_VERSIONS[version]
+  if (!definition) {
+    throw new ValidationError(`Unknown prompt version: ${version}`)
+  }
+  return definition.prompts[origin]
+}
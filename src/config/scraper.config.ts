@@ -0,0 +1,7 @@
+/**
+ * Settings for the HTML scraper provider, which fetches museum pages itself
+ */
+export const HTML_SCRAPER_CONFIG = {
+  timeoutMs: 15_000,
+  userAgent: 'Mozilla/5.0 (compatible; artbase-data-processor)',
+}
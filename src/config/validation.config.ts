@@ -0,0 +1,16 @@
+/**
+ * Rules scraped exhibitions must satisfy before they are written to Firestore
+ * Exhibitions breaking any rule are quarantined for review instead
+ */
+export const EXHIBITION_VALIDATION_CONFIG = {
+  // Exhibitions that ended longer ago than this are stale or misparsed
+  maxPastDays: 365,
+  // Exhibitions starting further ahead than this are most likely misparsed
+  maxFutureDays: 730,
+  // Titles shorter than this (after trimming) are not real exhibition titles
+  minTitleLength: 2,
+  // Listings that are not exhibitions, such as permanent collections or closure notices
+  blockedTitlePatterns: [/^常設展/, /^コレクション展$/, /休館/, /^お知らせ/],
+}
+
+export type ExhibitionValidationConfig = typeof EXHIBITION_VALIDATION_CONFIG
@@ -0,0 +1,9 @@
+/**
+ * Settings for resolving scraped venue names to museums
+ */
+export const VENUE_MATCH_CONFIG = {
+  // Minimum score (0-1) a fuzzy match needs to be accepted
+  fuzzyThreshold: 0.8,
+  // Shorter names are too ambiguous to be matched by containment (e.g. "東博")
+  minContainmentLength: 4,
+}
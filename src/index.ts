@@ -4,6 +4,11 @@ import { Hono } from 'hono'
 import type { Context } from 'hono'
 import health from './routes/health.js'
 import exhibition from './routes/exhibition.js'
+import museum from './routes/museum.js'
+import unmatchedVenue from './routes/unmatched-venue.js'
+import quarantinedExhibition from './routes/quarantined-exhibition.js'
+import mergeCandidate from './routes/merge-candidate.js'
+import feedSource from './routes/feed-source.js'
 import { AppError } from './errors/app-error.js'
 
 const app = new Hono()
@@ -19,7 +24,7 @@ app.onError((err, c: Context) => {
         error: err.message,
         code: err.code,
       },
-      err.statusCode as 400 | 404 | 500 | 502,
+      err.statusCode as 400 | 401 | 404 | 409 | 500 | 502,
     )
   }
 
@@ -36,6 +41,11 @@ app.onError((err, c: Context) => {
 
 app.route('/health', health)
 app.route('/exhibition', exhibition)
+app.route('/museum', museum)
+app.route('/unmatched-venue', unmatchedVenue)
+app.route('/quarantined-exhibition', quarantinedExhibition)
+app.route('/merge-candidate', mergeCandidate)
+app.route('/feed-source', feedSource)
 
 const port = process.env.PORT !== undefined ? parseInt(process.env.PORT) : 8080
 
@@ -1,11 +1,22 @@
 import { ApifyClient } from 'apify-client'
+import { ConfigurationError } from '../errors/app-error.js'
 
-const APIFY_API_TOKEN = process.env.APIFY_API_TOKEN
+let apifyClient: ApifyClient | undefined
 
-if (!APIFY_API_TOKEN) {
-  throw new Error('Missing required environment variable: APIFY_API_TOKEN')
-}
+/**
+ * Get the Apify client, created on first use
+ * This lets the app run without an Apify token as long as nothing is scraped through Apify.
+ */
+export function getApifyClient(): ApifyClient {
+  if (!apifyClient) {
+    const APIFY_API_TOKEN = process.env.APIFY_API_TOKEN
+
+    if (!APIFY_API_TOKEN) {
+      throw new ConfigurationError('Missing required environment variable: APIFY_API_TOKEN')
+    }
 
-const apifyClient = new ApifyClient({ token: APIFY_API_TOKEN })
+    apifyClient = new ApifyClient({ token: APIFY_API_TOKEN })
+  }
 
-export default apifyClient
+  return apifyClient
+}
@@ -0,0 +1,80 @@
+import { copyFile, mkdir, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import { Storage } from '@google-cloud/storage'
+import { ConfigurationError } from '../errors/app-error.js'
+import type { ImageStorage } from '../types/image.js'
+
+/**
+ * Store images in a Cloud Storage bucket
+ * Authentication uses Application Default Credentials (ADC), like Firestore.
+ */
+export function createCloudImageStorage(bucketName: string): ImageStorage {
+  const bucket = new Storage().bucket(bucketName)
+
+  return {
+    async save(filePath, data, contentType) {
+      await bucket.file(filePath).save(data, { contentType, resumable: false })
+      return `gs://${bucketName}/${filePath}`
+    },
+    async copy(fromPath, toPath) {
+      await bucket.file(fromPath).copy(bucket.file(toPath))
+      return `gs://${bucketName}/${toPath}`
+    },
+  }
+}
+
+/**
+ * Store images on the local filesystem, for development and tests
+ */
+export function createLocalImageStorage(rootDir: string): ImageStorage {
+  return {
+    async save(filePath, data) {
+      const absolutePath = path.resolve(rootDir, filePath)
+      await mkdir(path.dirname(absolutePath), { recursive: true })
+      await writeFile(absolutePath, data)
+      return absolutePath
+    },
+    async copy(fromPath, toPath) {
+      const absolutePath = path.resolve(rootDir, toPath)
+      await mkdir(path.dirname(absolutePath), { recursive: true })
+      await copyFile(path.resolve(rootDir, fromPath), absolutePath)
+      return absolutePath
+    },
+  }
+}
+
+let imageStorage: ImageStorage | null | undefined
+
+/**
+ * Get the image storage selected by the `IMAGE_STORAGE` environment variable
+ * - `gcs`: Cloud Storage bucket named by `IMAGE_BUCKET`
+ * - `local`: directory named by `IMAGE_STORAGE_DIR` (defaults to `./images`)
+ *
+ * @returns The storage, or null if images should not be stored
+ */
+export function getImageStorage(): ImageStorage | null {
+  if (imageStorage !== undefined) {
+    return imageStorage
+  }
+
+  const { IMAGE_STORAGE, IMAGE_BUCKET, IMAGE_STORAGE_DIR } = process.env
+  switch (IMAGE_STORAGE) {
+    case 'gcs':
+      if (!IMAGE_BUCKET) {
+        throw new ConfigurationError('Missing required environment variable: IMAGE_BUCKET')
+      }
+      imageStorage = createCloudImageStorage(IMAGE_BUCKET)
+      break
+    case 'local':
+      imageStorage = createLocalImageStorage(IMAGE_STORAGE_DIR || './images')
+      break
+    case undefined:
+    case '':
+      imageStorage = null
+      break
+    default:
+      throw new ConfigurationError(`Unsupported IMAGE_STORAGE: ${IMAGE_STORAGE}`)
+  }
+
+  return imageStorage
+}
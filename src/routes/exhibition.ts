@@ -1,20 +1,108 @@
 import { Hono } from 'hono'
+import type { Context } from 'hono'
 import { env } from 'hono/adapter'
-import { apifyResponseSchema, apifyFeedResponseSchema } from '../schemas/apify.schema.js'
-import { buildScrapeActorInput, buildScrapeFeedActorInput } from '../config/apify.config.js'
-import { runActorAndGetResults } from '../services/apify.service.js'
+import {
+  apifyResponseSchema,
+  apifyFeedResponseSchema,
+  apifyWebhookPayloadSchema,
+} from '../schemas/apify.schema.js'
+import { buildScrapeActorInput } from '../config/apify.config.js'
+import { DEFAULT_PROMPT_VERSION } from '../config/prompt.config.js'
+import { startActorWithWebhook, getRunResults, getDatasetItems } from '../services/apify.service.js'
+import {
+  createApifyProvider,
+  groupByCrawlSettings,
+  preferStructuredData,
+  scrapeMuseums,
+} from '../services/scraper.service.js'
+import { fetchEnabledFeedSources, fetchFeedSourceById } from '../services/feed-source.service.js'
 import {
   fetchEnabledMuseumsWithUrls,
   fetchAllMuseums,
+  fetchMuseumById,
+  fetchMuseumsByIds,
   buildMuseumMaps,
 } from '../services/museum.service.js'
 import { processScrapeResults } from '../services/exhibition.service.js'
+import { migrateExhibitionDocumentIds } from '../services/exhibition-migration.service.js'
+import { transitionExhibitionLifecycle } from '../services/exhibition-lifecycle.service.js'
+import { auditDuplicates } from '../services/merge-candidate.service.js'
+import { fetchExhibitionHistory } from '../services/exhibition-history.service.js'
+import { storeExhibitionImage } from '../services/image.service.js'
+import { fetchMissingExhibitions } from '../services/missing-exhibition.service.js'
+import { missingExhibitionQuerySchema } from '../schemas/missing-exhibition.schema.js'
+import {
+  buildAtomFeed,
+  buildExhibitionCalendar,
+  buildJsonFeed,
+  fetchExportedExhibitions,
+  fetchFeedExhibitions,
+  getFeedLastModified,
+} from '../services/exhibition-export.service.js'
+import {
+  exhibitionExportQuerySchema,
+  exhibitionFeedQuerySchema,
+} from '../schemas/exhibition-export.schema.js'
+import { getImageStorage } from '../lib/storage.js'
+import { exhibitionHistoryQuerySchema } from '../schemas/exhibition-history.schema.js'
+import { duplicateAuditQuerySchema } from '../schemas/merge-candidate.schema.js'
+import {
+  trackScrapeRun,
+  createScrapeRun,
+  updateScrapeRun,
+  claimScrapeRun,
+  completeScrapeRun,
+  failScrapeRun,
+  settleScrapeRun,
+  fetchScrapeRuns,
+  fetchScrapeRunById,
+  comparePromptVersions,
+} from '../services/scrape-run.service.js'
+import {
+  scrapeRunListQuerySchema,
+  promptVersionComparisonQuerySchema,
+} from '../schemas/scrape-run.schema.js'
+import {
+  scrapeQuerySchema,
+  crawlQuerySchema,
+  asyncScrapeQuerySchema,
+  scrapeFeedQuerySchema,
+  ingestRequestSchema,
+} from '../schemas/scrape.schema.js'
+import {
+  fetchExhibitions,
+  fetchExhibitionById,
+  approveExhibition,
+  excludeExhibition,
+  editExhibition,
+  acknowledgeDateChange,
+  acceptPendingChanges,
+  dismissPendingChanges,
+} from '../services/exhibition-review.service.js'
+import {
+  exhibitionListQuerySchema,
+  reviewRequestSchema,
+  excludeExhibitionSchema,
+  editExhibitionSchema,
+} from '../schemas/exhibition-review.schema.js'
+import { parseRequest } from '../utils/validation.js'
+import { getContentETag, secretsEqual } from '../utils/hash.js'
+import { isNotModified } from '../utils/http.js'
 import type { AppEnv } from '../types/env.js'
-import { ConfigurationError } from '../errors/app-error.js'
+import type { ScrapeRunContext } from '../types/scrape-run.js'
+import type { Museum } from '../schemas/museum.schema.js'
+import type { FeedScrapeResult } from '../types/feed-source.js'
+import type { ApifyActorInput } from '../types/apify.js'
+import {
+  ConfigurationError,
+  ExternalServiceError,
+  UnauthorizedError,
+  ValidationError,
+} from '../errors/app-error.js'
 
 const app = new Hono()
 
-app.post('/scrape', async (c) => {
+function getScrapeEnv(c: Context): AppEnv {
   const { APIFY_ACTOR_ID, OPENAI_API_KEY } = env<AppEnv>(c)
 
   if (!APIFY_ACTOR_ID || !OPENAI_API_KEY) {
@@ -23,76 +111,804 @@ app.post('/scrape', async (c) => {
     )
   }
 
-  // Fetch museums and build start URLs
-  const { museums, startUrls } = await fetchEnabledMuseumsWithUrls()
+  return { APIFY_ACTOR_ID, OPENAI_API_KEY }
+}
 
-  // Build Apify actor input
-  const input = buildScrapeActorInput(startUrls, OPENAI_API_KEY)
+/**
+ * Start an async scrape, crawling each group of crawl settings in its own actor run
+ * Each crawl is tracked as a job whose results are processed by the /apify-webhook route, and
+ * the scrape is settled from its jobs as they finish.
+ */
+async function startAsyncScrape(
+  museums: Museum[],
+  options: {
+    actorId: string
+    openaiApiKey: string
+    webhookUrl: string
+    webhookSecret: string
+    promptVersion: string
+  },
+): Promise<ScrapeRunContext> {
+  const run: ScrapeRunContext = {
+    id: await createScrapeRun('scrape', { async: true }),
+    museumIds: museums.map((museum) => museum.id),
+  }
+  const jobs: Array<{ job: ScrapeRunContext; input: ApifyActorInput }> = []
 
-  // Run Apify actor and get results
-  const rawResults = await runActorAndGetResults(APIFY_ACTOR_ID, input)
-  const exhibitions = apifyResponseSchema.parse(rawResults)
+  try {
+    const targets = museums.map((museum) => ({
+      url: museum.scrapeUrl,
+      museum,
+      crawl: museum.crawl,
+    }))
+    for (const group of groupByCrawlSettings(targets, 'scrape')) {
+      // The scrape run document doubles as the job status document
+      const job: ScrapeRunContext = {
+        id: await createScrapeRun('scrape', { async: true, parentId: run.id }),
+        museumIds: group.targets.flatMap(({ museum }) => (museum ? [museum.id] : [])),
+        // Recorded here so that the webhook can stamp the exhibitions with them
+        promptVersion: options.promptVersion,
+        models: [group.crawl.model],
+      }
+      const input = buildScrapeActorInput(
+        group.targets.map(({ url }) => ({ url, method: 'GET' as const })),
+        options.openaiApiKey,
+        group.crawl,
+        options.promptVersion,
+      )
+      jobs.push({ job, input })
+    }
 
-  // Build museum maps for venue normalization
-  const museumMaps = buildMuseumMaps(museums)
+    // All jobs are recorded first, so that the first job to finish cannot settle the scrape early
+    run.jobIds = jobs.map(({ job }) => job.id)
+    await updateScrapeRun(run)
 
-  // Process exhibitions and save to Firestore
-  const results = await processScrapeResults(exhibitions, museumMaps, 'scrape')
+    for (const { job, input } of jobs) {
+      // Start the actor; results are processed by the /apify-webhook route
+      const apifyRunId = await startActorWithWebhook(options.actorId, input, {
+        requestUrl: options.webhookUrl,
+        secret: options.webhookSecret,
+        jobId: job.id,
+      })
+      await updateScrapeRun({ ...job, apifyRunId })
+      job.apifyRunId = apifyRunId
+    }
+  } catch (error) {
+    // Jobs whose actor was not started would never be completed by the webhook
+    for (const { job } of jobs) {
+      if (!job.apifyRunId) {
+        await failScrapeRun(job, error)
+      }
+    }
+    await failScrapeRun(run, error)
+    throw error
+  }
 
-  return c.json(
-    {
-      success: true,
-      message: `Scrape successful. Found ${exhibitions.length} exhibitions.`,
-      stats: {
-        total: exhibitions.length,
-        created: results.created,
-        updated: results.updated,
-        skipped: results.skipped,
-        errors: results.errors,
+  return run
+}
+
+app.post('/scrape', async (c) => {
+  const {
+    dryRun,
+    async,
+    promptVersion = DEFAULT_PROMPT_VERSION,
+  } = parseRequest(asyncScrapeQuerySchema, c.req.query())
+
+  if (async) {
+    const { APIFY_ACTOR_ID, OPENAI_API_KEY } = getScrapeEnv(c)
+    const { APIFY_WEBHOOK_URL, APIFY_WEBHOOK_SECRET } = env<AppEnv>(c)
+
+    if (!APIFY_WEBHOOK_URL || !APIFY_WEBHOOK_SECRET) {
+      throw new ConfigurationError(
+        'Missing required environment variables: APIFY_WEBHOOK_URL or APIFY_WEBHOOK_SECRET',
+      )
+    }
+
+    // Only museums scraped through Apify can be crawled asynchronously
+    const { museums } = await fetchEnabledMuseumsWithUrls('apify')
+    if (museums.length === 0) {
+      throw new ValidationError('No enabled museums are scraped through Apify')
+    }
+
+    // Structured data is read by the webhook, since reading every museum page takes too long here
+    const run = await startAsyncScrape(museums, {
+      actorId: APIFY_ACTOR_ID,
+      openaiApiKey: OPENAI_API_KEY,
+      webhookUrl: APIFY_WEBHOOK_URL,
+      webhookSecret: APIFY_WEBHOOK_SECRET,
+      promptVersion,
+    })
+
+    return c.json(
+      {
+        success: true,
+        message: `Scrape of ${museums.length} museums started in ${run.jobIds?.length ?? 0} jobs.`,
+        jobId: run.id,
+        jobIds: run.jobIds,
       },
+      202,
+    )
+  }
+
+  return trackScrapeRun(
+    'scrape',
+    async (run) => {
+      // Fetch museums
+      const { museums } = await fetchEnabledMuseumsWithUrls()
+      run.museumIds = museums.map((museum) => museum.id)
+
+      // Scrape each museum with the provider configured on it
+      const scraped = await scrapeMuseums(museums, env<AppEnv>(c), {
+        promptVersion,
+      })
+      const { exhibitions } = scraped
+      run.apifyRunIds = scraped.apifyRunIds
+      run.promptVersion = scraped.promptVersion
+      run.models = scraped.models
+
+      // Build museum maps for venue normalization
+      const museumMaps = buildMuseumMaps(museums)
+
+      // Process exhibitions and save to Firestore (or only report the diff in dry-run mode)
+      const { diff, ...stats } = await processScrapeResults(exhibitions, museumMaps, 'scrape', {
+        dryRun,
+        runId: run.id,
+        coveredMuseumIds: run.museumIds,
+      })
+      run.stats = stats
+
+      return c.json(
+        {
+          success: true,
+          message: `${dryRun ? 'Dry run' : 'Scrape'} successful. Found ${exhibitions.length} exhibitions.`,
+          runId: run.id,
+          stats: {
+            total: exhibitions.length,
+            ...stats,
+          },
+          ...(dryRun && { diff }),
+        },
+        dryRun ? 200 : 201,
+      )
     },
-    201,
+    { dryRun },
+  )
+})
+
+app.post('/scrape/:museumId', async (c) => {
+  const { dryRun, promptVersion } = parseRequest(crawlQuerySchema, c.req.query())
+
+  // Load the museum regardless of its scrapeEnabled flag
+  const museum = await fetchMuseumById(c.req.param('museumId'))
+  if (!museum.scrapeUrl) {
+    throw new ValidationError(`Museum ${museum.id} has no scrapeUrl`)
+  }
+
+  return trackScrapeRun(
+    'scrape',
+    async (run) => {
+      run.museumIds = [museum.id]
+
+      // Scrape this museum only, with the provider configured on it
+      const scraped = await scrapeMuseums([museum], env<AppEnv>(c), {
+        promptVersion,
+      })
+      const { exhibitions } = scraped
+      run.apifyRunIds = scraped.apifyRunIds
+      run.promptVersion = scraped.promptVersion
+      run.models = scraped.models
+
+      // Build museum maps for venue normalization
+      const museumMaps = buildMuseumMaps([museum])
+
+      // Process exhibitions and save to Firestore (or only report the diff in dry-run mode)
+      const { diff, ...stats } = await processScrapeResults(exhibitions, museumMaps, 'scrape', {
+        dryRun,
+        runId: run.id,
+        coveredMuseumIds: run.museumIds,
+      })
+      run.stats = stats
+
+      return c.json(
+        {
+          success: true,
+          message: `${dryRun ? 'Dry run' : 'Scrape'} successful. Found ${exhibitions.length} exhibitions for ${museum.name}.`,
+          runId: run.id,
+          stats: {
+            total: exhibitions.length,
+            ...stats,
+          },
+          exhibitions,
+          ...(dryRun && { diff }),
+        },
+        dryRun ? 200 : 201,
+      )
+    },
+    { dryRun },
   )
 })
 
 app.post('/scrape-feed', async (c) => {
-  const { APIFY_ACTOR_ID, OPENAI_API_KEY } = env<AppEnv>(c)
+  const provider = createApifyProvider(env<AppEnv>(c))
+  const { dryRun, feedId, promptVersion } = parseRequest(scrapeFeedQuerySchema, c.req.query())
 
-  if (!APIFY_ACTOR_ID || !OPENAI_API_KEY) {
-    throw new ConfigurationError(
-      'Missing required environment variables: APIFY_ACTOR_ID or OPENAI_API_KEY',
+  // A feed requested by ID is scraped regardless of its enabled flag
+  const feeds = feedId ? [await fetchFeedSourceById(feedId)] : await fetchEnabledFeedSources()
+  if (feeds.length === 0) {
+    throw new ValidationError(
+      'No enabled feed sources. Register the default ones with POST /feed-source/seed',
     )
   }
 
   // Fetch all museums for venue mapping
-  const museums = await fetchAllMuseums()
+  const museumMaps = buildMuseumMaps(await fetchAllMuseums())
 
-  // Build Apify actor input
-  const input = buildScrapeFeedActorInput(OPENAI_API_KEY)
+  // Each feed is crawled and recorded as a scrape run of its own
+  const results: FeedScrapeResult[] = []
+  for (const feed of feeds) {
+    try {
+      const result = await trackScrapeRun(
+        'scrape-feed',
+        async (run) => {
+          run.feedId = feed.id
 
-  // Run Apify actor and get results
-  const rawResults = await runActorAndGetResults(APIFY_ACTOR_ID, input)
-  const exhibitions = apifyFeedResponseSchema.parse(rawResults)
+          // Scrape the feed with the Apify actor
+          const scraped = await provider.scrape(
+            [
+              {
+                url: feed.url,
+                crawl: { maxCrawlingDepth: feed.crawlDepth, instructions: feed.instructions },
+              },
+            ],
+            'scrape-feed',
+            { promptVersion },
+          )
+          const { exhibitions } = scraped
+          run.apifyRunIds = scraped.apifyRunIds
+          run.promptVersion = scraped.promptVersion
+          run.models = scraped.models
 
-  // Build museum maps for venue normalization
-  const museumMaps = buildMuseumMaps(museums)
+          // Process exhibitions and save to Firestore (or only report the diff in dry-run mode)
+          const { diff, ...stats } = await processScrapeResults(
+            exhibitions,
+            museumMaps,
+            'scrape-feed',
+            {
+              dryRun,
+              runId: run.id,
+            },
+          )
+          run.stats = stats
+
+          return {
+            feedId: feed.id,
+            name: feed.name,
+            runId: run.id,
+            stats: {
+              total: exhibitions.length,
+              ...stats,
+            },
+            ...(dryRun && { diff }),
+          }
+        },
+        { dryRun },
+      )
+      results.push(result)
+    } catch (error) {
+      // A single requested feed fails the request, otherwise the other feeds are still scraped
+      if (feedId) {
+        throw error
+      }
+      console.error(`Failed to scrape feed ${feed.id}:`, error)
+      results.push({
+        feedId: feed.id,
+        name: feed.name,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+  }
 
-  // Process exhibitions and save to Firestore
-  const results = await processScrapeResults(exhibitions, museumMaps, 'scrape-feed')
+  const succeeded = results.filter((result) => 'stats' in result)
+  if (succeeded.length === 0) {
+    throw new ExternalServiceError(`All ${feeds.length} feeds failed to scrape`, 'Apify')
+  }
+  const total = succeeded.reduce((sum, result) => sum + result.stats.total, 0)
 
   return c.json(
     {
       success: true,
-      message: `Scrape successful. Found ${exhibitions.length} exhibitions.`,
+      message: `${dryRun ? 'Dry run' : 'Scrape'} successful. Found ${total} exhibitions in ${succeeded.length} of ${feeds.length} feeds.`,
+      feeds: results,
+    },
+    dryRun ? 200 : 201,
+  )
+})
+
+app.post('/ingest', async (c) => {
+  const { dryRun } = parseRequest(scrapeQuerySchema, c.req.query())
+  const body = parseRequest(ingestRequestSchema, await c.req.json())
+  const { origin } = body
+
+  return trackScrapeRun(
+    origin,
+    async (run) => {
+      // Load items that Apify already has instead of launching the actor
+      let results: { items: unknown[]; scrapedAt: Date }
+      if ('datasetId' in body) {
+        run.datasetId = body.datasetId
+        results = await getDatasetItems(body.datasetId)
+      } else {
+        run.apifyRunId = body.runId
+        results = await getRunResults(body.runId)
+      }
+      const { items, scrapedAt } = results
+      const exhibitions =
+        origin === 'scrape-feed'
+          ? apifyFeedResponseSchema.parse(items)
+          : apifyResponseSchema.parse(items)
+
+      // Use all museums so that venue aliases added since the crawl are taken into account
+      const museums = await fetchAllMuseums()
+      const museumMaps = buildMuseumMaps(museums)
+
+      // Process exhibitions and save to Firestore (or only report the diff in dry-run mode)
+      // Years missing from the dates are inferred from when the items were scraped, not from now
+      const { diff, ...stats } = await processScrapeResults(exhibitions, museumMaps, origin, {
+        dryRun,
+        runId: run.id,
+        scrapedAt,
+      })
+      run.stats = stats
+
+      return c.json(
+        {
+          success: true,
+          message: `${dryRun ? 'Dry run' : 'Ingest'} successful. Found ${exhibitions.length} exhibitions.`,
+          runId: run.id,
+          stats: {
+            total: exhibitions.length,
+            ...stats,
+          },
+          ...(dryRun && { diff }),
+        },
+        dryRun ? 200 : 201,
+      )
+    },
+    { dryRun, ingest: true },
+  )
+})
+
+app.post('/apify-webhook', async (c) => {
+  const { APIFY_WEBHOOK_SECRET } = env<AppEnv>(c)
+
+  if (!APIFY_WEBHOOK_SECRET) {
+    throw new ConfigurationError('Missing required environment variable: APIFY_WEBHOOK_SECRET')
+  }
+
+  if (!secretsEqual(c.req.header('X-Apify-Webhook-Secret') ?? '', APIFY_WEBHOOK_SECRET)) {
+    throw new UnauthorizedError('Invalid webhook secret')
+  }
+
+  const payload = parseRequest(apifyWebhookPayloadSchema, await c.req.json())
+  const job = await fetchScrapeRunById(payload.jobId)
+
+  // Apify retries deliveries, so a job that has already finished is acknowledged without reprocessing
+  if (job.status !== 'running') {
+    return c.json(
+      {
+        success: true,
+        message: `Job ${job.id} already ${job.status}.`,
+      },
+      200,
+    )
+  }
+
+  // Rejecting the delivery makes Apify retry it, which also covers a webhook that
+  // arrives before the job has recorded its Apify run ID
+  if (job.apifyRunId !== payload.resource.id) {
+    throw new ValidationError(`Apify run ${payload.resource.id} does not belong to job ${job.id}`)
+  }
+
+  // Processing can outlast Apify's webhook timeout, so a retried delivery may arrive meanwhile.
+  // Only the delivery that claims the job processes it, and the others are acknowledged.
+  if (!(await claimScrapeRun(job.id))) {
+    return c.json(
+      {
+        success: true,
+        message: `Job ${job.id} is already being processed or finished.`,
+      },
+      200,
+    )
+  }
+
+  const run: ScrapeRunContext = {
+    id: job.id,
+    apifyRunId: job.apifyRunId,
+    museumIds: job.museumIds,
+  }
+
+  if (payload.eventType !== 'ACTOR.RUN.SUCCEEDED') {
+    await failScrapeRun(run, new Error(`Apify run finished with event ${payload.eventType}`))
+    // The async scrape that started the job finishes with its last job
+    if (job.parentId) {
+      await settleScrapeRun(job.parentId)
+    }
+    return c.json(
+      {
+        success: true,
+        message: `Job ${job.id} failed (${payload.eventType}).`,
+      },
+      200,
+    )
+  }
+
+  let total: number
+  try {
+    // Fetch the finished run's dataset
+    const { items } = await getRunResults(payload.resource.id)
+    const parsed =
+      job.origin === 'scrape-feed'
+        ? apifyFeedResponseSchema.parse(items)
+        : apifyResponseSchema.parse(items)
+
+    // Stamp the exhibitions with the prompt version and model the job was started with
+    const { promptVersion } = job
+    const model = job.models?.[0]
+    const crawled =
+      promptVersion && model
+        ? parsed.map((exhibition) => ({
+            ...exhibition,
+            extraction: { method: 'llm' as const, promptVersion, model },
+          }))
+        : parsed
+
+    // Build museum maps from the museums the job targeted
+    const museums = await fetchMuseumsByIds(job.museumIds ?? [])
+    const museumMaps = buildMuseumMaps(museums)
+
+    // Async scrapes crawl every museum, so the structured data published on their pages is read now
+    const exhibitions =
+      job.origin === 'scrape' ? await preferStructuredData(crawled, museums, museumMaps) : crawled
+    total = exhibitions.length
+
+    // Process exhibitions and save to Firestore
+    run.stats = await processScrapeResults(exhibitions, museumMaps, job.origin, {
+      runId: run.id,
+      // Feed scrapes only list some exhibitions of each museum
+      ...(job.origin === 'scrape' && { coveredMuseumIds: job.museumIds }),
+    })
+  } catch (error) {
+    await failScrapeRun(run, error)
+    if (job.parentId) {
+      await settleScrapeRun(job.parentId)
+    }
+    throw error
+  }
+
+  await completeScrapeRun(run)
+  if (job.parentId) {
+    await settleScrapeRun(job.parentId)
+  }
+
+  return c.json(
+    {
+      success: true,
+      message: `Job ${job.id} completed. Found ${total} exhibitions.`,
       stats: {
-        total: exhibitions.length,
-        created: results.created,
-        updated: results.updated,
-        skipped: results.skipped,
-        errors: results.errors,
+        total,
+        ...run.stats,
       },
     },
-    201,
+    200,
+  )
+})
+
+app.post('/migrate-ids', async (c) => {
+  const { dryRun } = parseRequest(scrapeQuerySchema, c.req.query())
+
+  // Move existing documents to the IDs generated from canonicalized titles
+  const museums = await fetchAllMuseums()
+  const results = await migrateExhibitionDocumentIds(museums, dryRun, getImageStorage())
+
+  return c.json(
+    {
+      success: true,
+      message: `${dryRun ? 'Dry run' : 'Migration'} successful. Moved ${results.migrated} of ${results.scanned} exhibitions.`,
+      results,
+    },
+    200,
+  )
+})
+
+app.post('/lifecycle', async (c) => {
+  const { dryRun } = parseRequest(scrapeQuerySchema, c.req.query())
+
+  // End exhibitions past their end date in Asia/Tokyo (called daily by Cloud Scheduler)
+  const results = await transitionExhibitionLifecycle(dryRun)
+
+  return c.json(
+    {
+      success: true,
+      message: `${dryRun ? 'Dry run' : 'Lifecycle transition'} successful. Ended ${results.ended} and reopened ${results.reopened} exhibitions.`,
+      results,
+    },
+    200,
+  )
+})
+
+app.post('/audit-duplicates', async (c) => {
+  const { museumId } = parseRequest(duplicateAuditQuerySchema, c.req.query())
+
+  // Compare existing exhibitions within each museum and record merge candidates for review
+  const museums = await fetchAllMuseums()
+  const targets = museumId ? [await fetchMuseumById(museumId)] : museums
+  const results = await auditDuplicates(targets, museums)
+
+  return c.json(
+    {
+      success: true,
+      message: `Audit successful. Recorded ${results.candidates} merge candidates.`,
+      results,
+    },
+    200,
+  )
+})
+
+app.get('/runs', async (c) => {
+  const { limit } = parseRequest(scrapeRunListQuerySchema, c.req.query())
+  const runs = await fetchScrapeRuns(limit)
+
+  return c.json(
+    {
+      success: true,
+      runs,
+    },
+    200,
+  )
+})
+
+app.get('/runs/prompt-versions', async (c) => {
+  const { versions, limit } = parseRequest(promptVersionComparisonQuerySchema, c.req.query())
+  const promptVersions = await comparePromptVersions(versions, limit)
+
+  return c.json(
+    {
+      success: true,
+      promptVersions,
+    },
+    200,
+  )
+})
+
+app.get('/runs/:id', async (c) => {
+  const run = await fetchScrapeRunById(c.req.param('id'))
+
+  return c.json(
+    {
+      success: true,
+      run,
+    },
+    200,
+  )
+})
+
+app.get('/', async (c) => {
+  const query = parseRequest(exhibitionListQuerySchema, c.req.query())
+  const exhibitions = await fetchExhibitions(query)
+
+  return c.json(
+    {
+      success: true,
+      exhibitions,
+    },
+    200,
+  )
+})
+
+app.get('/calendar.ics', async (c) => {
+  const query = parseRequest(exhibitionExportQuerySchema, c.req.query())
+  const exhibitions = await fetchExportedExhibitions(query)
+
+  return c.body(buildExhibitionCalendar(exhibitions), 200, {
+    'Content-Type': 'text/calendar; charset=utf-8',
+  })
+})
+
+/**
+ * Respond with a feed, or with 304 Not Modified when the client already has the same version
+ */
+function feedResponse(c: Context, body: string, contentType: string, lastModified?: Date) {
+  const etag = getContentETag(body)
+  const headers = {
+    ETag: etag,
+    ...(lastModified && { 'Last-Modified': lastModified.toUTCString() }),
+  }
+
+  const conditions = {
+    'if-none-match': c.req.header('If-None-Match'),
+    'if-modified-since': c.req.header('If-Modified-Since'),
+  }
+  if (isNotModified(conditions, etag, lastModified)) {
+    return c.body(null, 304, headers)
+  }
+  return c.body(body, 200, { ...headers, 'Content-Type': contentType })
+}
+
+async function fetchFeed(c: Context) {
+  const query = parseRequest(exhibitionFeedQuerySchema, c.req.query())
+  const exhibitions = await fetchFeedExhibitions(query)
+  return { exhibitions, feedUrl: c.req.url, lastModified: getFeedLastModified(exhibitions) }
+}
+
+app.get('/feed.xml', async (c) => {
+  const { exhibitions, feedUrl, lastModified } = await fetchFeed(c)
+
+  return feedResponse(
+    c,
+    buildAtomFeed(exhibitions, feedUrl),
+    'application/atom+xml; charset=utf-8',
+    lastModified,
+  )
+})
+
+app.get('/feed.json', async (c) => {
+  const { exhibitions, feedUrl, lastModified } = await fetchFeed(c)
+
+  return feedResponse(
+    c,
+    buildJsonFeed(exhibitions, feedUrl),
+    'application/feed+json; charset=utf-8',
+    lastModified,
+  )
+})
+
+app.get('/missing', async (c) => {
+  const query = parseRequest(missingExhibitionQuerySchema, c.req.query())
+  const exhibitions = await fetchMissingExhibitions(query)
+
+  return c.json(
+    {
+      success: true,
+      exhibitions,
+    },
+    200,
+  )
+})
+
+app.get('/:id', async (c) => {
+  const exhibition = await fetchExhibitionById(c.req.param('id'))
+
+  return c.json(
+    {
+      success: true,
+      exhibition,
+    },
+    200,
+  )
+})
+
+app.get('/:id/history', async (c) => {
+  const { limit } = parseRequest(exhibitionHistoryQuerySchema, c.req.query())
+  const history = await fetchExhibitionHistory(c.req.param('id'), limit)
+
+  return c.json(
+    {
+      success: true,
+      history,
+    },
+    200,
+  )
+})
+
+app.patch('/:id', async (c) => {
+  const { reviewedBy, ...edit } = parseRequest(editExhibitionSchema, await c.req.json())
+  const exhibition = await editExhibition(c.req.param('id'), reviewedBy, edit)
+
+  return c.json(
+    {
+      success: true,
+      exhibition,
+    },
+    200,
+  )
+})
+
+app.post('/:id/approve', async (c) => {
+  const { reviewedBy } = parseRequest(reviewRequestSchema, await c.req.json())
+  const exhibition = await approveExhibition(c.req.param('id'), reviewedBy)
+
+  return c.json(
+    {
+      success: true,
+      exhibition,
+    },
+    200,
+  )
+})
+
+app.post('/:id/exclude', async (c) => {
+  const { reviewedBy, reason } = parseRequest(excludeExhibitionSchema, await c.req.json())
+  const exhibition = await excludeExhibition(c.req.param('id'), reviewedBy, reason)
+
+  return c.json(
+    {
+      success: true,
+      exhibition,
+    },
+    200,
+  )
+})
+
+app.post('/:id/acknowledge-date-change', async (c) => {
+  const { reviewedBy } = parseRequest(reviewRequestSchema, await c.req.json())
+  const exhibition = await acknowledgeDateChange(c.req.param('id'), reviewedBy)
+
+  return c.json(
+    {
+      success: true,
+      exhibition,
+    },
+    200,
+  )
+})
+
+app.post('/:id/accept-changes', async (c) => {
+  const { reviewedBy } = parseRequest(reviewRequestSchema, await c.req.json())
+  const exhibition = await acceptPendingChanges(c.req.param('id'), reviewedBy)
+
+  // An accepted imageUrl replaces the stored image; a failed download can be retried via POST /:id/image
+  const storage = getImageStorage()
+  if (storage && exhibition.imageUrl && exhibition.imageUrl !== exhibition.image?.sourceUrl) {
+    try {
+      exhibition.image = await storeExhibitionImage(exhibition.id, storage)
+    } catch (error) {
+      console.error(
+        `Failed to store image for exhibition ${exhibition.id}:`,
+        error instanceof Error ? error.message : error,
+      )
+    }
+  }
+
+  return c.json(
+    {
+      success: true,
+      exhibition,
+    },
+    200,
+  )
+})
+
+app.post('/:id/dismiss-changes', async (c) => {
+  const { reviewedBy } = parseRequest(reviewRequestSchema, await c.req.json())
+  const exhibition = await dismissPendingChanges(c.req.param('id'), reviewedBy)
+
+  return c.json(
+    {
+      success: true,
+      exhibition,
+    },
+    200,
+  )
+})
+
+/**
+ * Download the image at the exhibition's imageUrl again and store it
+ * Used to retry images that failed during a scrape or when accepting a changed imageUrl.
+ */
+app.post('/:id/image', async (c) => {
+  const storage = getImageStorage()
+  if (!storage) {
+    throw new ConfigurationError('Image storage is not configured: set IMAGE_STORAGE')
+  }
+
+  const image = await storeExhibitionImage(c.req.param('id'), storage)
+
+  return c.json(
+    {
+      success: true,
+      image,
+    },
+    200,
   )
 })
 
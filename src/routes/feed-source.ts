@@ -0,0 +1,91 @@
+import { Hono } from 'hono'
+import {
+  fetchAllFeedSources,
+  fetchFeedSourceById,
+  createFeedSource,
+  updateFeedSource,
+  deleteFeedSource,
+  seedFeedSources,
+} from '../services/feed-source.service.js'
+import { createFeedSourceSchema, updateFeedSourceSchema } from '../schemas/feed-source.schema.js'
+import { parseRequest } from '../utils/validation.js'
+
+const app = new Hono()
+
+app.get('/', async (c) => {
+  const feedSources = await fetchAllFeedSources()
+
+  return c.json(
+    {
+      success: true,
+      feedSources,
+    },
+    200,
+  )
+})
+
+app.get('/:id', async (c) => {
+  const feedSource = await fetchFeedSourceById(c.req.param('id'))
+
+  return c.json(
+    {
+      success: true,
+      feedSource,
+    },
+    200,
+  )
+})
+
+app.post('/', async (c) => {
+  const input = parseRequest(createFeedSourceSchema, await c.req.json())
+  const feedSource = await createFeedSource(input)
+
+  return c.json(
+    {
+      success: true,
+      feedSource,
+    },
+    201,
+  )
+})
+
+app.post('/seed', async (c) => {
+  // Register the default feed sources (run once after deploying)
+  const feedSources = await seedFeedSources()
+
+  return c.json(
+    {
+      success: true,
+      message: `Created ${feedSources.length} feed sources.`,
+      feedSources,
+    },
+    200,
+  )
+})
+
+app.patch('/:id', async (c) => {
+  const update = parseRequest(updateFeedSourceSchema, await c.req.json())
+  const feedSource = await updateFeedSource(c.req.param('id'), update)
+
+  return c.json(
+    {
+      success: true,
+      feedSource,
+    },
+    200,
+  )
+})
+
+app.delete('/:id', async (c) => {
+  await deleteFeedSource(c.req.param('id'))
+
+  return c.json(
+    {
+      success: true,
+      message: 'Feed source deleted.',
+    },
+    200,
+  )
+})
+
+export default app
@@ -0,0 +1,77 @@
+import { Hono } from 'hono'
+import {
+  fetchMergeCandidates,
+  confirmMergeCandidate,
+  separateMergeCandidate,
+} from '../services/merge-candidate.service.js'
+import { fetchAllMuseums, buildMuseumMaps } from '../services/museum.service.js'
+import { processScrapeResults } from '../services/exhibition.service.js'
+import {
+  mergeCandidateListQuerySchema,
+  resolveMergeCandidateSchema,
+} from '../schemas/merge-candidate.schema.js'
+import { parseRequest } from '../utils/validation.js'
+
+const app = new Hono()
+
+app.get('/', async (c) => {
+  const { status, limit } = parseRequest(mergeCandidateListQuerySchema, c.req.query())
+  const candidates = await fetchMergeCandidates(status, limit)
+
+  return c.json(
+    {
+      success: true,
+      candidates,
+    },
+    200,
+  )
+})
+
+app.post('/:id/merge', async (c) => {
+  const { resolvedBy } = parseRequest(resolveMergeCandidateSchema, await c.req.json())
+
+  await confirmMergeCandidate(c.req.param('id'), resolvedBy)
+
+  return c.json(
+    {
+      success: true,
+      message: 'Merge confirmed.',
+    },
+    200,
+  )
+})
+
+app.post('/:id/separate', async (c) => {
+  const { resolvedBy } = parseRequest(resolveMergeCandidateSchema, await c.req.json())
+
+  const candidate = await separateMergeCandidate(c.req.param('id'), resolvedBy)
+
+  // Create the exhibition that was held back while scraping
+  if (candidate.exhibition && candidate.origin) {
+    const museums = await fetchAllMuseums()
+    const museumMaps = buildMuseumMaps(museums)
+    const stats = await processScrapeResults([candidate.exhibition], museumMaps, candidate.origin, {
+      skipValidation: true,
+      skipDuplicateDetection: true,
+    })
+
+    return c.json(
+      {
+        success: true,
+        message: 'Exhibition separated.',
+        stats,
+      },
+      200,
+    )
+  }
+
+  return c.json(
+    {
+      success: true,
+      message: 'Exhibition separated.',
+    },
+    200,
+  )
+})
+
+export default app
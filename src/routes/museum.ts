@@ -0,0 +1,87 @@
+import { Hono } from 'hono'
+import {
+  fetchAllMuseums,
+  fetchMuseumById,
+  createMuseum,
+  updateMuseum,
+  deleteMuseum,
+} from '../services/museum.service.js'
+import { migrateMuseumExhibitionIds } from '../services/exhibition-migration.service.js'
+import { createMuseumSchema, updateMuseumSchema } from '../schemas/museum.schema.js'
+import { getImageStorage } from '../lib/storage.js'
+import { parseRequest } from '../utils/validation.js'
+
+const app = new Hono()
+
+app.get('/', async (c) => {
+  const museums = await fetchAllMuseums()
+
+  return c.json(
+    {
+      success: true,
+      museums,
+    },
+    200,
+  )
+})
+
+app.get('/:id', async (c) => {
+  const museum = await fetchMuseumById(c.req.param('id'))
+
+  return c.json(
+    {
+      success: true,
+      museum,
+    },
+    200,
+  )
+})
+
+app.post('/', async (c) => {
+  const input = parseRequest(createMuseumSchema, await c.req.json())
+  const museum = await createMuseum(input)
+
+  return c.json(
+    {
+      success: true,
+      museum,
+    },
+    201,
+  )
+})
+
+app.patch('/:id', async (c) => {
+  const id = c.req.param('id')
+  const update = parseRequest(updateMuseumSchema, await c.req.json())
+  const previous = update.name === undefined ? null : await fetchMuseumById(id)
+  const museum = await updateMuseum(id, update)
+
+  // Titles are hashed without the museum's name, so a rename changes their document IDs
+  const migration =
+    previous && previous.name !== museum.name
+      ? await migrateMuseumExhibitionIds(museum, getImageStorage())
+      : null
+
+  return c.json(
+    {
+      success: true,
+      museum,
+      ...(migration && { migration }),
+    },
+    200,
+  )
+})
+
+app.delete('/:id', async (c) => {
+  await deleteMuseum(c.req.param('id'))
+
+  return c.json(
+    {
+      success: true,
+      message: 'Museum deleted.',
+    },
+    200,
+  )
+})
+
+export default app
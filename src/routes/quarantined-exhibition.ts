@@ -0,0 +1,93 @@
+import { Hono } from 'hono'
+import {
+  fetchQuarantinedExhibitions,
+  fetchQuarantinedExhibitionById,
+  fetchReleasableExhibition,
+  releaseQuarantinedExhibition,
+  discardQuarantinedExhibition,
+} from '../services/quarantined-exhibition.service.js'
+import { fetchAllMuseums, buildMuseumMaps } from '../services/museum.service.js'
+import { processScrapeResults } from '../services/exhibition.service.js'
+import {
+  quarantinedExhibitionListQuerySchema,
+  releaseQuarantinedExhibitionSchema,
+  resolveQuarantinedExhibitionSchema,
+} from '../schemas/quarantined-exhibition.schema.js'
+import { parseRequest } from '../utils/validation.js'
+import { ValidationError } from '../errors/app-error.js'
+
+const app = new Hono()
+
+app.get('/', async (c) => {
+  const { status, limit } = parseRequest(quarantinedExhibitionListQuerySchema, c.req.query())
+  const exhibitions = await fetchQuarantinedExhibitions(status, limit)
+
+  return c.json(
+    {
+      success: true,
+      exhibitions,
+    },
+    200,
+  )
+})
+
+app.get('/:id', async (c) => {
+  const exhibition = await fetchQuarantinedExhibitionById(c.req.param('id'))
+
+  return c.json(
+    {
+      success: true,
+      exhibition,
+    },
+    200,
+  )
+})
+
+app.post('/:id/release', async (c) => {
+  const { resolvedBy, startDate, endDate } = parseRequest(
+    releaseQuarantinedExhibitionSchema,
+    await c.req.json(),
+  )
+  const id = c.req.param('id')
+  const correctedDates = { ...(startDate && { startDate }), ...(endDate && { endDate }) }
+
+  const { exhibition, origin } = await fetchReleasableExhibition(id, correctedDates)
+
+  // Process the released exhibition as if it had passed validation
+  const museums = await fetchAllMuseums()
+  const museumMaps = buildMuseumMaps(museums)
+  const stats = await processScrapeResults([exhibition], museumMaps, origin, {
+    skipValidation: true,
+  })
+
+  // An exhibition that could not be written stays quarantined, so that it can be released again
+  if (stats.errors > 0) {
+    throw new ValidationError(`Quarantined exhibition ${id} could not be processed`)
+  }
+  await releaseQuarantinedExhibition(id, resolvedBy, correctedDates)
+
+  return c.json(
+    {
+      success: true,
+      message: 'Exhibition released.',
+      stats,
+    },
+    200,
+  )
+})
+
+app.post('/:id/discard', async (c) => {
+  const { resolvedBy } = parseRequest(resolveQuarantinedExhibitionSchema, await c.req.json())
+
+  await discardQuarantinedExhibition(c.req.param('id'), resolvedBy)
+
+  return c.json(
+    {
+      success: true,
+      message: 'Exhibition discarded.',
+    },
+    200,
+  )
+})
+
+export default app
@@ -0,0 +1,78 @@
+import { Hono } from 'hono'
+import {
+  fetchUnmatchedVenues,
+  promoteUnmatchedVenue,
+  releaseHeldExhibitions,
+  dismissUnmatchedVenue,
+} from '../services/unmatched-venue.service.js'
+import { fetchAllMuseums, buildMuseumMaps } from '../services/museum.service.js'
+import { processScrapeResults } from '../services/exhibition.service.js'
+import {
+  unmatchedVenueListQuerySchema,
+  promoteUnmatchedVenueSchema,
+} from '../schemas/unmatched-venue.schema.js'
+import { parseRequest } from '../utils/validation.js'
+import type { ScrapeOrigin, ScrapeStats } from '../types/exhibition.js'
+
+const app = new Hono()
+
+app.get('/', async (c) => {
+  const { status, limit } = parseRequest(unmatchedVenueListQuerySchema, c.req.query())
+  const venues = await fetchUnmatchedVenues(status, limit)
+
+  return c.json(
+    {
+      success: true,
+      venues,
+    },
+    200,
+  )
+})
+
+app.post('/:id/promote', async (c) => {
+  const { museumId } = parseRequest(promoteUnmatchedVenueSchema, await c.req.json())
+  const id = c.req.param('id')
+
+  // Add the venue to the museum's aliases
+  const heldExhibitions = await promoteUnmatchedVenue(id, museumId)
+
+  // Build museum maps including the new alias
+  const museums = await fetchAllMuseums()
+  const museumMaps = buildMuseumMaps(museums)
+
+  // Reprocess the held exhibitions under their original origin
+  // Each origin is released once processed, so a failure leaves the rest held for a retry
+  const stats: Partial<Record<ScrapeOrigin, ScrapeStats>> = {}
+  for (const origin of ['scrape', 'scrape-feed'] as const) {
+    const held = heldExhibitions.filter((exhibition) => exhibition.origin === origin)
+    const exhibitions = held.map(({ origin: _origin, ...exhibition }) => exhibition)
+
+    if (exhibitions.length > 0) {
+      stats[origin] = await processScrapeResults(exhibitions, museumMaps, origin)
+      await releaseHeldExhibitions(id, held)
+    }
+  }
+
+  return c.json(
+    {
+      success: true,
+      message: `Venue promoted. Reprocessed ${heldExhibitions.length} held exhibitions.`,
+      stats,
+    },
+    200,
+  )
+})
+
+app.post('/:id/dismiss', async (c) => {
+  await dismissUnmatchedVenue(c.req.param('id'))
+
+  return c.json(
+    {
+      success: true,
+      message: 'Venue dismissed.',
+    },
+    200,
+  )
+})
+
+export default app
@@ -1,13 +1,31 @@
 import { z } from 'zod'
 import { scrapedExhibitionSchema } from './exhibition.schema.js'
+import { resolveUrl } from '../utils/http.js'
+import type { ScrapedExhibition } from './exhibition.schema.js'
+
+/**
+ * Resolve relative URLs of an exhibition against the page it was extracted from
+ */
+function resolvePageUrls(exhibition: ScrapedExhibition, pageUrl?: string): ScrapedExhibition {
+  if (!pageUrl) {
+    return exhibition
+  }
+  const { officialUrl, imageUrl } = exhibition
+  return {
+    ...exhibition,
+    ...(officialUrl && { officialUrl: resolveUrl(officialUrl, pageUrl) ?? officialUrl }),
+    ...(imageUrl && { imageUrl: resolveUrl(imageUrl, pageUrl) ?? imageUrl }),
+  }
+}
 
 /**
  * Schema for Apify actor response from regular scraping
- * Includes officialUrl and imageUrl fields
+ * Includes officialUrl and imageUrl fields, resolved against the URL of the crawled page
  */
 export const apifyResponseSchema = z
   .array(
     z.object({
+      url: z.string().optional(),
       jsonAnswer: z
         .object({
           exhibitions: z.array(scrapedExhibitionSchema).default([]),
@@ -18,7 +36,7 @@ export const apifyResponseSchema = z
   .transform((arr) =>
     arr.flatMap((obj) =>
       (obj.jsonAnswer?.exhibitions ?? []).map((ex) => ({
-        ...ex,
+        ...resolvePageUrls(ex, obj.url),
         status: 'pending' as const,
       })),
     ),
@@ -53,3 +71,16 @@ export const apifyFeedResponseSchema = z
       })),
     ),
   )
+
+/**
+ * Schema for the payload of the ad-hoc webhook Apify calls when an async run finishes
+ * (see the payload template in `startActorWithWebhook`)
+ */
+export const apifyWebhookPayloadSchema = z.object({
+  jobId: z.string().min(1),
+  eventType: z.string(),
+  resource: z.object({
+    id: z.string(),
+    status: z.string().optional(),
+  }),
+})
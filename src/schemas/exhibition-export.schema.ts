@@ -0,0 +1,23 @@
+import { z } from 'zod'
+import { areaSchema, venueTypeSchema } from './museum.schema.js'
+
+/**
+ * Schema for query parameters of the exhibition export endpoints
+ * Only active exhibitions are exported unless another status is requested.
+ */
+export const exhibitionExportQuerySchema = z.object({
+  museumId: z.string().min(1).optional(),
+  area: areaSchema.optional(),
+  status: z.enum(['active', 'pending', 'ended']).default('active'),
+})
+export type ExhibitionExportQuery = z.infer<typeof exhibitionExportQuerySchema>
+
+/**
+ * Schema for query parameters of GET /exhibition/feed.xml and /exhibition/feed.json
+ */
+export const exhibitionFeedQuerySchema = z.object({
+  area: areaSchema.optional(),
+  venueType: venueTypeSchema.optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+})
+export type ExhibitionFeedQuery = z.infer<typeof exhibitionFeedQuerySchema>
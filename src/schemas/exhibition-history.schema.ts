@@ -0,0 +1,8 @@
+import { z } from 'zod'
+
+/**
+ * Schema for query parameters of GET /exhibition/:id/history
+ */
+export const exhibitionHistoryQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+})
@@ -0,0 +1,45 @@
+import { z } from 'zod'
+
+const reviewerSchema = z.string().trim().min(1)
+const dateSchema = z.string().trim().min(1)
+
+/**
+ * Schema for query parameters of the exhibition listing endpoint
+ */
+export const exhibitionListQuerySchema = z.object({
+  status: z.enum(['active', 'pending', 'ended']).optional(),
+  museumId: z.string().min(1).optional(),
+  origin: z.enum(['scrape', 'scrape-feed', 'manual']).optional(),
+  hasDateChanged: z.stringbool().optional(),
+  hasPendingChanges: z.stringbool().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+})
+export type ExhibitionListQuery = z.infer<typeof exhibitionListQuerySchema>
+
+/**
+ * Schema for the request body of review actions that only record the reviewer
+ */
+export const reviewRequestSchema = z.object({
+  reviewedBy: reviewerSchema,
+})
+
+/**
+ * Schema for the request body of POST /exhibition/:id/exclude
+ */
+export const excludeExhibitionSchema = reviewRequestSchema.extend({
+  reason: z.string().trim().min(1),
+})
+
+/**
+ * Schema for the request body of PATCH /exhibition/:id
+ * Dates and officialUrl can be cleared with null
+ */
+export const editExhibitionSchema = reviewRequestSchema
+  .extend({
+    title: z.string().trim().min(1).optional(),
+    startDate: dateSchema.nullable().optional(),
+    endDate: dateSchema.nullable().optional(),
+    officialUrl: z.url().nullable().optional(),
+  })
+  .strict()
+export type ExhibitionEdit = Omit<z.infer<typeof editExhibitionSchema>, 'reviewedBy'>
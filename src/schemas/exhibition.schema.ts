@@ -1,7 +1,20 @@
 import { z } from 'zod'
+import type { ExtractionMethod } from '../types/scraper.js'
+
+/**
+ * Schema for how an exhibition was extracted
+ * `promptVersion` and `model` are set when it was extracted by an LLM.
+ */
+export const extractionProvenanceSchema = z.object({
+  method: z.enum(['llm', 'json-ld', 'microdata', 'selectors'] satisfies ExtractionMethod[]),
+  promptVersion: z.string().optional(),
+  model: z.string().optional(),
+})
+export type ExtractionProvenance = z.infer<typeof extractionProvenanceSchema>
 
 /**
  * Schema for exhibition data scraped from museum websites via Apify
+ * `extraction` is not part of the actor output; it is stamped by the scraper after parsing.
  */
 export const scrapedExhibitionSchema = z.object({
   title: z.string(),
@@ -10,5 +23,6 @@ export const scrapedExhibitionSchema = z.object({
   endDate: z.string().nullish(),
   officialUrl: z.string().nullish(),
   imageUrl: z.string().nullish(),
+  extraction: extractionProvenanceSchema.optional(),
 })
 export type ScrapedExhibition = z.infer<typeof scrapedExhibitionSchema>
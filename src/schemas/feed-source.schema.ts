@@ -0,0 +1,43 @@
+import { z } from 'zod'
+
+/**
+ * Schema for feed source documents stored in Firestore
+ * A feed source is an exhibition listing site covering many museums (e.g. Tokyo Art Beat)
+ */
+export const feedSourceDocumentSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  url: z.string(),
+  // How many levels of links the crawler follows from the listing page
+  crawlDepth: z.number().int().min(0),
+  // Extra instructions for the extractor, e.g. which part of the page lists exhibitions
+  instructions: z.string().optional(),
+  enabled: z.boolean(),
+  region: z.string().optional(),
+})
+export type FeedSource = z.infer<typeof feedSourceDocumentSchema>
+
+/**
+ * Schema for the request body of POST /feed-source
+ */
+export const createFeedSourceSchema = feedSourceDocumentSchema.omit({ id: true }).extend({
+  name: z.string().trim().min(1),
+  url: z.url({ protocol: /^https?$/ }),
+  crawlDepth: z.number().int().min(0).max(3).default(1),
+  instructions: z.string().trim().min(1).optional(),
+  enabled: z.boolean().default(true),
+  region: z.string().trim().min(1).optional(),
+})
+export type FeedSourceInput = z.infer<typeof createFeedSourceSchema>
+
+/**
+ * Schema for the request body of PATCH /feed-source/:id
+ */
+export const updateFeedSourceSchema = createFeedSourceSchema
+  .extend({
+    crawlDepth: z.number().int().min(0).max(3),
+    enabled: z.boolean(),
+  })
+  .partial()
+  .strict()
+export type FeedSourceUpdate = z.infer<typeof updateFeedSourceSchema>
@@ -0,0 +1,23 @@
+import { z } from 'zod'
+
+/**
+ * Schema for query parameters of the merge candidate listing endpoint
+ */
+export const mergeCandidateListQuerySchema = z.object({
+  status: z.enum(['open', 'merged', 'separated']).default('open'),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+})
+
+/**
+ * Schema for the request body of POST /merge-candidate/:id/merge and /separate
+ */
+export const resolveMergeCandidateSchema = z.object({
+  resolvedBy: z.string().trim().min(1),
+})
+
+/**
+ * Schema for query parameters of POST /exhibition/audit-duplicates
+ */
+export const duplicateAuditQuerySchema = z.object({
+  museumId: z.string().min(1).optional(),
+})
@@ -0,0 +1,10 @@
+import { z } from 'zod'
+
+/**
+ * Schema for query parameters of GET /exhibition/missing
+ */
+export const missingExhibitionQuerySchema = z.object({
+  museumId: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+})
+export type MissingExhibitionQuery = z.infer<typeof missingExhibitionQuerySchema>
@@ -1,4 +1,73 @@
 import { z } from 'zod'
+import type { Area, VenueType } from '../types/museum.js'
+import type {
+  CrawlSettings,
+  HtmlParserName,
+  ScraperConfig,
+  ScraperProviderName,
+} from '../types/scraper.js'
+
+export const venueTypeSchema = z.enum([
+  '美術館',
+  '博物館',
+  'ギャラリー',
+  'イベントスペース',
+] satisfies VenueType[])
+
+export const areaSchema = z.enum([
+  '上野',
+  '浅草・押上（スカイツリー）',
+  '銀座・丸の内',
+  '京橋・日本橋・八重洲',
+  '表参道・青山・外苑前',
+  '渋谷',
+  '恵比寿・目黒・白金',
+  '六本木・乃木坂・麻布台',
+  '新宿・初台・四ツ谷・早稲田',
+  '池袋・目白・護国寺',
+  '水道橋・後楽園',
+  '品川・天王洲アイル',
+  '清澄白河・両国・蔵前',
+  '汐留・新橋・虎ノ門',
+  'お台場・豊洲・有明',
+  '中野・高円寺・吉祥寺',
+  '三軒茶屋・二子玉川・世田谷',
+  '武蔵野・三鷹・調布',
+  '小金井・府中・多摩',
+  '立川・八王子・多摩センター',
+] satisfies Area[])
+
+export const scraperConfigSchema = z
+  .object({
+    provider: z.enum(['apify', 'html'] satisfies ScraperProviderName[]),
+    parser: z.enum(['selectors'] satisfies HtmlParserName[]).optional(),
+    selectors: z
+      .object({
+        item: z.string().min(1),
+        title: z.string().min(1),
+        date: z.string().min(1).optional(),
+        startDate: z.string().min(1).optional(),
+        endDate: z.string().min(1).optional(),
+        link: z.string().min(1).optional(),
+        image: z.string().min(1).optional(),
+      })
+      .optional(),
+  })
+  .refine((config) => config.provider !== 'html' || config.selectors, {
+    message: 'selectors are required for the html provider',
+    path: ['selectors'],
+  }) satisfies z.ZodType<ScraperConfig>
+
+export const crawlSettingsSchema = z
+  .object({
+    maxCrawlingDepth: z.number().int().min(0).max(5),
+    maxPagesPerCrawl: z.number().int().min(1).max(1000),
+    linkSelector: z.string().trim().min(1),
+    excludeUrlGlobs: z.array(z.string().trim().min(1)),
+    instructions: z.string().trim().min(1),
+    model: z.string().trim().min(1),
+  })
+  .partial() satisfies z.ZodType<CrawlSettings>
 
 /**
  * Schema for museum documents stored in Firestore
@@ -13,7 +82,33 @@ export const museumDocumentSchema = z.object({
   scrapeUrl: z.string(),
   aliases: z.array(z.string()).optional(),
   scrapeEnabled: z.boolean(),
-  venueType: z.string(),
-  area: z.string(),
+  // Defaults to the Apify provider
+  scraper: scraperConfigSchema.optional(),
+  // Overrides of the Apify crawl settings
+  crawl: crawlSettingsSchema.optional(),
+  venueType: venueTypeSchema,
+  area: areaSchema,
 })
 export type Museum = z.infer<typeof museumDocumentSchema>
+
+/**
+ * Schema for the request body of POST /museum
+ */
+export const createMuseumSchema = museumDocumentSchema.omit({ id: true }).extend({
+  name: z.string().trim().min(1),
+  aliases: z.array(z.string().trim().min(1)).optional(),
+})
+export type MuseumInput = z.infer<typeof createMuseumSchema>
+
+/**
+ * Schema for the request body of PATCH /museum/:id
+ * Aliases and crawl settings can be cleared with null
+ */
+export const updateMuseumSchema = createMuseumSchema
+  .extend({
+    aliases: z.array(z.string().trim().min(1)).nullable(),
+    crawl: crawlSettingsSchema.nullable(),
+  })
+  .partial()
+  .strict()
+export type MuseumUpdate = z.infer<typeof updateMuseumSchema>
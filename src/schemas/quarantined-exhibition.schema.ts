@@ -0,0 +1,25 @@
+import { z } from 'zod'
+
+/**
+ * Schema for query parameters of the quarantined exhibition listing endpoint
+ */
+export const quarantinedExhibitionListQuerySchema = z.object({
+  status: z.enum(['open', 'released', 'discarded']).default('open'),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+})
+
+/**
+ * Schema for the request body of POST /quarantined-exhibition/:id/discard
+ */
+export const resolveQuarantinedExhibitionSchema = z.object({
+  resolvedBy: z.string().trim().min(1),
+})
+
+/**
+ * Schema for the request body of POST /quarantined-exhibition/:id/release
+ * Exhibitions whose dates cannot be parsed are released with corrected dates.
+ */
+export const releaseQuarantinedExhibitionSchema = resolveQuarantinedExhibitionSchema.extend({
+  startDate: z.string().trim().min(1).optional(),
+  endDate: z.string().trim().min(1).optional(),
+})
@@ -0,0 +1,24 @@
+import { z } from 'zod'
+import { PROMPT_VERSION_IDS } from '../config/prompt.config.js'
+import { promptVersionSchema } from './scrape.schema.js'
+
+/**
+ * Schema for query parameters of the scrape run listing endpoint
+ */
+export const scrapeRunListQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+})
+
+/**
+ * Schema for query parameters of GET /exhibition/runs/prompt-versions
+ * `versions` is a comma-separated list and defaults to every registered version.
+ * `limit` is the number of most recent runs compared per version.
+ */
+export const promptVersionComparisonQuerySchema = z.object({
+  versions: z
+    .string()
+    .optional()
+    .transform((versions) => (versions ? versions.split(',') : PROMPT_VERSION_IDS))
+    .pipe(z.array(promptVersionSchema).min(1)),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+})
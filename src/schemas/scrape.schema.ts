@@ -0,0 +1,61 @@
+import { z } from 'zod'
+import { PROMPT_VERSIONS } from '../config/prompt.config.js'
+
+/**
+ * Schema for query parameters of the scrape endpoints
+ */
+export const scrapeQuerySchema = z.object({
+  dryRun: z.stringbool().default(false),
+})
+
+/**
+ * Schema for a registered prompt version
+ */
+export const promptVersionSchema = z
+  .string()
+  .refine((version) => Object.hasOwn(PROMPT_VERSIONS, version), {
+    message: `Unknown prompt version, expected one of: ${Object.keys(PROMPT_VERSIONS).join(', ')}`,
+  })
+
+/**
+ * Schema for query parameters of the endpoints that crawl pages, which can select the prompt version
+ */
+export const crawlQuerySchema = scrapeQuerySchema.extend({
+  promptVersion: promptVersionSchema.optional(),
+})
+
+/**
+ * Schema for query parameters of POST /exhibition/scrape-feed
+ * Without `feedId`, all enabled feed sources are scraped
+ */
+export const scrapeFeedQuerySchema = crawlQuerySchema.extend({
+  feedId: z.string().min(1).optional(),
+})
+
+/**
+ * Schema for query parameters of POST /exhibition/scrape, which can also start the crawl asynchronously
+ */
+export const asyncScrapeQuerySchema = crawlQuerySchema
+  .extend({
+    async: z.stringbool().default(false),
+  })
+  .refine((query) => !(query.async && query.dryRun), {
+    message: 'dryRun cannot be combined with async',
+  })
+
+const ingestOriginSchema = z.enum(['scrape', 'scrape-feed'])
+
+/**
+ * Schema for the request body of POST /exhibition/ingest
+ * Exactly one of `datasetId` or `runId` (whose default dataset is used) must be given
+ */
+export const ingestRequestSchema = z.union([
+  z.strictObject({
+    datasetId: z.string().min(1),
+    origin: ingestOriginSchema,
+  }),
+  z.strictObject({
+    runId: z.string().min(1),
+    origin: ingestOriginSchema,
+  }),
+])
@@ -0,0 +1,16 @@
+import { z } from 'zod'
+
+/**
+ * Schema for query parameters of the unmatched venue listing endpoint
+ */
+export const unmatchedVenueListQuerySchema = z.object({
+  status: z.enum(['open', 'promoted', 'dismissed']).default('open'),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+})
+
+/**
+ * Schema for the request body of POST /unmatched-venue/:id/promote
+ */
+export const promoteUnmatchedVenueSchema = z.object({
+  museumId: z.string().min(1),
+})
@@ -1,15 +1,22 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
-import { runActorAndGetResults } from './apify.service.js'
+import {
+  runActorAndGetResults,
+  startActorWithWebhook,
+  getDatasetItems,
+  getRunResults,
+} from './apify.service.js'
 import { ExternalServiceError } from '../errors/app-error.js'
 import type { ApifyActorInput } from '../types/apify.js'
 
 // Mock Apify client
-vi.mock('../lib/apify.js', () => ({
-  default: {
+vi.mock('../lib/apify.js', () => {
+  const client = {
     actor: vi.fn(),
     dataset: vi.fn(),
-  },
-}))
+    run: vi.fn(),
+  }
+  return { getApifyClient: () => client }
+})
 
 interface MockExhibition {
   title: string
@@ -47,6 +54,7 @@ describe('apify.service', () => {
       ]
 
       const mockRun = {
+        id: 'run-123',
         defaultDatasetId: 'dataset-123',
       }
 
@@ -54,21 +62,22 @@ describe('apify.service', () => {
       const mockListItems = vi.fn().mockResolvedValue({ items: mockResults })
 
       const apifyClient = await import('../lib/apify.js')
-      vi.mocked(apifyClient.default.actor).mockReturnValue({
+      vi.mocked(apifyClient.getApifyClient().actor).mockReturnValue({
         call: mockCall,
       } as never)
-      vi.mocked(apifyClient.default.dataset).mockReturnValue({
+      vi.mocked(apifyClient.getApifyClient().dataset).mockReturnValue({
         listItems: mockListItems,
       } as never)
 
       const result = await runActorAndGetResults<MockExhibition>(actorId, input)
 
-      expect(apifyClient.default.actor).toHaveBeenCalledWith(actorId)
+      expect(apifyClient.getApifyClient().actor).toHaveBeenCalledWith(actorId)
       expect(mockCall).toHaveBeenCalledWith(input, { timeout: 300 })
-      expect(apifyClient.default.dataset).toHaveBeenCalledWith('dataset-123')
+      expect(apifyClient.getApifyClient().dataset).toHaveBeenCalledWith('dataset-123')
       expect(mockListItems).toHaveBeenCalled()
-      expect(result).toEqual(mockResults)
-      expect(result).toHaveLength(2)
+      expect(result.runId).toBe('run-123')
+      expect(result.items).toEqual(mockResults)
+      expect(result.items).toHaveLength(2)
     })
 
     it('should return empty array when no results', async () => {
@@ -78,6 +87,7 @@ describe('apify.service', () => {
       } as ApifyActorInput
 
       const mockRun = {
+        id: 'run-123',
         defaultDatasetId: 'dataset-123',
       }
 
@@ -85,17 +95,17 @@ describe('apify.service', () => {
       const mockListItems = vi.fn().mockResolvedValue({ items: [] })
 
       const apifyClient = await import('../lib/apify.js')
-      vi.mocked(apifyClient.default.actor).mockReturnValue({
+      vi.mocked(apifyClient.getApifyClient().actor).mockReturnValue({
         call: mockCall,
       } as never)
-      vi.mocked(apifyClient.default.dataset).mockReturnValue({
+      vi.mocked(apifyClient.getApifyClient().dataset).mockReturnValue({
         listItems: mockListItems,
       } as never)
 
       const result = await runActorAndGetResults<MockExhibition>(actorId, input)
 
-      expect(result).toEqual([])
-      expect(result).toHaveLength(0)
+      expect(result.items).toEqual([])
+      expect(result.items).toHaveLength(0)
     })
 
     it('should throw ExternalServiceError when actor call fails', async () => {
@@ -107,7 +117,7 @@ describe('apify.service', () => {
       const mockCall = vi.fn().mockRejectedValue(new Error('Actor execution failed'))
 
       const apifyClient = await import('../lib/apify.js')
-      vi.mocked(apifyClient.default.actor).mockReturnValue({
+      vi.mocked(apifyClient.getApifyClient().actor).mockReturnValue({
         call: mockCall,
       } as never)
 
@@ -126,6 +136,7 @@ describe('apify.service', () => {
       } as ApifyActorInput
 
       const mockRun = {
+        id: 'run-123',
         defaultDatasetId: 'dataset-123',
       }
 
@@ -133,10 +144,10 @@ describe('apify.service', () => {
       const mockListItems = vi.fn().mockRejectedValue(new Error('Failed to fetch dataset'))
 
       const apifyClient = await import('../lib/apify.js')
-      vi.mocked(apifyClient.default.actor).mockReturnValue({
+      vi.mocked(apifyClient.getApifyClient().actor).mockReturnValue({
         call: mockCall,
       } as never)
-      vi.mocked(apifyClient.default.dataset).mockReturnValue({
+      vi.mocked(apifyClient.getApifyClient().dataset).mockReturnValue({
         listItems: mockListItems,
       } as never)
 
@@ -157,7 +168,7 @@ describe('apify.service', () => {
       const mockCall = vi.fn().mockRejectedValue('String error')
 
       const apifyClient = await import('../lib/apify.js')
-      vi.mocked(apifyClient.default.actor).mockReturnValue({
+      vi.mocked(apifyClient.getApifyClient().actor).mockReturnValue({
         call: mockCall,
       } as never)
 
@@ -177,6 +188,7 @@ describe('apify.service', () => {
       } as ApifyActorInput
 
       const mockRun = {
+        id: 'run-123',
         defaultDatasetId: 'dataset-123',
       }
 
@@ -184,10 +196,10 @@ describe('apify.service', () => {
       const mockListItems = vi.fn().mockResolvedValue({ items: [] })
 
       const apifyClient = await import('../lib/apify.js')
-      vi.mocked(apifyClient.default.actor).mockReturnValue({
+      vi.mocked(apifyClient.getApifyClient().actor).mockReturnValue({
         call: mockCall,
       } as never)
-      vi.mocked(apifyClient.default.dataset).mockReturnValue({
+      vi.mocked(apifyClient.getApifyClient().dataset).mockReturnValue({
         listItems: mockListItems,
       } as never)
 
@@ -213,6 +225,7 @@ describe('apify.service', () => {
       ]
 
       const mockRun = {
+        id: 'run-123',
         defaultDatasetId: 'dataset-123',
       }
 
@@ -220,18 +233,161 @@ describe('apify.service', () => {
       const mockListItems = vi.fn().mockResolvedValue({ items: mockResults })
 
       const apifyClient = await import('../lib/apify.js')
-      vi.mocked(apifyClient.default.actor).mockReturnValue({
+      vi.mocked(apifyClient.getApifyClient().actor).mockReturnValue({
         call: mockCall,
       } as never)
-      vi.mocked(apifyClient.default.dataset).mockReturnValue({
+      vi.mocked(apifyClient.getApifyClient().dataset).mockReturnValue({
         listItems: mockListItems,
       } as never)
 
       const result = await runActorAndGetResults<CustomResult>(actorId, input)
 
-      expect(result).toEqual(mockResults)
-      expect(result[0].id).toBe('1')
-      expect(result[0].data.value).toBe(100)
+      expect(result.items).toEqual(mockResults)
+      expect(result.items[0].id).toBe('1')
+      expect(result.items[0].data.value).toBe(100)
+    })
+  })
+
+  describe('startActorWithWebhook', () => {
+    beforeEach(() => {
+      vi.clearAllMocks()
+    })
+
+    it('should start the actor with an ad-hoc webhook carrying the job ID and secret', async () => {
+      const input = {
+        startUrls: [{ url: 'https://example.com', method: 'GET' }],
+      } as ApifyActorInput
+
+      const mockStart = vi.fn().mockResolvedValue({ id: 'run-123' })
+
+      const apifyClient = await import('../lib/apify.js')
+      vi.mocked(apifyClient.getApifyClient().actor).mockReturnValue({
+        start: mockStart,
+      } as never)
+
+      const runId = await startActorWithWebhook('test-actor-id', input, {
+        requestUrl: 'https://example.com/exhibition/apify-webhook',
+        secret: 'secret',
+        jobId: 'job-1',
+      })
+
+      expect(runId).toBe('run-123')
+      const [calledInput, options] = mockStart.mock.calls[0]
+      expect(calledInput).toBe(input)
+      expect(options.timeout).toBe(300)
+      expect(options.webhooks[0].requestUrl).toBe('https://example.com/exhibition/apify-webhook')
+      expect(options.webhooks[0].eventTypes).toContain('ACTOR.RUN.SUCCEEDED')
+      expect(options.webhooks[0].payloadTemplate).toContain('"jobId": "job-1"')
+      expect(JSON.parse(options.webhooks[0].headersTemplate)).toEqual({
+        'X-Apify-Webhook-Secret': 'secret',
+      })
+    })
+
+    it('should throw ExternalServiceError when the actor cannot be started', async () => {
+      const apifyClient = await import('../lib/apify.js')
+      vi.mocked(apifyClient.getApifyClient().actor).mockReturnValue({
+        start: vi.fn().mockRejectedValue(new Error('Quota exceeded')),
+      } as never)
+
+      await expect(
+        startActorWithWebhook('test-actor-id', {} as ApifyActorInput, {
+          requestUrl: 'https://example.com',
+          secret: 'secret',
+          jobId: 'job-1',
+        }),
+      ).rejects.toThrow('Failed to start Apify actor: Quota exceeded')
+    })
+  })
+
+  describe('getRunResults', () => {
+    beforeEach(() => {
+      vi.clearAllMocks()
+    })
+
+    it('should return the items of the run default dataset', async () => {
+      const mockResults: MockExhibition[] = [
+        {
+          title: '特別展1',
+          venue: '東京国立博物館',
+          startDate: '2024-01-01',
+          endDate: '2024-03-31',
+        },
+      ]
+
+      const apifyClient = await import('../lib/apify.js')
+      vi.mocked(apifyClient.getApifyClient().run).mockReturnValue({
+        get: vi.fn().mockResolvedValue({
+          id: 'run-123',
+          defaultDatasetId: 'dataset-123',
+          startedAt: new Date('2024-01-15T01:00:00Z'),
+        }),
+      } as never)
+      vi.mocked(apifyClient.getApifyClient().dataset).mockReturnValue({
+        listItems: vi.fn().mockResolvedValue({ items: mockResults }),
+      } as never)
+
+      const result = await getRunResults<MockExhibition>('run-123')
+
+      expect(apifyClient.getApifyClient().run).toHaveBeenCalledWith('run-123')
+      expect(apifyClient.getApifyClient().dataset).toHaveBeenCalledWith('dataset-123')
+      expect(result).toEqual({
+        items: mockResults,
+        scrapedAt: new Date('2024-01-15T01:00:00Z'),
+      })
+    })
+
+    it('should throw ExternalServiceError when the run does not exist', async () => {
+      const apifyClient = await import('../lib/apify.js')
+      vi.mocked(apifyClient.getApifyClient().run).mockReturnValue({
+        get: vi.fn().mockResolvedValue(undefined),
+      } as never)
+
+      await expect(getRunResults('missing')).rejects.toThrow(
+        'Failed to fetch Apify run results: Run not found: missing',
+      )
+    })
+  })
+
+  describe('getDatasetItems', () => {
+    beforeEach(() => {
+      vi.clearAllMocks()
+    })
+
+    it('should return the items of an existing dataset without running the actor', async () => {
+      const mockResults: MockExhibition[] = [
+        {
+          title: '特別展1',
+          venue: '東京国立博物館',
+          startDate: '2024-01-01',
+          endDate: '2024-03-31',
+        },
+      ]
+
+      const apifyClient = await import('../lib/apify.js')
+      vi.mocked(apifyClient.getApifyClient().dataset).mockReturnValue({
+        get: vi.fn().mockResolvedValue({ createdAt: new Date('2024-01-15T01:00:00Z') }),
+        listItems: vi.fn().mockResolvedValue({ items: mockResults }),
+      } as never)
+
+      const result = await getDatasetItems<MockExhibition>('dataset-123')
+
+      expect(apifyClient.getApifyClient().dataset).toHaveBeenCalledWith('dataset-123')
+      expect(apifyClient.getApifyClient().actor).not.toHaveBeenCalled()
+      expect(result).toEqual({
+        items: mockResults,
+        scrapedAt: new Date('2024-01-15T01:00:00Z'),
+      })
+    })
+
+    it('should throw ExternalServiceError when the dataset cannot be fetched', async () => {
+      const apifyClient = await import('../lib/apify.js')
+      vi.mocked(apifyClient.getApifyClient().dataset).mockReturnValue({
+        get: vi.fn().mockResolvedValue(undefined),
+      } as never)
+
+      await expect(getDatasetItems('missing')).rejects.toThrow(
+        'Failed to fetch Apify dataset: Dataset not found: missing',
+      )
     })
   })
 })
@@ -1,4 +1,4 @@
-import apifyClient from '../lib/apify.js'
+import { getApifyClient } from '../lib/apify.js'
 import { ExternalServiceError } from '../errors/app-error.js'
 import type { ApifyActorInput } from '../types/apify.js'
 
@@ -7,7 +7,9 @@ const ACTOR_TIMEOUT_SECONDS = 300
 export async function runActorAndGetResults<T>(
   actorId: string,
   input: ApifyActorInput,
-): Promise<T[]> {
+): Promise<{ runId: string; items: T[] }> {
+  const apifyClient = getApifyClient()
+
   try {
     console.log('Starting Actor:', actorId)
 
@@ -17,9 +19,94 @@ export async function runActorAndGetResults<T>(
 
     const { items } = await apifyClient.dataset(run.defaultDatasetId).listItems()
 
-    return items as T[]
+    return { runId: run.id, items: items as T[] }
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error'
     throw new ExternalServiceError(`Failed to run Apify actor: ${message}`, 'Apify')
   }
 }
+
+/**
+ * Start an actor run without waiting for it to finish
+ * Apify calls the given webhook URL when the run reaches a terminal state; the payload
+ * carries the job ID and the secret is sent in the `X-Apify-Webhook-Secret` header.
+ */
+export async function startActorWithWebhook(
+  actorId: string,
+  input: ApifyActorInput,
+  webhook: { requestUrl: string; secret: string; jobId: string },
+): Promise<string> {
+  const apifyClient = getApifyClient()
+
+  try {
+    console.log('Starting Actor (async):', actorId)
+
+    const run = await apifyClient.actor(actorId).start(input, {
+      timeout: ACTOR_TIMEOUT_SECONDS,
+      webhooks: [
+        {
+          eventTypes: [
+            'ACTOR.RUN.SUCCEEDED',
+            'ACTOR.RUN.FAILED',
+            'ACTOR.RUN.TIMED_OUT',
+            'ACTOR.RUN.ABORTED',
+          ],
+          requestUrl: webhook.requestUrl,
+          payloadTemplate: `{"jobId": ${JSON.stringify(webhook.jobId)}, "eventType": {{eventType}}, "resource": {{resource}}}`,
+          headersTemplate: JSON.stringify({ 'X-Apify-Webhook-Secret': webhook.secret }),
+        },
+      ],
+    })
+
+    return run.id
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    throw new ExternalServiceError(`Failed to start Apify actor: ${message}`, 'Apify')
+  }
+}
+
+/**
+ * Fetch the items of an existing dataset
+ * The dataset's creation time is returned as the time the items were scraped.
+ */
+export async function getDatasetItems<T>(
+  datasetId: string,
+): Promise<{ items: T[]; scrapedAt: Date }> {
+  const apifyClient = getApifyClient()
+
+  try {
+    const dataset = await apifyClient.dataset(datasetId).get()
+    if (!dataset) {
+      throw new Error(`Dataset not found: ${datasetId}`)
+    }
+
+    const { items } = await apifyClient.dataset(datasetId).listItems()
+
+    return { items: items as T[], scrapedAt: dataset.createdAt }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    throw new ExternalServiceError(`Failed to fetch Apify dataset: ${message}`, 'Apify')
+  }
+}
+
+/**
+ * Fetch the dataset items produced by a finished actor run
+ * The run's start time is returned as the time the items were scraped.
+ */
+export async function getRunResults<T>(runId: string): Promise<{ items: T[]; scrapedAt: Date }> {
+  const apifyClient = getApifyClient()
+
+  try {
+    const run = await apifyClient.run(runId).get()
+    if (!run) {
+      throw new Error(`Run not found: ${runId}`)
+    }
+
+    const { items } = await apifyClient.dataset(run.defaultDatasetId).listItems()
+
+    return { items: items as T[], scrapedAt: run.startedAt }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    throw new ExternalServiceError(`Failed to fetch Apify run results: ${message}`, 'Apify')
+  }
+}
@@ -0,0 +1,226 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { Timestamp } from '@google-cloud/firestore'
+import {
+  buildAtomFeed,
+  buildExhibitionCalendar,
+  buildJsonFeed,
+  fetchExportedExhibitions,
+  fetchFeedExhibitions,
+  getFeedLastModified,
+} from './exhibition-export.service.js'
+import type { Museum } from '../schemas/museum.schema.js'
+import type { ExhibitionDocument } from '../types/exhibition.js'
+
+// Mock Firestore
+vi.mock('../lib/firestore.js', () => ({
+  default: {
+    collection: vi.fn(),
+  },
+}))
+
+vi.mock('./museum.service.js', () => ({
+  fetchAllMuseums: vi.fn(async () => [
+    createMuseum('museum1', '上野'),
+    createMuseum('museum2', '六本木'),
+  ]),
+}))
+
+function createMuseum(id: string, area: Museum['area']): Museum {
+  return {
+    id,
+    name: `${id}美術館`,
+    address: '東京都台東区上野公園7-7',
+    access: '',
+    openingInformation: '',
+    officialUrl: `https://${id}.example/`,
+    scrapeUrl: `https://${id}.example/exhibitions/`,
+    scrapeEnabled: true,
+    venueType: '美術館',
+    area,
+  }
+}
+
+const updatedAt = Timestamp.fromDate(new Date('2025-02-01T03:00:00.000Z'))
+
+function createExhibition(data: Partial<ExhibitionDocument> = {}): ExhibitionDocument {
+  return {
+    title: 'モネ 睡蓮のとき',
+    venue: '国立西洋美術館',
+    museumId: 'museum1',
+    // 2025-03-01 and 2025-05-06 in Asia/Tokyo
+    startDate: Timestamp.fromDate(new Date('2025-02-28T15:00:00.000Z')),
+    endDate: Timestamp.fromDate(new Date('2025-05-05T15:00:00.000Z')),
+    status: 'active',
+    origin: 'scrape',
+    isExcluded: false,
+    hasDateChanged: false,
+    createdAt: updatedAt,
+    updatedAt,
+    ...data,
+  }
+}
+
+describe('exhibition-export.service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('fetchExportedExhibitions', () => {
+    it('should filter by area and skip excluded or undated exhibitions', async () => {
+      const docs = [
+        { id: 'later', data: { startDate: Timestamp.fromDate(new Date('2025-06-01')) } },
+        { id: 'earlier', data: {} },
+        { id: 'other-area', data: { museumId: 'museum2' } },
+        { id: 'excluded', data: { isExcluded: true } },
+        { id: 'undated', data: { startDate: undefined } },
+      ].map(({ id, data }) => ({ id, data: () => createExhibition(data) }))
+      const mockWhere = vi.fn().mockReturnValue({ get: vi.fn().mockResolvedValue({ docs }) })
+
+      const db = await import('../lib/firestore.js')
+      vi.mocked(db.default.collection).mockReturnValue({ where: mockWhere } as never)
+
+      const exhibitions = await fetchExportedExhibitions({ status: 'active', area: '上野' })
+
+      expect(mockWhere).toHaveBeenCalledWith('status', '==', 'active')
+      expect(exhibitions.map(({ id }) => id)).toEqual(['earlier', 'later'])
+      expect(exhibitions[0].museum?.id).toBe('museum1')
+    })
+  })
+
+  describe('buildExhibitionCalendar', () => {
+    it('should emit an all-day event per exhibition', () => {
+      const calendar = buildExhibitionCalendar(
+        [
+          {
+            id: 'museum1_abc',
+            data: createExhibition({ officialUrl: 'https://museum1.example/monet/' }),
+            museum: createMuseum('museum1', '上野'),
+          },
+        ],
+        new Date('2025-03-10T00:00:00.000Z'),
+      )
+
+      expect(calendar.split('\r\n')).toEqual([
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//Artlyst//Artlyst Data Processor//JA',
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        'X-WR-CALNAME:Artlyst 展覧会',
+        'X-WR-TIMEZONE:Asia/Tokyo',
+        'BEGIN:VEVENT',
+        'UID:museum1_abc@artlyst-data-processor',
+        'DTSTAMP:20250310T000000Z',
+        'DTSTART;VALUE=DATE:20250301',
+        'DTEND;VALUE=DATE:20250507',
+        'SUMMARY:モネ 睡蓮のとき',
+        'LOCATION:国立西洋美術館\\, 東京都台東区上野公園7-7',
+        'URL:https://museum1.example/monet/',
+        'LAST-MODIFIED:20250201T030000Z',
+        'TRANSP:TRANSPARENT',
+        'END:VEVENT',
+        'END:VCALENDAR',
+        '',
+      ])
+    })
+
+    it('should fold long lines without splitting characters', () => {
+      const calendar = buildExhibitionCalendar([
+        { id: 'museum1_abc', data: createExhibition({ title: '展覧会'.repeat(20) }) },
+      ])
+
+      const summary = calendar.slice(
+        calendar.indexOf('SUMMARY:'),
+        calendar.indexOf('\r\nLOCATION:'),
+      )
+      const lines = summary.split('\r\n')
+      expect(lines.length).toBeGreaterThan(1)
+      for (const line of lines) {
+        expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75)
+      }
+      expect(lines.slice(1).every((line) => line.startsWith(' '))).toBe(true)
+      expect(summary.replace(/\r\n /g, '')).toBe(`SUMMARY:${'展覧会'.repeat(20)}`)
+    })
+  })
+
+  describe('fetchFeedExhibitions', () => {
+    it('should read the latest exhibitions and filter them by the venue type of their museum', async () => {
+      const docs = [
+        { id: 'newest', data: {} },
+        { id: 'excluded', data: { isExcluded: true } },
+        { id: 'other-museum', data: { museumId: 'unknown' } },
+        { id: 'older', data: {} },
+        { id: 'oldest', data: {} },
+      ].map(({ id, data }) => ({ id, data: () => createExhibition(data) }))
+      const mockLimit = vi.fn().mockReturnValue({ get: vi.fn().mockResolvedValue({ docs }) })
+      const mockOrderBy = vi.fn().mockReturnValue({ limit: mockLimit })
+      const mockWhere = vi.fn().mockReturnValue({ orderBy: mockOrderBy })
+
+      const db = await import('../lib/firestore.js')
+      vi.mocked(db.default.collection).mockReturnValue({ where: mockWhere } as never)
+
+      const exhibitions = await fetchFeedExhibitions({ venueType: '美術館', limit: 2 })
+
+      expect(mockWhere).toHaveBeenCalledWith('status', '==', 'active')
+      expect(mockOrderBy).toHaveBeenCalledWith('createdAt', 'desc')
+      expect(exhibitions.map(({ id }) => id)).toEqual(['newest', 'older'])
+    })
+  })
+
+  describe('feeds', () => {
+    const feedUrl = 'https://api.example/exhibition/feed.xml?area=上野'
+    const exhibitions = [
+      {
+        id: 'museum1_abc',
+        data: createExhibition({
+          title: '「美の<巨匠>」展 & 特集',
+          officialUrl: 'https://museum1.example/monet/',
+          imageUrl: 'https://museum1.example/images/monet.jpg',
+          updatedAt: Timestamp.fromDate(new Date('2025-02-03T00:00:00.000Z')),
+        }),
+        museum: createMuseum('museum1', '上野'),
+      },
+      { id: 'museum1_def', data: createExhibition({ endDate: undefined }) },
+    ]
+
+    it('should take the latest update as the last modification', () => {
+      expect(getFeedLastModified(exhibitions)).toEqual(new Date('2025-02-03T00:00:00.000Z'))
+      expect(getFeedLastModified([])).toBeUndefined()
+    })
+
+    it('should build an Atom feed with escaped titles', () => {
+      const feed = buildAtomFeed(exhibitions, feedUrl)
+
+      expect(feed).toContain('<title>「美の&lt;巨匠&gt;」展 &amp; 特集</title>')
+      expect(feed).toContain('<id>urn:artlyst:exhibition:museum1_abc</id>')
+      expect(feed).toContain('<link rel="alternate" href="https://museum1.example/monet/"/>')
+      expect(feed).not.toContain('https://api.example/exhibition/museum1_')
+      expect(feed).toContain('<updated>2025-02-03T00:00:00.000Z</updated>')
+      expect(feed).toContain(
+        '<content type="text">会場: 国立西洋美術館 / 会期: 2025-03-01〜</content>',
+      )
+      expect(feed).toContain('<category term="上野"/>')
+    })
+
+    it('should build a JSON Feed', () => {
+      const feed = JSON.parse(buildJsonFeed(exhibitions, feedUrl))
+
+      expect(feed).toEqual(
+        expect.objectContaining({
+          version: 'https://jsonfeed.org/version/1.1',
+          feed_url: feedUrl,
+        }),
+      )
+      expect(feed.items[0]).toEqual({
+        id: 'urn:artlyst:exhibition:museum1_abc',
+        url: 'https://museum1.example/monet/',
+        title: '「美の<巨匠>」展 & 特集',
+        content_text: '会場: 国立西洋美術館 / 会期: 2025-03-01〜2025-05-06',
+        image: 'https://museum1.example/images/monet.jpg',
+        date_published: '2025-02-01T03:00:00.000Z',
+        date_modified: '2025-02-03T00:00:00.000Z',
+        tags: ['上野', '美術館'],
+      })
+    })
+  })
+})
@@ -0,0 +1,216 @@
+import db from '../lib/firestore.js'
+import { CALENDAR_CONFIG } from '../config/calendar.config.js'
+import { FEED_CONFIG } from '../config/feed.config.js'
+import { fetchAllMuseums } from './museum.service.js'
+import { escapeText, foldLine, formatDateTimeValue, formatDateValue } from '../utils/ical.js'
+import { escapeXml } from '../utils/xml.js'
+import { formatDate } from '../utils/date.js'
+import type {
+  ExhibitionExportQuery,
+  ExhibitionFeedQuery,
+} from '../schemas/exhibition-export.schema.js'
+import type { ExhibitionDocument, ExportedExhibition } from '../types/exhibition.js'
+
+/**
+ * Fetch the exhibitions to export, ordered by start date
+ * The area is a property of the museum, so it is filtered after the museums are joined.
+ * Excluded exhibitions and exhibitions without a start date are never exported.
+ */
+export async function fetchExportedExhibitions(
+  query: ExhibitionExportQuery,
+): Promise<ExportedExhibition[]> {
+  let ref: FirebaseFirestore.Query = db.collection('exhibition').where('status', '==', query.status)
+  if (query.museumId !== undefined) {
+    ref = ref.where('museumId', '==', query.museumId)
+  }
+
+  const [snapshot, museums] = await Promise.all([ref.get(), fetchAllMuseums()])
+  const museumsById = new Map(museums.map((museum) => [museum.id, museum]))
+
+  return snapshot.docs
+    .map((doc) => {
+      const data = doc.data() as ExhibitionDocument
+      return { id: doc.id, data, museum: museumsById.get(data.museumId) }
+    })
+    .filter(
+      ({ data, museum }) =>
+        !data.isExcluded &&
+        data.startDate !== undefined &&
+        (query.area === undefined || museum?.area === query.area),
+    )
+    .sort((a, b) => (a.data.startDate?.toMillis() ?? 0) - (b.data.startDate?.toMillis() ?? 0))
+}
+
+function buildEvent({ id, data, museum }: ExportedExhibition, now: Date): string[] {
+  const { startDate, endDate } = data
+  if (!startDate) {
+    return []
+  }
+
+  const location = museum?.address ? `${data.venue}, ${museum.address}` : data.venue
+  return [
+    'BEGIN:VEVENT',
+    `UID:${id}@${CALENDAR_CONFIG.uidDomain}`,
+    `DTSTAMP:${formatDateTimeValue(now)}`,
+    `DTSTART;VALUE=DATE:${formatDateValue(startDate)}`,
+    // DTEND is exclusive, so the event runs through the last day of the exhibition
+    ...(endDate && endDate.toMillis() >= startDate.toMillis()
+      ? [`DTEND;VALUE=DATE:${formatDateValue(endDate, 1)}`]
+      : []),
+    `SUMMARY:${escapeText(data.title)}`,
+    `LOCATION:${escapeText(location)}`,
+    ...(data.officialUrl ? [`URL:${data.officialUrl}`] : []),
+    `LAST-MODIFIED:${formatDateTimeValue(data.updatedAt.toDate())}`,
+    'TRANSP:TRANSPARENT',
+    'END:VEVENT',
+  ]
+}
+
+/**
+ * Build an iCalendar (RFC 5545) document with an all-day event per exhibition
+ * UIDs are derived from the document ID, so calendar apps update events instead of duplicating them.
+ */
+export function buildExhibitionCalendar(
+  exhibitions: ExportedExhibition[],
+  now: Date = new Date(),
+): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${CALENDAR_CONFIG.prodId}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(CALENDAR_CONFIG.name)}`,
+    'X-WR-TIMEZONE:Asia/Tokyo',
+    ...exhibitions.flatMap((exhibition) => buildEvent(exhibition, now)),
+    'END:VCALENDAR',
+  ]
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
+
+/**
+ * Fetch the most recently added active exhibitions, newest first
+ * Only the latest `FEED_CONFIG.scanLimit` exhibitions are considered, since the area and venue
+ * type filters are applied after the museums are joined.
+ */
+export async function fetchFeedExhibitions(
+  query: ExhibitionFeedQuery,
+): Promise<ExportedExhibition[]> {
+  const [snapshot, museums] = await Promise.all([
+    db
+      .collection('exhibition')
+      .where('status', '==', 'active')
+      .orderBy('createdAt', 'desc')
+      .limit(FEED_CONFIG.scanLimit)
+      .get(),
+    fetchAllMuseums(),
+  ])
+  const museumsById = new Map(museums.map((museum) => [museum.id, museum]))
+
+  return snapshot.docs
+    .map((doc) => {
+      const data = doc.data() as ExhibitionDocument
+      return { id: doc.id, data, museum: museumsById.get(data.museumId) }
+    })
+    .filter(
+      ({ data, museum }) =>
+        !data.isExcluded &&
+        (query.area === undefined || museum?.area === query.area) &&
+        (query.venueType === undefined || museum?.venueType === query.venueType),
+    )
+    .slice(0, query.limit)
+}
+
+/**
+ * Latest change to the exhibitions of a feed, used as the feed's update time and Last-Modified
+ */
+export function getFeedLastModified(exhibitions: ExportedExhibition[]): Date | undefined {
+  const times = exhibitions.map(({ data }) => data.updatedAt.toMillis())
+  return times.length > 0 ? new Date(Math.max(...times)) : undefined
+}
+
+/**
+ * Summary of an exhibition shown in feed readers, e.g. `会場: 国立西洋美術館 / 会期: 2025-03-01〜2025-05-06`
+ */
+function summarize({ data }: ExportedExhibition): string {
+  const startDate = formatDate(data.startDate)
+  const endDate = formatDate(data.endDate)
+  const period = startDate || endDate ? `${startDate ?? ''}〜${endDate ?? ''}` : undefined
+  return [`会場: ${data.venue}`, ...(period ? [`会期: ${period}`] : [])].join(' / ')
+}
+
+function getEntryId(id: string): string {
+  return `${FEED_CONFIG.entryIdPrefix}${encodeURIComponent(id)}`
+}
+
+/**
+ * Public page of an exhibition, falling back to the museum's site for exhibitions without one
+ */
+function getEntryUrl({ data, museum }: ExportedExhibition): string | undefined {
+  return data.officialUrl ?? museum?.officialUrl
+}
+
+/**
+ * Build an Atom (RFC 4287) feed of exhibitions
+ * Entries without a link carry the summary as content, since Atom requires one or the other.
+ */
+export function buildAtomFeed(exhibitions: ExportedExhibition[], feedUrl: string): string {
+  const updated = (getFeedLastModified(exhibitions) ?? new Date(0)).toISOString()
+  const entries = exhibitions.map((exhibition) => {
+    const { id, data } = exhibition
+    const url = getEntryUrl(exhibition)
+    const summary = escapeXml(summarize(exhibition))
+    return [
+      '  <entry>',
+      `    <id>${escapeXml(getEntryId(id))}</id>`,
+      `    <title>${escapeXml(data.title)}</title>`,
+      ...(url ? [`    <link rel="alternate" href="${escapeXml(url)}"/>`] : []),
+      `    <published>${data.createdAt.toDate().toISOString()}</published>`,
+      `    <updated>${data.updatedAt.toDate().toISOString()}</updated>`,
+      url ? `    <summary>${summary}</summary>` : `    <content type="text">${summary}</content>`,
+      ...(exhibition.museum ? [`    <category term="${escapeXml(exhibition.museum.area)}"/>`] : []),
+      '  </entry>',
+    ].join('\n')
+  })
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    `<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${FEED_CONFIG.language}">`,
+    `  <id>${escapeXml(feedUrl)}</id>`,
+    `  <title>${escapeXml(FEED_CONFIG.title)}</title>`,
+    `  <subtitle>${escapeXml(FEED_CONFIG.description)}</subtitle>`,
+    `  <link rel="self" href="${escapeXml(feedUrl)}"/>`,
+    `  <updated>${updated}</updated>`,
+    `  <author><name>${escapeXml(FEED_CONFIG.title)}</name></author>`,
+    ...entries,
+    '</feed>',
+    '',
+  ].join('\n')
+}
+
+/**
+ * Build a JSON Feed (version 1.1) of exhibitions
+ */
+export function buildJsonFeed(exhibitions: ExportedExhibition[], feedUrl: string): string {
+  return JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title: FEED_CONFIG.title,
+    description: FEED_CONFIG.description,
+    feed_url: feedUrl,
+    language: FEED_CONFIG.language,
+    items: exhibitions.map((exhibition) => {
+      const { id, data, museum } = exhibition
+      const url = getEntryUrl(exhibition)
+      return {
+        id: getEntryId(id),
+        ...(url && { url }),
+        title: data.title,
+        content_text: summarize(exhibition),
+        ...(data.imageUrl && { image: data.imageUrl }),
+        date_published: data.createdAt.toDate().toISOString(),
+        date_modified: data.updatedAt.toDate().toISOString(),
+        ...(museum && { tags: [museum.area, museum.venueType] }),
+      }
+    }),
+  })
+}
@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { Timestamp } from '@google-cloud/firestore'
+import { appendHistory, fetchExhibitionHistory } from './exhibition-history.service.js'
+import { NotFoundError } from '../errors/app-error.js'
+
+// Mock Firestore
+vi.mock('../lib/firestore.js', () => ({
+  default: {
+    collection: vi.fn(),
+  },
+}))
+
+async function setupFirestore(exists: boolean, historyDocs: Array<{ id: string; data: unknown }>) {
+  const db = await import('../lib/firestore.js')
+  const historyQuery = {
+    orderBy: vi.fn().mockReturnThis(),
+    limit: vi.fn().mockReturnThis(),
+    get: vi.fn().mockResolvedValue({
+      docs: historyDocs.map(({ id, data }) => ({ id, data: () => data })),
+    }),
+  }
+  vi.mocked(db.default.collection).mockReturnValue({
+    doc: vi.fn().mockReturnValue({
+      get: vi.fn().mockResolvedValue({ exists }),
+      collection: vi.fn().mockReturnValue(historyQuery),
+    }),
+  } as never)
+  return historyQuery
+}
+
+describe('exhibition-history.service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('appendHistory', () => {
+    it('should add an entry to the history subcollection', () => {
+      const historyRef = { id: 'h1' }
+      const exhibitionRef = {
+        collection: vi.fn().mockReturnValue({ doc: vi.fn().mockReturnValue(historyRef) }),
+      }
+      const transaction = { set: vi.fn() }
+      const entry = { changes: {}, origin: 'scrape' as const, changedAt: Timestamp.now() }
+
+      appendHistory(transaction as never, exhibitionRef as never, entry)
+
+      expect(exhibitionRef.collection).toHaveBeenCalledWith('history')
+      expect(transaction.set).toHaveBeenCalledWith(historyRef, entry)
+    })
+  })
+
+  describe('fetchExhibitionHistory', () => {
+    it('should return entries with dates formatted in Asia/Tokyo', async () => {
+      const historyQuery = await setupFirestore(true, [
+        {
+          id: 'h1',
+          data: {
+            changes: {
+              startDate: {
+                old: Timestamp.fromDate(new Date('2024-12-31T15:00:00.000Z')),
+                new: Timestamp.fromDate(new Date('2025-01-09T15:00:00.000Z')),
+              },
+              endDate: { new: Timestamp.fromDate(new Date('2025-03-30T15:00:00.000Z')) },
+            },
+            origin: 'scrape',
+            runId: 'run1',
+            changedAt: Timestamp.fromDate(new Date('2025-01-05T00:00:00.000Z')),
+          },
+        },
+      ])
+
+      const history = await fetchExhibitionHistory('ex1', 10)
+
+      expect(historyQuery.orderBy).toHaveBeenCalledWith('changedAt', 'desc')
+      expect(historyQuery.limit).toHaveBeenCalledWith(10)
+      expect(history).toEqual([
+        {
+          id: 'h1',
+          changes: {
+            startDate: { old: '2025-01-01', new: '2025-01-10' },
+            endDate: { new: '2025-03-31' },
+          },
+          origin: 'scrape',
+          runId: 'run1',
+          changedAt: '2025-01-05T00:00:00.000Z',
+        },
+      ])
+    })
+
+    it('should throw NotFoundError when the exhibition does not exist', async () => {
+      await setupFirestore(false, [])
+
+      await expect(fetchExhibitionHistory('missing', 10)).rejects.toThrow(NotFoundError)
+    })
+  })
+})
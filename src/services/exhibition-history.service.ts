@@ -0,0 +1,70 @@
+import db from '../lib/firestore.js'
+import type { Timestamp, Transaction } from '@google-cloud/firestore'
+import { NotFoundError } from '../errors/app-error.js'
+import { formatDate } from '../utils/date.js'
+import type {
+  ExhibitionHistoryDocument,
+  ExhibitionHistoryEntry,
+  FieldChange,
+} from '../types/exhibition-history.js'
+
+function formatChange(change: FieldChange<Timestamp> | undefined): FieldChange<string> | undefined {
+  if (!change) {
+    return undefined
+  }
+  const oldValue = formatDate(change.old)
+  const newValue = formatDate(change.new)
+  return {
+    ...(oldValue && { old: oldValue }),
+    ...(newValue && { new: newValue }),
+  }
+}
+
+function toHistoryEntry(id: string, data: ExhibitionHistoryDocument): ExhibitionHistoryEntry {
+  const { startDate, endDate, ...contentChanges } = data.changes
+  const formattedStartDate = formatChange(startDate)
+  const formattedEndDate = formatChange(endDate)
+  return {
+    id,
+    changes: {
+      ...(formattedStartDate && { startDate: formattedStartDate }),
+      ...(formattedEndDate && { endDate: formattedEndDate }),
+      ...contentChanges,
+    },
+    origin: data.origin,
+    ...(data.runId && { runId: data.runId }),
+    ...(data.reviewedBy && { reviewedBy: data.reviewedBy }),
+    changedAt: data.changedAt.toDate().toISOString(),
+  }
+}
+
+/**
+ * Append an entry to an exhibition's change history within a transaction
+ */
+export function appendHistory(
+  transaction: Transaction,
+  exhibitionRef: FirebaseFirestore.DocumentReference,
+  entry: ExhibitionHistoryDocument,
+): void {
+  transaction.set(exhibitionRef.collection('history').doc(), entry)
+}
+
+/**
+ * Fetch an exhibition's change history, most recent first
+ */
+export async function fetchExhibitionHistory(
+  id: string,
+  limit: number,
+): Promise<ExhibitionHistoryEntry[]> {
+  const exhibitionRef = db.collection('exhibition').doc(id)
+  const [exhibitionDoc, snapshot] = await Promise.all([
+    exhibitionRef.get(),
+    exhibitionRef.collection('history').orderBy('changedAt', 'desc').limit(limit).get(),
+  ])
+
+  if (!exhibitionDoc.exists) {
+    throw new NotFoundError(`Exhibition not found: ${id}`)
+  }
+
+  return snapshot.docs.map((doc) => toHistoryEntry(doc.id, doc.data() as ExhibitionHistoryDocument))
+}
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { Timestamp } from '@google-cloud/firestore'
+import {
+  getExhibitionPhase,
+  transitionExhibitionLifecycle,
+} from './exhibition-lifecycle.service.js'
+
+// Mock Firestore
+vi.mock('../lib/firestore.js', () => ({
+  default: {
+    collection: vi.fn(),
+    runTransaction: vi.fn(),
+  },
+}))
+
+const now = new Date('2025-06-15T03:00:00.000Z')
+
+function tokyoDate(date: string): Timestamp {
+  return Timestamp.fromDate(new Date(`${date}T00:00:00+09:00`))
+}
+
+function createQuery(name: string) {
+  const query: Record<string, ReturnType<typeof vi.fn> | string> = { name }
+  for (const method of ['where', 'orderBy', 'startAfter', 'limit']) {
+    query[method] = vi.fn(() => query)
+  }
+  return query
+}
+
+describe('exhibition-lifecycle.service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('getExhibitionPhase', () => {
+    it.each([
+      ['2025-06-01', '2025-06-14', 'ended'],
+      ['2025-06-01', '2025-06-15', 'ongoing'],
+      ['2025-06-15', '2025-07-01', 'ongoing'],
+      ['2025-06-16', '2025-07-01', 'upcoming'],
+    ])('should derive the phase of %s - %s', (start, end, phase) => {
+      expect(getExhibitionPhase(tokyoDate(start), tokyoDate(end), now)).toBe(phase)
+    })
+
+    it('should handle open-ended exhibitions', () => {
+      expect(getExhibitionPhase(tokyoDate('2025-06-01'), undefined, now)).toBe('ongoing')
+      expect(getExhibitionPhase(undefined, tokyoDate('2025-06-01'), now)).toBe('ended')
+      expect(getExhibitionPhase(undefined, undefined, now)).toBeUndefined()
+    })
+  })
+
+  describe('transitionExhibitionLifecycle', () => {
+    async function setupFirestore(pages: Record<string, number[]>) {
+      const db = await import('../lib/firestore.js')
+      const queries = [createQuery('ended'), createQuery('reopened')]
+      vi.mocked(db.default.collection).mockReturnValue({
+        where: vi.fn(() => queries.shift()),
+      } as never)
+
+      const transaction = {
+        get: vi.fn(async (query: { name: string }) => {
+          const size = pages[query.name].shift() ?? 0
+          return {
+            docs: Array.from({ length: size }, (_, i) => ({ ref: { id: `${query.name}${i}` } })),
+          }
+        }),
+        update: vi.fn(),
+      }
+      vi.mocked(db.default.runTransaction).mockImplementation(async (callback) => {
+        return await callback(transaction as never)
+      })
+      return transaction
+    }
+
+    it('should transition exhibitions page by page', async () => {
+      const transaction = await setupFirestore({ ended: [2, 2, 1], reopened: [1] })
+
+      const results = await transitionExhibitionLifecycle(false, now, 2)
+
+      expect(results).toEqual({ ended: 5, reopened: 1 })
+      expect(transaction.get).toHaveBeenCalledTimes(4)
+      expect(transaction.update).toHaveBeenCalledTimes(6)
+      expect(transaction.update).toHaveBeenCalledWith(
+        { id: 'ended0' },
+        { status: 'ended', updatedAt: expect.any(Timestamp) },
+      )
+      expect(transaction.update).toHaveBeenCalledWith(
+        { id: 'reopened0' },
+        { status: 'active', updatedAt: expect.any(Timestamp) },
+      )
+    })
+
+    it('should only count exhibitions in dry-run mode', async () => {
+      const transaction = await setupFirestore({ ended: [1], reopened: [0] })
+
+      const results = await transitionExhibitionLifecycle(true, now, 2)
+
+      expect(results).toEqual({ ended: 1, reopened: 0 })
+      expect(transaction.update).not.toHaveBeenCalled()
+    })
+  })
+})
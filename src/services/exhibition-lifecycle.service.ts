@@ -0,0 +1,103 @@
+import db from '../lib/firestore.js'
+import { Timestamp } from '@google-cloud/firestore'
+import { LIFECYCLE_CONFIG } from '../config/lifecycle.config.js'
+import { startOfTokyoDay } from '../utils/date.js'
+import type { LifecycleResults, Phase, Status } from '../types/exhibition.js'
+
+/**
+ * Derive the phase of an exhibition from its dates in Asia/Tokyo
+ * The end date is inclusive, so an exhibition ending today is still ongoing.
+ *
+ * @returns The phase, or undefined if the exhibition has no dates
+ */
+export function getExhibitionPhase(
+  startDate: Timestamp | undefined,
+  endDate: Timestamp | undefined,
+  now: Date = new Date(),
+): Phase | undefined {
+  if (!startDate && !endDate) {
+    return undefined
+  }
+
+  const today = startOfTokyoDay(now)
+  if (endDate && endDate.toMillis() < today.toMillis()) {
+    return 'ended'
+  }
+  if (startDate && startDate.toMillis() > today.toMillis()) {
+    return 'upcoming'
+  }
+  return 'ongoing'
+}
+
+/**
+ * Set the status of every exhibition matching a query, one page per transaction
+ *
+ * @returns The number of exhibitions transitioned
+ */
+async function transitionAll(
+  query: FirebaseFirestore.Query,
+  status: Status,
+  dryRun: boolean,
+  pageSize: number,
+): Promise<number> {
+  let count = 0
+  let cursor: FirebaseFirestore.QueryDocumentSnapshot | undefined
+
+  for (;;) {
+    const page = cursor ? query.startAfter(cursor).limit(pageSize) : query.limit(pageSize)
+    const docs = await db.runTransaction(
+      async (transaction) => {
+        const snapshot = await transaction.get(page)
+        if (!dryRun) {
+          const now = Timestamp.now()
+          for (const doc of snapshot.docs) {
+            transaction.update(doc.ref, { status, updatedAt: now })
+          }
+        }
+        return snapshot.docs
+      },
+      dryRun ? { readOnly: true } : undefined,
+    )
+
+    count += docs.length
+    if (docs.length < pageSize) {
+      return count
+    }
+    cursor = docs[docs.length - 1]
+  }
+}
+
+/**
+ * Move active exhibitions whose end date has passed (in Asia/Tokyo) to `ended`, and ended
+ * exhibitions whose end date was moved into the future back to `active`
+ * Pending exhibitions are left for review. The transition is idempotent, so it is safe to
+ * call repeatedly, e.g. from a scheduler.
+ * Requires composite indexes on (status, endDate).
+ *
+ * @param dryRun - Only count the exhibitions that would be transitioned
+ * @param now - The reference date
+ */
+export async function transitionExhibitionLifecycle(
+  dryRun = false,
+  now: Date = new Date(),
+  pageSize: number = LIFECYCLE_CONFIG.pageSize,
+): Promise<LifecycleResults> {
+  const today = startOfTokyoDay(now)
+  const exhibitions = db.collection('exhibition')
+
+  const ended = await transitionAll(
+    exhibitions.where('status', '==', 'active').where('endDate', '<', today).orderBy('endDate'),
+    'ended',
+    dryRun,
+    pageSize,
+  )
+  const reopened = await transitionAll(
+    exhibitions.where('status', '==', 'ended').where('endDate', '>=', today).orderBy('endDate'),
+    'active',
+    dryRun,
+    pageSize,
+  )
+
+  console.log(`Lifecycle transition: ${ended} ended, ${reopened} reopened`)
+  return { ended, reopened }
+}
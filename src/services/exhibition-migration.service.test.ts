@@ -0,0 +1,200 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+  migrateExhibitionDocumentIds,
+  migrateMuseumExhibitionIds,
+} from './exhibition-migration.service.js'
+import { getExhibitionDocumentId } from '../utils/hash.js'
+import { createMockTransaction, mockRunTransaction } from '../test/firestore.js'
+import type { MockTransaction } from '../test/firestore.js'
+import type { Museum } from '../schemas/museum.schema.js'
+
+// Mock Firestore
+vi.mock('../lib/firestore.js', () => ({
+  default: {
+    collection: vi.fn(),
+    runTransaction: vi.fn(),
+  },
+}))
+
+vi.mock('../utils/hash.js', () => ({
+  getExhibitionDocumentId: vi.fn(
+    (museumId: string, title: string) => `${museumId}_${title.replace('特別展', '')}`,
+  ),
+}))
+
+const museums = [
+  {
+    id: 'museum1',
+    name: '東京国立博物館',
+    address: '東京都台東区上野公園13-9',
+    access: '',
+    openingInformation: '',
+    officialUrl: 'https://www.tnm.jp/',
+    scrapeUrl: 'https://www.tnm.jp/modules/r_exhibition/',
+    aliases: [],
+    scrapeEnabled: true,
+    venueType: '博物館',
+    area: '上野',
+  },
+] satisfies Museum[]
+
+function exhibitionDoc(id: string, title: string, data: Record<string, unknown> = {}) {
+  return {
+    id,
+    ref: { id, collection: (name: string) => ({ name, parent: id }) },
+    data: () => ({ title, venue: '東京国立博物館', museumId: 'museum1', ...data }),
+  }
+}
+
+async function setupFirestore(
+  docs: ReturnType<typeof exhibitionDoc>[],
+  transaction: MockTransaction,
+) {
+  const db = await import('../lib/firestore.js')
+  vi.mocked(db.default.collection).mockReturnValue({
+    get: vi.fn().mockResolvedValue({ size: docs.length, docs }),
+    doc: vi.fn().mockImplementation((id: string) => ({
+      id,
+      collection: () => ({ doc: (entryId: string) => ({ id: `${id}/history/${entryId}` }) }),
+    })),
+    where: vi.fn().mockImplementation((field: string) => ({
+      field,
+      get: vi.fn().mockResolvedValue({ size: docs.length, docs }),
+    })),
+  } as never)
+  mockRunTransaction(transaction)
+  return db
+}
+
+describe('exhibition-migration.service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('migrateExhibitionDocumentIds', () => {
+    it('should move documents to their canonical IDs', async () => {
+      const docs = [exhibitionDoc('museum1_モネ', 'モネ'), exhibitionDoc('old-id', '特別展ゴッホ')]
+      const transaction = createMockTransaction()
+      transaction.getAll.mockImplementation((...refs: Array<{ id: string }>) =>
+        Promise.resolve(
+          refs.map((ref) => ({ exists: ref.id === 'old-id', data: () => docs[1].data() })),
+        ),
+      )
+      transaction.get.mockResolvedValue({ docs: [] })
+      await setupFirestore(docs, transaction)
+
+      const results = await migrateExhibitionDocumentIds(museums)
+
+      expect(results).toEqual({ scanned: 2, migrated: 1, unchanged: 1, errors: 0, conflicts: [] })
+      expect(transaction.set).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'museum1_ゴッホ' }),
+        expect.objectContaining({ title: '特別展ゴッホ' }),
+      )
+      expect(transaction.delete).toHaveBeenCalledWith(expect.objectContaining({ id: 'old-id' }))
+    })
+
+    it('should move the history, merge candidates and image along with the document', async () => {
+      const image = {
+        path: 'gs://bucket/exhibitions/old-id/0123456789abcdef.png',
+        sourceUrl: 'https://museum.example/gogh.png',
+        contentType: 'image/png',
+        width: 800,
+        height: 600,
+      }
+      const docs = [exhibitionDoc('old-id', '特別展ゴッホ', { image })]
+      const historyEntry = { id: 'entry1', ref: { id: 'old-id/history/entry1' }, data: () => ({}) }
+      const candidate = { ref: { id: 'candidate1' } }
+      const transaction = createMockTransaction()
+      transaction.getAll.mockImplementation((...refs: Array<{ id: string }>) =>
+        Promise.resolve(
+          refs.map((ref) => ({ exists: ref.id === 'old-id', data: () => docs[0].data() })),
+        ),
+      )
+      transaction.get.mockImplementation((query: { name?: string; field?: string }) =>
+        Promise.resolve({
+          docs:
+            query.name === 'history'
+              ? [historyEntry]
+              : query.field === 'duplicateId'
+                ? [candidate]
+                : [],
+        }),
+      )
+      await setupFirestore(docs, transaction)
+      const storage = {
+        save: vi.fn(),
+        copy: vi.fn(async (_from: string, to: string) => `gs://bucket/${to}`),
+      }
+
+      const results = await migrateExhibitionDocumentIds(museums, false, storage)
+
+      expect(results.migrated).toBe(1)
+      expect(storage.copy).toHaveBeenCalledWith(
+        'exhibitions/old-id/0123456789abcdef.png',
+        'exhibitions/museum1_ゴッホ/0123456789abcdef.png',
+      )
+      expect(transaction.set).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'museum1_ゴッホ' }),
+        expect.objectContaining({
+          image: { ...image, path: 'gs://bucket/exhibitions/museum1_ゴッホ/0123456789abcdef.png' },
+        }),
+      )
+      expect(transaction.set).toHaveBeenCalledWith({ id: 'museum1_ゴッホ/history/entry1' }, {})
+      expect(transaction.delete).toHaveBeenCalledWith(historyEntry.ref)
+      expect(transaction.update).toHaveBeenCalledWith(candidate.ref, {
+        duplicateId: 'museum1_ゴッホ',
+      })
+    })
+
+    it('should report conflicts without moving documents', async () => {
+      const docs = [exhibitionDoc('museum1_モネ', 'モネ'), exhibitionDoc('old-id', '特別展モネ')]
+      const transaction = createMockTransaction()
+      const db = await setupFirestore(docs, transaction)
+
+      const results = await migrateExhibitionDocumentIds(museums)
+
+      expect(results.conflicts).toEqual([
+        { from: 'old-id', to: 'museum1_モネ', title: '特別展モネ' },
+      ])
+      expect(results.migrated).toBe(0)
+      expect(db.default.runTransaction).not.toHaveBeenCalled()
+    })
+
+    it('should not write in dry-run mode', async () => {
+      const docs = [exhibitionDoc('old-id', '特別展ゴッホ')]
+      const transaction = createMockTransaction()
+      const db = await setupFirestore(docs, transaction)
+
+      const results = await migrateExhibitionDocumentIds(museums, true)
+
+      expect(results.migrated).toBe(1)
+      expect(db.default.runTransaction).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('migrateMuseumExhibitionIds', () => {
+    it('should move the exhibitions of a renamed museum to the IDs of its new name', async () => {
+      const docs = [exhibitionDoc('old-id', '特別展ゴッホ')]
+      const transaction = createMockTransaction()
+      transaction.getAll.mockImplementation((...refs: Array<{ id: string }>) =>
+        Promise.resolve(
+          refs.map((ref) => ({ exists: ref.id === 'old-id', data: () => docs[0].data() })),
+        ),
+      )
+      transaction.get.mockResolvedValue({ docs: [] })
+      const db = await setupFirestore(docs, transaction)
+      const renamed = { ...museums[0], name: 'トーハク' }
+
+      const results = await migrateMuseumExhibitionIds(renamed)
+
+      expect(results).toEqual({ scanned: 1, migrated: 1, unchanged: 0, errors: 0, conflicts: [] })
+      expect(db.default.collection('exhibition').where).toHaveBeenCalledWith(
+        'museumId',
+        '==',
+        'museum1',
+      )
+      expect(getExhibitionDocumentId).toHaveBeenCalledWith('museum1', '特別展ゴッホ', 'トーハク')
+      expect(transaction.delete).toHaveBeenCalledWith(expect.objectContaining({ id: 'old-id' }))
+    })
+  })
+})
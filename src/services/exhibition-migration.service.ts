@@ -0,0 +1,135 @@
+import db from '../lib/firestore.js'
+import { getExhibitionDocumentId } from '../utils/hash.js'
+import { copyExhibitionImage } from './image.service.js'
+import type { Museum } from '../schemas/museum.schema.js'
+import type { QuerySnapshot } from '@google-cloud/firestore'
+import type { ExhibitionDocument, IdMigrationResults } from '../types/exhibition.js'
+import type { ExhibitionImage, ImageStorage } from '../types/image.js'
+
+/**
+ * Move exhibition documents to the IDs generated from their canonicalized titles
+ * Documents whose new ID is already taken are reported as conflicts and left in place,
+ * so that duplicates can be reviewed instead of being overwritten.
+ * The change history moves with the document, merge candidates are pointed at the new ID, and
+ * a stored image is copied to the path of the new ID.
+ *
+ * @param museums - All museums, used to strip museum names from titles
+ * @param dryRun - Only report the documents that would be moved
+ * @param storage - Storage holding exhibition images; without it, images keep their old path
+ */
+export async function migrateExhibitionDocumentIds(
+  museums: Museum[],
+  dryRun = false,
+  storage: ImageStorage | null = null,
+): Promise<IdMigrationResults> {
+  const museumNames = new Map(museums.map((museum) => [museum.id, museum.name]))
+  const snapshot = await db.collection('exhibition').get()
+  return moveExhibitionDocuments(snapshot, museumNames, dryRun, storage)
+}
+
+/**
+ * Move the exhibition documents of a renamed museum to the IDs generated from its new name
+ * Titles are hashed without the museum's name, so a rename changes the ID of every title containing it.
+ */
+export async function migrateMuseumExhibitionIds(
+  museum: Museum,
+  storage: ImageStorage | null = null,
+): Promise<IdMigrationResults> {
+  const snapshot = await db.collection('exhibition').where('museumId', '==', museum.id).get()
+  return moveExhibitionDocuments(snapshot, new Map([[museum.id, museum.name]]), false, storage)
+}
+
+async function moveExhibitionDocuments(
+  snapshot: QuerySnapshot,
+  museumNames: Map<string, string>,
+  dryRun: boolean,
+  storage: ImageStorage | null,
+): Promise<IdMigrationResults> {
+  const results: IdMigrationResults = {
+    scanned: snapshot.size,
+    migrated: 0,
+    unchanged: 0,
+    errors: 0,
+    conflicts: [],
+  }
+
+  // Track IDs in use so that conflicts can also be detected in dry-run mode
+  const claimed = new Set(snapshot.docs.map((doc) => doc.id))
+
+  for (const doc of snapshot.docs) {
+    const data = doc.data() as ExhibitionDocument
+    const newId = getExhibitionDocumentId(
+      data.museumId,
+      data.title,
+      museumNames.get(data.museumId) ?? data.venue,
+    )
+
+    if (newId === doc.id) {
+      results.unchanged++
+      continue
+    }
+
+    if (claimed.has(newId)) {
+      results.conflicts.push({ from: doc.id, to: newId, title: data.title })
+      continue
+    }
+
+    if (dryRun) {
+      claimed.add(newId)
+      results.migrated++
+      continue
+    }
+
+    try {
+      // Copied before the move, as storage cannot take part in the transaction
+      let image: ExhibitionImage | undefined
+      if (data.image && storage) {
+        image = await copyExhibitionImage(data.image, doc.id, newId, storage)
+      }
+
+      const newRef = db.collection('exhibition').doc(newId)
+      const candidates = db.collection('mergeCandidate')
+      const moved = await db.runTransaction(async (transaction) => {
+        const [existing, current] = await transaction.getAll(newRef, doc.ref)
+        if (existing.exists || !current.exists) {
+          return false
+        }
+        const [history, asExisting, asDuplicate] = await Promise.all([
+          transaction.get(doc.ref.collection('history')),
+          transaction.get(candidates.where('existingId', '==', doc.id)),
+          transaction.get(candidates.where('duplicateId', '==', doc.id)),
+        ])
+
+        transaction.set(newRef, {
+          ...(current.data() as ExhibitionDocument),
+          ...(image && { image }),
+        })
+        for (const entry of history.docs) {
+          transaction.set(newRef.collection('history').doc(entry.id), entry.data())
+          transaction.delete(entry.ref)
+        }
+        for (const candidate of asExisting.docs) {
+          transaction.update(candidate.ref, { existingId: newId })
+        }
+        for (const candidate of asDuplicate.docs) {
+          transaction.update(candidate.ref, { duplicateId: newId })
+        }
+        transaction.delete(doc.ref)
+        return true
+      })
+
+      if (moved) {
+        console.log(`Moved exhibition ${doc.id} to ${newId}`)
+        claimed.add(newId)
+        results.migrated++
+      } else {
+        results.conflicts.push({ from: doc.id, to: newId, title: data.title })
+      }
+    } catch (error) {
+      console.error(`Failed to move exhibition ${doc.id} to ${newId}:`, error)
+      results.errors++
+    }
+  }
+
+  return results
+}
@@ -0,0 +1,303 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { Timestamp } from '@google-cloud/firestore'
+import {
+  fetchExhibitions,
+  approveExhibition,
+  excludeExhibition,
+  editExhibition,
+  acknowledgeDateChange,
+  acceptPendingChanges,
+  dismissPendingChanges,
+} from './exhibition-review.service.js'
+import { NotFoundError, ValidationError } from '../errors/app-error.js'
+import { createMockTransaction, mockRunTransaction } from '../test/firestore.js'
+import { formatDate } from '../utils/date.js'
+import type { ExhibitionDocument } from '../types/exhibition.js'
+
+// Mock Firestore
+vi.mock('../lib/firestore.js', () => ({
+  default: {
+    collection: vi.fn(),
+    runTransaction: vi.fn(),
+  },
+}))
+
+vi.mock('./exhibition-history.service.js', () => ({
+  appendHistory: vi.fn(),
+}))
+
+const pendingExhibition = {
+  title: '特別展：日本の美',
+  venue: '東京国立博物館',
+  museumId: 'museum1',
+  startDate: Timestamp.fromDate(new Date('2024-12-31T15:00:00.000Z')),
+  endDate: Timestamp.fromDate(new Date('2025-03-30T15:00:00.000Z')),
+  status: 'pending',
+  origin: 'scrape',
+  isExcluded: false,
+  hasDateChanged: false,
+  createdAt: Timestamp.fromDate(new Date('2024-12-01T00:00:00.000Z')),
+  updatedAt: Timestamp.fromDate(new Date('2024-12-01T00:00:00.000Z')),
+} satisfies ExhibitionDocument
+
+async function setupFirestore(existing: ExhibitionDocument | undefined) {
+  const mockTransaction = createMockTransaction({
+    get: vi
+      .fn()
+      .mockResolvedValue(existing ? { exists: true, data: () => existing } : { exists: false }),
+  })
+
+  const db = await import('../lib/firestore.js')
+  vi.mocked(db.default.collection).mockReturnValue({
+    doc: vi.fn().mockImplementation((id: string) => ({
+      id,
+      get: vi.fn().mockResolvedValue({ id, exists: true, data: () => existing }),
+    })),
+  } as never)
+  mockRunTransaction(mockTransaction)
+
+  return mockTransaction
+}
+
+describe('exhibition-review.service', () => {
+  describe('fetchExhibitions', () => {
+    beforeEach(() => {
+      vi.clearAllMocks()
+    })
+
+    it('should apply the given filters and serialize dates', async () => {
+      const mockQuery = {
+        where: vi.fn().mockReturnThis(),
+        limit: vi.fn().mockReturnThis(),
+        get: vi.fn().mockResolvedValue({
+          docs: [{ id: 'exhibition1', data: () => pendingExhibition }],
+        }),
+      }
+
+      const db = await import('../lib/firestore.js')
+      vi.mocked(db.default.collection).mockReturnValue(mockQuery as never)
+
+      const result = await fetchExhibitions({
+        status: 'pending',
+        museumId: 'museum1',
+        hasDateChanged: false,
+        limit: 10,
+      })
+
+      expect(mockQuery.where).toHaveBeenCalledWith('status', '==', 'pending')
+      expect(mockQuery.where).toHaveBeenCalledWith('museumId', '==', 'museum1')
+      expect(mockQuery.where).toHaveBeenCalledWith('hasDateChanged', '==', false)
+      expect(mockQuery.where).toHaveBeenCalledTimes(3)
+      expect(mockQuery.limit).toHaveBeenCalledWith(10)
+      expect(result[0]).toMatchObject({
+        id: 'exhibition1',
+        startDate: '2025-01-01',
+        endDate: '2025-03-31',
+        createdAt: '2024-12-01T00:00:00.000Z',
+      })
+    })
+  })
+
+  describe('approveExhibition', () => {
+    beforeEach(() => {
+      vi.clearAllMocks()
+    })
+
+    it('should activate a pending exhibition and record the reviewer', async () => {
+      const mockTransaction = await setupFirestore(pendingExhibition)
+
+      await approveExhibition('exhibition1', 'reviewer@example.com')
+
+      expect(mockTransaction.update).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'exhibition1' }),
+        expect.objectContaining({
+          status: 'active',
+          reviewAction: 'approve',
+          reviewedBy: 'reviewer@example.com',
+          reviewedAt: expect.any(Timestamp),
+        }),
+      )
+    })
+
+    it('should reject exhibitions that are not pending', async () => {
+      const mockTransaction = await setupFirestore({ ...pendingExhibition, status: 'active' })
+
+      await expect(approveExhibition('exhibition1', 'reviewer')).rejects.toThrow(ValidationError)
+      expect(mockTransaction.update).not.toHaveBeenCalled()
+    })
+
+    it('should throw NotFoundError for unknown exhibitions', async () => {
+      await setupFirestore(undefined)
+
+      await expect(approveExhibition('missing', 'reviewer')).rejects.toThrow(NotFoundError)
+    })
+  })
+
+  describe('excludeExhibition', () => {
+    beforeEach(() => {
+      vi.clearAllMocks()
+    })
+
+    it('should exclude the exhibition with a reason', async () => {
+      const mockTransaction = await setupFirestore(pendingExhibition)
+
+      await excludeExhibition('exhibition1', 'reviewer', '常設展のため')
+
+      expect(mockTransaction.update).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          isExcluded: true,
+          excludedReason: '常設展のため',
+          reviewAction: 'exclude',
+        }),
+      )
+    })
+  })
+
+  describe('acknowledgeDateChange', () => {
+    beforeEach(() => {
+      vi.clearAllMocks()
+    })
+
+    it('should clear hasDateChanged', async () => {
+      const mockTransaction = await setupFirestore({ ...pendingExhibition, hasDateChanged: true })
+
+      await acknowledgeDateChange('exhibition1', 'reviewer')
+
+      expect(mockTransaction.update).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ hasDateChanged: false, reviewAction: 'acknowledge-date-change' }),
+      )
+    })
+
+    it('should reject exhibitions without a date change', async () => {
+      await setupFirestore(pendingExhibition)
+
+      await expect(acknowledgeDateChange('exhibition1', 'reviewer')).rejects.toThrow(
+        ValidationError,
+      )
+    })
+  })
+
+  describe('editExhibition', () => {
+    beforeEach(() => {
+      vi.clearAllMocks()
+    })
+
+    it('should apply the edit and record it as a manual change', async () => {
+      const mockTransaction = await setupFirestore(pendingExhibition)
+
+      await editExhibition('exhibition1', 'reviewer', { title: '日本の美', endDate: '2025-04-06' })
+
+      expect(mockTransaction.update).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ title: '日本の美', reviewAction: 'edit' }),
+      )
+      const historyService = await import('./exhibition-history.service.js')
+      expect(historyService.appendHistory).toHaveBeenCalledWith(
+        mockTransaction,
+        expect.anything(),
+        {
+          changes: {
+            endDate: { old: pendingExhibition.endDate, new: expect.any(Timestamp) },
+            title: { old: '特別展：日本の美', new: '日本の美' },
+          },
+          origin: 'manual',
+          reviewedBy: 'reviewer',
+          changedAt: expect.any(Timestamp),
+        },
+      )
+    })
+
+    it('should take the year of an edited date from the stored dates', async () => {
+      const mockTransaction = await setupFirestore(pendingExhibition)
+
+      await editExhibition('exhibition1', 'reviewer', { endDate: '4/6' })
+
+      const update = mockTransaction.update.mock.calls[0][1] as { endDate: Timestamp }
+      expect(formatDate(update.endDate)).toBe('2025-04-06')
+    })
+
+    it('should reject an end date before the stored start date', async () => {
+      const mockTransaction = await setupFirestore(pendingExhibition)
+
+      await expect(
+        editExhibition('exhibition1', 'reviewer', { endDate: '2024-12-01' }),
+      ).rejects.toThrow(ValidationError)
+      expect(mockTransaction.update).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('acceptPendingChanges', () => {
+    beforeEach(() => {
+      vi.clearAllMocks()
+    })
+
+    it('should apply the pending changes', async () => {
+      const mockTransaction = await setupFirestore({
+        ...pendingExhibition,
+        officialUrl: 'https://example.com/old',
+        pendingChanges: { officialUrl: 'https://example.com/new' },
+        hasPendingChanges: true,
+      })
+
+      await acceptPendingChanges('exhibition1', 'reviewer')
+
+      expect(mockTransaction.update).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          officialUrl: 'https://example.com/new',
+          hasPendingChanges: false,
+          reviewAction: 'accept-changes',
+        }),
+      )
+      const historyService = await import('./exhibition-history.service.js')
+      expect(historyService.appendHistory).toHaveBeenCalledWith(
+        mockTransaction,
+        expect.anything(),
+        {
+          changes: {
+            officialUrl: { old: 'https://example.com/old', new: 'https://example.com/new' },
+          },
+          origin: 'manual',
+          reviewedBy: 'reviewer',
+          changedAt: expect.any(Timestamp),
+        },
+      )
+    })
+
+    it('should reject exhibitions without pending changes', async () => {
+      await setupFirestore(pendingExhibition)
+
+      await expect(acceptPendingChanges('exhibition1', 'reviewer')).rejects.toThrow(ValidationError)
+    })
+  })
+
+  describe('dismissPendingChanges', () => {
+    beforeEach(() => {
+      vi.clearAllMocks()
+    })
+
+    it('should remember the dismissed values', async () => {
+      const mockTransaction = await setupFirestore({
+        ...pendingExhibition,
+        pendingChanges: { title: '特別展 日本の美' },
+        dismissedChanges: { imageUrl: 'https://example.com/image.jpg' },
+        hasPendingChanges: true,
+      })
+
+      await dismissPendingChanges('exhibition1', 'reviewer')
+
+      const [, update] = mockTransaction.update.mock.calls[0]
+      expect(update).toMatchObject({
+        dismissedChanges: {
+          title: '特別展 日本の美',
+          imageUrl: 'https://example.com/image.jpg',
+        },
+        hasPendingChanges: false,
+        reviewAction: 'dismiss-changes',
+      })
+      expect(update).not.toHaveProperty('title')
+    })
+  })
+})
@@ -0,0 +1,292 @@
+import db from '../lib/firestore.js'
+import { FieldValue, Timestamp } from '@google-cloud/firestore'
+import { NotFoundError, ValidationError } from '../errors/app-error.js'
+import { areDatesEqual, formatDate, parseExhibitionDates } from '../utils/date.js'
+import { getExhibitionPhase } from './exhibition-lifecycle.service.js'
+import { appendHistory } from './exhibition-history.service.js'
+import type { ExhibitionEdit, ExhibitionListQuery } from '../schemas/exhibition-review.schema.js'
+import type {
+  ContentField,
+  Exhibition,
+  ExhibitionDocument,
+  ReviewAction,
+} from '../types/exhibition.js'
+import type { ExhibitionHistoryDocument } from '../types/exhibition-history.js'
+
+export function toExhibition(id: string, data: ExhibitionDocument): Exhibition {
+  const {
+    startDate,
+    endDate,
+    createdAt,
+    updatedAt,
+    reviewedAt,
+    lastSeenAt,
+    missingSince,
+    ...rest
+  } = data
+  return {
+    ...rest,
+    id,
+    ...(startDate && { startDate: formatDate(startDate) }),
+    ...(endDate && { endDate: formatDate(endDate) }),
+    createdAt: createdAt.toDate().toISOString(),
+    updatedAt: updatedAt.toDate().toISOString(),
+    ...(reviewedAt && { reviewedAt: reviewedAt.toDate().toISOString() }),
+    ...(lastSeenAt && { lastSeenAt: lastSeenAt.toDate().toISOString() }),
+    ...(missingSince && { missingSince: missingSince.toDate().toISOString() }),
+    ...((startDate || endDate) && { phase: getExhibitionPhase(startDate, endDate) }),
+  }
+}
+
+function reviewFields(action: ReviewAction, reviewedBy: string) {
+  const now = Timestamp.now()
+  return {
+    reviewAction: action,
+    reviewedBy,
+    reviewedAt: now,
+    updatedAt: now,
+  }
+}
+
+/**
+ * Apply a review action to an exhibition inside a transaction
+ * The check receives the current document and throws if the action is not allowed.
+ * The update can be derived from the current document by passing a function.
+ * Actions that change the exhibition's content pass `history`, recorded as a `manual` entry.
+ */
+async function reviewExhibition(
+  id: string,
+  check: (data: ExhibitionDocument) => void,
+  update:
+    | FirebaseFirestore.UpdateData<ExhibitionDocument>
+    | ((data: ExhibitionDocument) => FirebaseFirestore.UpdateData<ExhibitionDocument>),
+  history?: {
+    reviewedBy: string
+    changes: (data: ExhibitionDocument) => ExhibitionHistoryDocument['changes']
+  },
+): Promise<Exhibition> {
+  const docRef = db.collection('exhibition').doc(id)
+
+  await db.runTransaction(async (transaction) => {
+    const doc = await transaction.get(docRef)
+    if (!doc.exists) {
+      throw new NotFoundError(`Exhibition not found: ${id}`)
+    }
+
+    const data = doc.data() as ExhibitionDocument
+    check(data)
+    transaction.update(docRef, typeof update === 'function' ? update(data) : update)
+
+    const changes = history?.changes(data)
+    if (history && changes && Object.keys(changes).length > 0) {
+      appendHistory(transaction, docRef, {
+        changes,
+        origin: 'manual',
+        reviewedBy: history.reviewedBy,
+        changedAt: Timestamp.now(),
+      })
+    }
+  })
+
+  return fetchExhibitionById(id)
+}
+
+export async function fetchExhibitions(query: ExhibitionListQuery): Promise<Exhibition[]> {
+  let ref: FirebaseFirestore.Query = db.collection('exhibition')
+  if (query.status !== undefined) {
+    ref = ref.where('status', '==', query.status)
+  }
+  if (query.museumId !== undefined) {
+    ref = ref.where('museumId', '==', query.museumId)
+  }
+  if (query.hasPendingChanges !== undefined) {
+    ref = ref.where('hasPendingChanges', '==', query.hasPendingChanges)
+  }
+  if (query.origin !== undefined) {
+    ref = ref.where('origin', '==', query.origin)
+  }
+  if (query.hasDateChanged !== undefined) {
+    ref = ref.where('hasDateChanged', '==', query.hasDateChanged)
+  }
+
+  const snapshot = await ref.limit(query.limit).get()
+  return snapshot.docs.map((doc) => toExhibition(doc.id, doc.data() as ExhibitionDocument))
+}
+
+export async function fetchExhibitionById(id: string): Promise<Exhibition> {
+  const doc = await db.collection('exhibition').doc(id).get()
+  if (!doc.exists) {
+    throw new NotFoundError(`Exhibition not found: ${id}`)
+  }
+  return toExhibition(doc.id, doc.data() as ExhibitionDocument)
+}
+
+export async function approveExhibition(id: string, reviewedBy: string): Promise<Exhibition> {
+  return reviewExhibition(
+    id,
+    (data) => {
+      if (data.status !== 'pending') {
+        throw new ValidationError(`Exhibition ${id} is not pending`)
+      }
+      if (data.isExcluded) {
+        throw new ValidationError(`Exhibition ${id} is excluded`)
+      }
+    },
+    {
+      status: 'active',
+      ...reviewFields('approve', reviewedBy),
+    },
+  )
+}
+
+export async function excludeExhibition(
+  id: string,
+  reviewedBy: string,
+  reason: string,
+): Promise<Exhibition> {
+  return reviewExhibition(id, () => {}, {
+    isExcluded: true,
+    excludedReason: reason,
+    ...reviewFields('exclude', reviewedBy),
+  })
+}
+
+/**
+ * Correct an exhibition by hand
+ * The dates are checked against the stored ones, since a patch may only change one of them.
+ * A year missing from an edited date is taken from the stored dates, not from today.
+ */
+export async function editExhibition(
+  id: string,
+  reviewedBy: string,
+  edit: ExhibitionEdit,
+): Promise<Exhibition> {
+  // Edited values, falling back to the stored ones for fields the patch leaves out
+  const merged = (data: ExhibitionDocument) => ({
+    title: edit.title ?? data.title,
+    ...parseExhibitionDates(
+      edit.startDate !== undefined ? edit.startDate : formatDate(data.startDate),
+      edit.endDate !== undefined ? edit.endDate : formatDate(data.endDate),
+      (data.startDate ?? data.endDate)?.toDate(),
+    ),
+    officialUrl:
+      edit.officialUrl !== undefined ? (edit.officialUrl ?? undefined) : data.officialUrl,
+  })
+
+  return reviewExhibition(
+    id,
+    (data) => {
+      const dates = merged(data)
+      if (
+        dates.startDate &&
+        dates.endDate &&
+        dates.endDate.toMillis() < dates.startDate.toMillis()
+      ) {
+        throw new ValidationError(
+          `endDate ${formatDate(dates.endDate)} is before startDate ${formatDate(dates.startDate)}`,
+        )
+      }
+    },
+    (data) => {
+      const { startDate, endDate } = merged(data)
+      return {
+        ...(edit.title !== undefined && { title: edit.title }),
+        ...(edit.startDate !== undefined && { startDate: startDate ?? FieldValue.delete() }),
+        ...(edit.endDate !== undefined && { endDate: endDate ?? FieldValue.delete() }),
+        ...(edit.officialUrl !== undefined && {
+          officialUrl: edit.officialUrl ?? FieldValue.delete(),
+        }),
+        ...reviewFields('edit', reviewedBy),
+      }
+    },
+    {
+      reviewedBy,
+      changes: (data) => {
+        const next = merged(data)
+        return {
+          ...(!areDatesEqual(data.startDate, next.startDate) && {
+            startDate: {
+              ...(data.startDate && { old: data.startDate }),
+              ...(next.startDate && { new: next.startDate }),
+            },
+          }),
+          ...(!areDatesEqual(data.endDate, next.endDate) && {
+            endDate: {
+              ...(data.endDate && { old: data.endDate }),
+              ...(next.endDate && { new: next.endDate }),
+            },
+          }),
+          ...(next.title !== data.title && { title: { old: data.title, new: next.title } }),
+          ...(next.officialUrl !== data.officialUrl && {
+            officialUrl: {
+              ...(data.officialUrl && { old: data.officialUrl }),
+              ...(next.officialUrl && { new: next.officialUrl }),
+            },
+          }),
+        }
+      },
+    },
+  )
+}
+
+export async function acknowledgeDateChange(id: string, reviewedBy: string): Promise<Exhibition> {
+  return reviewExhibition(
+    id,
+    (data) => {
+      if (!data.hasDateChanged) {
+        throw new ValidationError(`Exhibition ${id} has no unacknowledged date change`)
+      }
+    },
+    {
+      hasDateChanged: false,
+      ...reviewFields('acknowledge-date-change', reviewedBy),
+    },
+  )
+}
+
+function checkPendingChanges(id: string) {
+  return (data: ExhibitionDocument) => {
+    if (!data.hasPendingChanges) {
+      throw new ValidationError(`Exhibition ${id} has no pending changes`)
+    }
+  }
+}
+
+/**
+ * Apply the scraped changes held for review to the exhibition
+ */
+export async function acceptPendingChanges(id: string, reviewedBy: string): Promise<Exhibition> {
+  return reviewExhibition(
+    id,
+    checkPendingChanges(id),
+    (data) => ({
+      ...data.pendingChanges,
+      pendingChanges: FieldValue.delete(),
+      hasPendingChanges: false,
+      ...reviewFields('accept-changes', reviewedBy),
+    }),
+    {
+      reviewedBy,
+      changes: (data) =>
+        Object.fromEntries(
+          Object.entries(data.pendingChanges ?? {}).map(([field, value]) => {
+            const old = data[field as ContentField]
+            return [field, { ...(old && { old }), new: value }]
+          }),
+        ),
+    },
+  )
+}
+
+/**
+ * Discard the scraped changes held for review
+ * The dismissed values are remembered so that later scrapes do not flag them again.
+ */
+export async function dismissPendingChanges(id: string, reviewedBy: string): Promise<Exhibition> {
+  return reviewExhibition(id, checkPendingChanges(id), (data) => ({
+    dismissedChanges: { ...data.dismissedChanges, ...data.pendingChanges },
+    pendingChanges: FieldValue.delete(),
+    hasPendingChanges: false,
+    ...reviewFields('dismiss-changes', reviewedBy),
+  }))
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest'
+import { validateExhibition, screenExhibitions } from './exhibition-validation.service.js'
+import { EXHIBITION_VALIDATION_CONFIG } from '../config/validation.config.js'
+import type { ScrapedExhibition } from '../schemas/exhibition.schema.js'
+
+const now = new Date('2025-06-15T00:00:00.000Z')
+
+function codes(exhibition: ScrapedExhibition) {
+  return validateExhibition(exhibition, EXHIBITION_VALIDATION_CONFIG, now).map((v) => v.code)
+}
+
+describe('exhibition-validation.service', () => {
+  describe('validateExhibition', () => {
+    it('should accept a plausible exhibition', () => {
+      expect(
+        codes({
+          title: '特別展「日本の美」',
+          venue: '東京国立博物館',
+          startDate: '2025-06-01',
+          endDate: '2025-08-31',
+        }),
+      ).toEqual([])
+    })
+
+    it('should accept exhibitions without dates', () => {
+      expect(codes({ title: '特別展', venue: '東京国立博物館' })).toEqual([])
+    })
+
+    it('should reject empty and short titles', () => {
+      expect(codes({ title: ' ', venue: '東京国立博物館' })).toEqual(['TITLE_TOO_SHORT'])
+      expect(codes({ title: '展', venue: '東京国立博物館' })).toEqual(['TITLE_TOO_SHORT'])
+    })
+
+    it('should reject blocked titles', () => {
+      expect(codes({ title: '常設展示', venue: '東京国立博物館' })).toEqual(['BLOCKED_TITLE'])
+      expect(codes({ title: '臨時休館のお知らせ', venue: '東京国立博物館' })).toEqual([
+        'BLOCKED_TITLE',
+      ])
+    })
+
+    it('should reject unparseable dates', () => {
+      expect(codes({ title: '特別展', venue: '東京国立博物館', startDate: '近日公開' })).toEqual([
+        'UNPARSEABLE_DATE',
+      ])
+    })
+
+    it('should reject an end date before the start date', () => {
+      expect(
+        codes({
+          title: '特別展',
+          venue: '東京国立博物館',
+          startDate: '2025-08-31',
+          endDate: '2025-06-01',
+        }),
+      ).toEqual(['DATE_ORDER'])
+    })
+
+    it('should reject dates outside the plausible window', () => {
+      expect(
+        codes({
+          title: '特別展',
+          venue: '東京国立博物館',
+          startDate: '2020-01-01',
+          endDate: '2020-03-31',
+        }),
+      ).toEqual(['DATE_OUT_OF_RANGE'])
+      expect(codes({ title: '特別展', venue: '東京国立博物館', startDate: '2035-01-01' })).toEqual([
+        'DATE_OUT_OF_RANGE',
+      ])
+    })
+
+    it('should apply custom rules', () => {
+      const violations = validateExhibition(
+        { title: 'ワークショップ', venue: '東京国立博物館' },
+        { ...EXHIBITION_VALIDATION_CONFIG, blockedTitlePatterns: [/ワークショップ/] },
+        now,
+      )
+      expect(violations).toEqual([
+        { code: 'BLOCKED_TITLE', message: 'Title matches blocked pattern /ワークショップ/' },
+      ])
+    })
+  })
+
+  describe('screenExhibitions', () => {
+    it('should split exhibitions into accepted and quarantined', () => {
+      const valid = { title: '特別展', venue: '東京国立博物館', startDate: '2025-06-01' }
+      const invalid = { title: '常設展', venue: '東京国立博物館' }
+
+      const result = screenExhibitions([valid, invalid], EXHIBITION_VALIDATION_CONFIG, now)
+
+      expect(result.accepted).toEqual([valid])
+      expect(result.quarantined).toEqual([
+        { exhibition: invalid, violations: [expect.objectContaining({ code: 'BLOCKED_TITLE' })] },
+      ])
+    })
+  })
+})
@@ -0,0 +1,101 @@
+import { ValidationError } from '../errors/app-error.js'
+import { parseExhibitionDates } from '../utils/date.js'
+import {
+  EXHIBITION_VALIDATION_CONFIG,
+  type ExhibitionValidationConfig,
+} from '../config/validation.config.js'
+import type { ScrapedExhibition } from '../schemas/exhibition.schema.js'
+import type { QuarantineCandidate, RuleViolation } from '../types/quarantined-exhibition.js'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Check a scraped exhibition against the semantic validation rules
+ *
+ * @param exhibition - The scraped exhibition
+ * @param config - The rules to apply
+ * @param now - The reference date for the plausible date window
+ * @returns The rules the exhibition breaks (empty if it is valid)
+ */
+export function validateExhibition(
+  exhibition: ScrapedExhibition,
+  config: ExhibitionValidationConfig = EXHIBITION_VALIDATION_CONFIG,
+  now: Date = new Date(),
+): RuleViolation[] {
+  const violations: RuleViolation[] = []
+  const title = exhibition.title.trim()
+
+  if (title.length < config.minTitleLength) {
+    violations.push({
+      code: 'TITLE_TOO_SHORT',
+      message: `Title must be at least ${config.minTitleLength} characters`,
+    })
+  }
+
+  const blockedPattern = config.blockedTitlePatterns.find((pattern) => pattern.test(title))
+  if (blockedPattern) {
+    violations.push({
+      code: 'BLOCKED_TITLE',
+      message: `Title matches blocked pattern ${blockedPattern}`,
+    })
+  }
+
+  let dates: ReturnType<typeof parseExhibitionDates>
+  try {
+    dates = parseExhibitionDates(exhibition.startDate, exhibition.endDate, now)
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      violations.push({ code: 'UNPARSEABLE_DATE', message: error.message })
+      return violations
+    }
+    throw error
+  }
+
+  const startDate = dates.startDate?.toDate()
+  const endDate = dates.endDate?.toDate()
+
+  if (startDate && endDate && endDate < startDate) {
+    violations.push({ code: 'DATE_ORDER', message: 'endDate is before startDate' })
+  }
+
+  const lastDate = endDate ?? startDate
+  if (lastDate && lastDate.getTime() < now.getTime() - config.maxPastDays * DAY_MS) {
+    violations.push({
+      code: 'DATE_OUT_OF_RANGE',
+      message: `Exhibition ended more than ${config.maxPastDays} days ago`,
+    })
+  }
+
+  const firstDate = startDate ?? endDate
+  if (firstDate && firstDate.getTime() > now.getTime() + config.maxFutureDays * DAY_MS) {
+    violations.push({
+      code: 'DATE_OUT_OF_RANGE',
+      message: `Exhibition starts more than ${config.maxFutureDays} days ahead`,
+    })
+  }
+
+  return violations
+}
+
+/**
+ * Split scraped exhibitions into those passing every rule and those to be quarantined
+ */
+export function screenExhibitions(
+  exhibitions: ScrapedExhibition[],
+  config: ExhibitionValidationConfig = EXHIBITION_VALIDATION_CONFIG,
+  now: Date = new Date(),
+): { accepted: ScrapedExhibition[]; quarantined: QuarantineCandidate[] } {
+  const accepted: ScrapedExhibition[] = []
+  const quarantined: QuarantineCandidate[] = []
+
+  for (const exhibition of exhibitions) {
+    const violations = validateExhibition(exhibition, config, now)
+    if (violations.length > 0) {
+      quarantined.push({ exhibition, violations })
+    } else {
+      accepted.push(exhibition)
+    }
+  }
+
+  return { accepted, quarantined }
+}
@@ -1,18 +1,17 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
-import { normalizeVenue, getMuseumId, processScrapeResults } from './exhibition.service.js'
+import {
+  normalizeVenue,
+  resolveVenue,
+  getMuseumId,
+  processScrapeResults,
+} from './exhibition.service.js'
 import type { MuseumMaps } from '../types/museum.js'
 import type { ScrapedExhibition } from '../schemas/exhibition.schema.js'
+import type { NewExhibitionDocument } from '../types/exhibition.js'
 import { NotFoundError } from '../errors/app-error.js'
-
-/**
- * Mock type for Firestore transaction object
- * Used to avoid complex Firestore Transaction type in tests
- */
-type MockTransaction = {
-  get: ReturnType<typeof vi.fn>
-  set: ReturnType<typeof vi.fn>
-  update: ReturnType<typeof vi.fn>
-}
+import { createMockTransaction, mockRunTransaction } from '../test/firestore.js'
+import { formatDate } from '../utils/date.js'
+import { FieldValue, Timestamp } from '@google-cloud/firestore'
 
 // Mock dependencies
 vi.mock('../lib/firestore.js', () => ({
@@ -22,11 +21,53 @@ vi.mock('../lib/firestore.js', () => ({
   },
 }))
 
+vi.mock('./unmatched-venue.service.js', () => ({
+  recordUnmatchedVenues: vi.fn(),
+}))
+
+vi.mock('./exhibition-validation.service.js', () => ({
+  screenExhibitions: vi.fn((exhibitions) => ({ accepted: [...exhibitions], quarantined: [] })),
+}))
+
+vi.mock('./quarantined-exhibition.service.js', () => ({
+  quarantineExhibitions: vi.fn(async () => []),
+}))
+
+vi.mock('./merge-candidate.service.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./merge-candidate.service.js')>()),
+  readMuseumExhibitions: vi.fn(
+    async (_transaction: unknown, museumIds: string[]) =>
+      new Map(museumIds.map((museumId) => [museumId, []])),
+  ),
+  readMergeCandidates: vi.fn(async () => new Map()),
+}))
+
+vi.mock('./exhibition-history.service.js', () => ({
+  appendHistory: vi.fn(),
+}))
+
+vi.mock('./image.service.js', () => ({
+  storeExhibitionImages: vi.fn(async (documentIds: string[]) => ({
+    stored: documentIds.length,
+    failed: 0,
+  })),
+}))
+
+vi.mock('./missing-exhibition.service.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./missing-exhibition.service.js')>()),
+  detectMissingExhibitions: vi.fn(async () => 0),
+}))
+
+vi.mock('../lib/storage.js', () => ({
+  getImageStorage: vi.fn(() => null),
+}))
+
 vi.mock('../utils/hash.js', () => ({
   getExhibitionDocumentId: vi.fn((museumId: string, title: string) => `${museumId}_${title}`),
 }))
 
-vi.mock('../utils/date.js', () => ({
+vi.mock('../utils/date.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../utils/date.js')>()),
   areDatesEqual: vi.fn((date1, date2) => {
     if (date1 === undefined && date2 === undefined) return true
     if (date1 === undefined || date2 === undefined) return false
@@ -43,6 +84,10 @@ describe('exhibition.service', () => {
           ['東博', '東京国立博物館'],
         ]),
         nameToId: new Map([['東京国立博物館', 'museum1']]),
+        normalizedToName: new Map([
+          ['東京国立博物館', '東京国立博物館'],
+          ['東博', '東京国立博物館'],
+        ]),
       } satisfies MuseumMaps
 
       const result = normalizeVenue('東博', museumMaps)
@@ -53,6 +98,7 @@ describe('exhibition.service', () => {
       const museumMaps = {
         aliasToName: new Map([['東京国立博物館', '東京国立博物館']]),
         nameToId: new Map([['東京国立博物館', 'museum1']]),
+        normalizedToName: new Map([['東京国立博物館', '東京国立博物館']]),
       } satisfies MuseumMaps
 
       const result = normalizeVenue('東京国立博物館', museumMaps)
@@ -63,6 +109,7 @@ describe('exhibition.service', () => {
       const museumMaps = {
         aliasToName: new Map([['東京国立博物館', '東京国立博物館']]),
         nameToId: new Map([['東京国立博物館', 'museum1']]),
+        normalizedToName: new Map([['東京国立博物館', '東京国立博物館']]),
       } satisfies MuseumMaps
 
       const result = normalizeVenue('不明な美術館', museumMaps)
@@ -70,11 +117,71 @@ describe('exhibition.service', () => {
     })
   })
 
+  describe('resolveVenue', () => {
+    const museumMaps = {
+      aliasToName: new Map([
+        ['東京都美術館', '東京都美術館'],
+        ['国立西洋美術館', '国立西洋美術館'],
+        ['西洋美術館', '国立西洋美術館'],
+      ]),
+      nameToId: new Map([
+        ['東京都美術館', 'museum1'],
+        ['国立西洋美術館', 'museum2'],
+      ]),
+      normalizedToName: new Map([
+        ['東京都美術館', '東京都美術館'],
+        ['国立西洋美術館', '国立西洋美術館'],
+        ['西洋美術館', '国立西洋美術館'],
+      ]),
+    } satisfies MuseumMaps
+
+    it('should match exactly when the venue is a known alias', () => {
+      expect(resolveVenue('西洋美術館', museumMaps)).toEqual({
+        name: '国立西洋美術館',
+        strategy: 'exact',
+        score: 1,
+      })
+    })
+
+    it('should match normalized names with extra whitespace or full-width characters', () => {
+      expect(resolveVenue('東京都美術館 ', museumMaps)).toEqual({
+        name: '東京都美術館',
+        strategy: 'normalized',
+        score: 1,
+      })
+      expect(resolveVenue('東京都　美術館', museumMaps)?.strategy).toBe('normalized')
+    })
+
+    it('should fall back to a fuzzy match for venues containing a known name', () => {
+      const result = resolveVenue('国立西洋美術館 本館', museumMaps)
+
+      expect(result?.name).toBe('国立西洋美術館')
+      expect(result?.strategy).toBe('fuzzy')
+      expect(result?.score).toBeGreaterThanOrEqual(0.8)
+    })
+
+    it('should match venues within a small edit distance', () => {
+      const result = resolveVenue('東京都美術舘', museumMaps)
+
+      expect(result?.name).toBe('東京都美術館')
+      expect(result?.strategy).toBe('fuzzy')
+    })
+
+    it('should respect the configured threshold', () => {
+      expect(resolveVenue('国立西洋美術館 本館', museumMaps, 0.95)).toBeNull()
+    })
+
+    it('should return null for unrelated venues', () => {
+      expect(resolveVenue('森美術館', museumMaps)).toBeNull()
+    })
+  })
+
   describe('getMuseumId', () => {
     it('should return museum ID for valid venue name', () => {
       const museumMaps = {
         aliasToName: new Map([['東京国立博物館', '東京国立博物館']]),
         nameToId: new Map([['東京国立博物館', 'museum1']]),
+        normalizedToName: new Map([['東京国立博物館', '東京国立博物館']]),
       } satisfies MuseumMaps
 
       const result = getMuseumId('東京国立博物館', museumMaps)
@@ -85,6 +192,7 @@ describe('exhibition.service', () => {
       const museumMaps = {
         aliasToName: new Map([['東京国立博物館', '東京国立博物館']]),
         nameToId: new Map([['東京国立博物館', 'museum1']]),
+        normalizedToName: new Map([['東京国立博物館', '東京国立博物館']]),
       } satisfies MuseumMaps
 
       expect(() => getMuseumId('不明な美術館', museumMaps)).toThrow(NotFoundError)
@@ -106,24 +214,24 @@ describe('exhibition.service', () => {
           venue: '東京国立博物館',
           startDate: '2024-01-01',
           endDate: '2024-03-31',
+          extraction: { method: 'llm', promptVersion: 'v1', model: 'gpt-4o-mini' },
         },
       ] satisfies ScrapedExhibition[]
 
       const museumMaps = {
         aliasToName: new Map([['東京国立博物館', '東京国立博物館']]),
         nameToId: new Map([['東京国立博物館', 'museum1']]),
+        normalizedToName: new Map([['東京国立博物館', '東京国立博物館']]),
       } satisfies MuseumMaps
 
-      const mockTransaction: MockTransaction = {
+      const mockTransaction = createMockTransaction({
         get: vi.fn().mockImplementation((ref) => {
           if (Array.isArray(ref)) {
             return Promise.resolve(ref.map(() => ({ exists: false })))
           }
           return Promise.resolve({ exists: false })
         }),
-        set: vi.fn(),
-        update: vi.fn(),
-      }
+      })
 
       const db = await import('../lib/firestore.js')
       const mockCollection = vi.fn().mockReturnValue({
@@ -133,17 +241,60 @@ describe('exhibition.service', () => {
       })
 
       vi.mocked(db.default.collection).mockImplementation(mockCollection as never)
-      // Firestore's Transaction type is complex, so we use our simplified MockTransaction
-      vi.mocked(db.default.runTransaction).mockImplementation(async (callback) => {
-        return await callback(mockTransaction as never)
-      })
+      mockRunTransaction(mockTransaction)
 
       const result = await processScrapeResults(exhibitions, museumMaps, 'scrape')
 
       expect(result.created).toBe(1)
       expect(result.updated).toBe(0)
       expect(result.skipped).toBe(0)
-      expect(result.errors).toBe(0)
+      expect(result.errors).toBe(0) // The prompt version and model that extracted the exhibition are recorded on it
+      expect(mockTransaction.set).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          extraction: { method: 'llm', promptVersion: 'v1', model: 'gpt-4o-mini' },
+        }),
+      )
+    })
+
+    it('should infer missing years from when the exhibitions were scraped', async () => {
+      const exhibitions = [
+        { title: '冬の展覧会', venue: '東京国立博物館', startDate: '12/20', endDate: '1/12' },
+      ] satisfies ScrapedExhibition[]
+
+      const museumMaps = {
+        aliasToName: new Map([['東京国立博物館', '東京国立博物館']]),
+        nameToId: new Map([['東京国立博物館', 'museum1']]),
+        normalizedToName: new Map([['東京国立博物館', '東京国立博物館']]),
+      } satisfies MuseumMaps
+
+      const mockTransaction = createMockTransaction({
+        get: vi.fn().mockImplementation((ref) => {
+          if (Array.isArray(ref)) {
+            return Promise.resolve(ref.map(() => ({ exists: false })))
+          }
+          return Promise.resolve({ exists: false })
+        }),
+      })
+
+      const db = await import('../lib/firestore.js')
+      vi.mocked(db.default.collection).mockReturnValue({
+        doc: vi.fn().mockReturnValue({ id: 'mock-doc-id' }),
+      } as never)
+      mockRunTransaction(mockTransaction)
+
+      const scrapedAt = new Date('2023-12-01T00:00:00Z')
+      await processScrapeResults(exhibitions, museumMaps, 'scrape', { scrapedAt })
+
+      const validationService = await import('./exhibition-validation.service.js')
+      expect(validationService.screenExhibitions).toHaveBeenCalledWith(
+        exhibitions,
+        undefined,
+        scrapedAt,
+      )
+      const created = mockTransaction.set.mock.calls[0][1] as NewExhibitionDocument
+      expect(formatDate(created.startDate)).toBe('2023-12-20')
+      expect(formatDate(created.endDate)).toBe('2024-01-12')
     })
 
     it('should skip exhibitions with unknown venues', async () => {
@@ -159,26 +310,244 @@ describe('exhibition.service', () => {
       const museumMaps = {
         aliasToName: new Map([['東京国立博物館', '東京国立博物館']]),
         nameToId: new Map([['東京国立博物館', 'museum1']]),
+        normalizedToName: new Map([['東京国立博物館', '東京国立博物館']]),
       } satisfies MuseumMaps
 
-      const mockTransaction: MockTransaction = {
-        get: vi.fn(),
-        set: vi.fn(),
-        update: vi.fn(),
-      }
+      const mockTransaction = createMockTransaction()
+      mockRunTransaction(mockTransaction)
+
+      const result = await processScrapeResults(exhibitions, museumMaps, 'scrape')
+
+      expect(result.created).toBe(0)
+      expect(result.updated).toBe(0)
+      expect(result.skipped).toBe(0)
+      expect(result.errors).toBe(1)
+
+      const unmatchedVenueService = await import('./unmatched-venue.service.js')
+      expect(unmatchedVenueService.recordUnmatchedVenues).toHaveBeenCalledWith(
+        exhibitions,
+        'scrape',
+      )
+    })
+
+    it('should reject exhibitions with unparseable dates', async () => {
+      const exhibitions = [
+        {
+          title: '特別展',
+          venue: '東京国立博物館',
+          startDate: '近日公開',
+          endDate: '2024-03-31',
+        },
+      ] satisfies ScrapedExhibition[]
+
+      const museumMaps = {
+        aliasToName: new Map([['東京国立博物館', '東京国立博物館']]),
+        nameToId: new Map([['東京国立博物館', 'museum1']]),
+        normalizedToName: new Map([['東京国立博物館', '東京国立博物館']]),
+      } satisfies MuseumMaps
 
       const db = await import('../lib/firestore.js')
-      // Firestore's Transaction type is complex, so we use our simplified MockTransaction
-      vi.mocked(db.default.runTransaction).mockImplementation(async (callback) => {
-        return await callback(mockTransaction as never)
+
+      const result = await processScrapeResults(exhibitions, museumMaps, 'scrape', {
+        dryRun: true,
       })
 
+      expect(result.errors).toBe(1)
+      expect(result.created).toBe(0)
+      expect(db.default.runTransaction).not.toHaveBeenCalled()
+      expect(result.diff).toEqual([
+        {
+          title: '特別展',
+          venue: '東京国立博物館',
+          action: 'reject',
+          reason: 'Unparseable startDate: "近日公開"',
+        },
+      ])
+    })
+
+    it('should quarantine exhibitions that fail validation', async () => {
+      const exhibitions = [
+        { title: '常設展', venue: '東京国立博物館' },
+        { title: '再公開展', venue: '東京国立博物館', startDate: '2024-01-01' },
+      ] satisfies ScrapedExhibition[]
+
+      const museumMaps = {
+        aliasToName: new Map([['東京国立博物館', '東京国立博物館']]),
+        nameToId: new Map([['東京国立博物館', 'museum1']]),
+        normalizedToName: new Map([['東京国立博物館', '東京国立博物館']]),
+      } satisfies MuseumMaps
+
+      const validationService = await import('./exhibition-validation.service.js')
+      vi.mocked(validationService.screenExhibitions).mockReturnValue({
+        accepted: [],
+        quarantined: exhibitions.map((exhibition) => ({
+          exhibition,
+          violations: [{ code: 'BLOCKED_TITLE', message: 'Blocked' }],
+        })),
+      })
+      // The second exhibition was released by a reviewer before
+      const quarantineService = await import('./quarantined-exhibition.service.js')
+      vi.mocked(quarantineService.quarantineExhibitions).mockResolvedValue([exhibitions[1]])
+
+      const mockTransaction = createMockTransaction({
+        get: vi.fn().mockResolvedValue({ exists: false }),
+      })
+
+      const db = await import('../lib/firestore.js')
+      vi.mocked(db.default.collection).mockReturnValue({
+        doc: vi.fn().mockImplementation((id: string) => ({ id })),
+      } as never)
+      mockRunTransaction(mockTransaction)
+
+      const result = await processScrapeResults(exhibitions, museumMaps, 'scrape')
+
+      expect(quarantineService.quarantineExhibitions).toHaveBeenCalledWith(
+        expect.any(Array),
+        'scrape',
+        undefined,
+      )
+      expect(result.quarantined).toBe(1)
+      expect(result.created).toBe(1)
+      expect(mockTransaction.set).toHaveBeenCalledTimes(1)
+      expect(mockTransaction.set.mock.calls[0][1]).toMatchObject({ title: '再公開展' })
+    })
+
+    it('should not validate exhibitions when skipValidation is set', async () => {
+      const museumMaps = {
+        aliasToName: new Map([['東京国立博物館', '東京国立博物館']]),
+        nameToId: new Map([['東京国立博物館', 'museum1']]),
+        normalizedToName: new Map([['東京国立博物館', '東京国立博物館']]),
+      } satisfies MuseumMaps
+
+      const result = await processScrapeResults([], museumMaps, 'scrape', {
+        skipValidation: true,
+      })
+
+      const validationService = await import('./exhibition-validation.service.js')
+      expect(validationService.screenExhibitions).not.toHaveBeenCalled()
+      expect(result.quarantined).toBeUndefined()
+    })
+
+    it('should link near-duplicates and hold merge candidates instead of creating them', async () => {
+      const exhibitions = [
+        { title: 'モネ 睡蓮のとき!', venue: '国立西洋美術館', startDate: '2025-10-04' },
+        { title: 'モネ 睡蓮の時', venue: '国立西洋美術館', startDate: '2025-10-04' },
+      ] satisfies ScrapedExhibition[]
+
+      const museumMaps = {
+        aliasToName: new Map([['国立西洋美術館', '国立西洋美術館']]),
+        nameToId: new Map([['国立西洋美術館', 'museum1']]),
+        normalizedToName: new Map([['国立西洋美術館', '国立西洋美術館']]),
+      } satisfies MuseumMaps
+
+      const existingData = {
+        title: '特別展「モネ 睡蓮のとき」',
+        startDate: Timestamp.fromDate(new Date('2025-10-03T15:00:00.000Z')),
+      }
+      const mergeCandidateService = await import('./merge-candidate.service.js')
+      vi.mocked(mergeCandidateService.readMuseumExhibitions).mockResolvedValue(
+        new Map([['museum1', [{ id: 'monet', data: existingData as never }]]]),
+      )
+
+      const mockTransaction = createMockTransaction({
+        get: vi.fn().mockResolvedValue({ exists: false }),
+      })
+
+      const db = await import('../lib/firestore.js')
+      vi.mocked(db.default.collection).mockImplementation(
+        (collection: string) =>
+          ({
+            doc: vi.fn().mockImplementation((id: string) => ({ id, collection })),
+          }) as never,
+      )
+      mockRunTransaction(mockTransaction)
+
+      const dateUtils = await import('../utils/date.js')
+      const actualDateUtils =
+        await vi.importActual<typeof import('../utils/date.js')>('../utils/date.js')
+      vi.mocked(dateUtils.areDatesEqual).mockImplementation(actualDateUtils.areDatesEqual)
+
       const result = await processScrapeResults(exhibitions, museumMaps, 'scrape')
 
       expect(result.created).toBe(0)
-      expect(result.updated).toBe(0)
-      expect(result.skipped).toBe(0)
+      expect(result.skipped).toBe(1)
+      expect(result.linked).toBe(1)
+      expect(result.mergeCandidates).toBe(1)
+      expect(mockTransaction.set).toHaveBeenCalledTimes(1)
+      expect(mockTransaction.set).toHaveBeenCalledWith(
+        { id: 'museum1_モネ 睡蓮の時', collection: 'mergeCandidate' },
+        expect.objectContaining({ status: 'open', existingId: 'monet', origin: 'scrape' }),
+      )
+    })
+
+    it('should count the documents of held, rejected and quarantined exhibitions as seen', async () => {
+      const exhibitions = [
+        { title: 'モネ 睡蓮の時', venue: '国立西洋美術館', startDate: '2025-10-04' },
+        { title: 'ゴッホ展', venue: '国立西洋美術館', startDate: 'next spring' },
+        { title: '常設展', venue: '国立西洋美術館' },
+      ] satisfies ScrapedExhibition[]
+
+      const museumMaps = {
+        aliasToName: new Map([['国立西洋美術館', '国立西洋美術館']]),
+        nameToId: new Map([['国立西洋美術館', 'museum1']]),
+        normalizedToName: new Map([['国立西洋美術館', '国立西洋美術館']]),
+      } satisfies MuseumMaps
+
+      const validationService = await import('./exhibition-validation.service.js')
+      vi.mocked(validationService.screenExhibitions).mockReturnValue({
+        accepted: exhibitions.slice(0, 2),
+        quarantined: [
+          {
+            exhibition: exhibitions[2],
+            violations: [{ code: 'BLOCKED_TITLE', message: 'Blocked' }],
+          },
+        ],
+      })
+      const mergeCandidateService = await import('./merge-candidate.service.js')
+      vi.mocked(mergeCandidateService.readMuseumExhibitions).mockResolvedValue(
+        new Map([
+          [
+            'museum1',
+            [
+              {
+                id: 'monet',
+                data: {
+                  title: '特別展「モネ 睡蓮のとき」',
+                  startDate: Timestamp.fromDate(new Date('2025-10-03T15:00:00.000Z')),
+                } as never,
+              },
+            ],
+          ],
+        ]),
+      )
+
+      const mockTransaction = createMockTransaction({
+        get: vi.fn().mockResolvedValue({ exists: false }),
+      })
+
+      const db = await import('../lib/firestore.js')
+      vi.mocked(db.default.collection).mockReturnValue({
+        doc: vi.fn().mockImplementation((id: string) => ({ id })),
+      } as never)
+      mockRunTransaction(mockTransaction)
+
+      const dateUtils = await import('../utils/date.js')
+      const actualDateUtils =
+        await vi.importActual<typeof import('../utils/date.js')>('../utils/date.js')
+      vi.mocked(dateUtils.areDatesEqual).mockImplementation(actualDateUtils.areDatesEqual)
+
+      const result = await processScrapeResults(exhibitions, museumMaps, 'scrape', {
+        coveredMuseumIds: ['museum1'],
+      })
+
+      const { detectMissingExhibitions } = await import('./missing-exhibition.service.js')
+      expect(result.mergeCandidates).toBe(1)
       expect(result.errors).toBe(1)
+      expect(detectMissingExhibitions).toHaveBeenCalledWith(
+        ['museum1'],
+        new Set(['museum1_常設展', 'museum1_ゴッホ展', 'monet']),
+        undefined,
+      )
     })
 
     it('should update exhibitions when dates change', async () => {
@@ -194,14 +563,16 @@ describe('exhibition.service', () => {
       const museumMaps = {
         aliasToName: new Map([['東京国立博物館', '東京国立博物館']]),
         nameToId: new Map([['東京国立博物館', 'museum1']]),
+        normalizedToName: new Map([['東京国立博物館', '東京国立博物館']]),
       } satisfies MuseumMaps
 
       const mockExistingData = {
-        startDate: '2024-01-01',
-        endDate: '2024-03-31',
+        title: '特別展：日本の美',
+        startDate: Timestamp.fromDate(new Date('2023-12-31T15:00:00.000Z')),
+        endDate: Timestamp.fromDate(new Date('2024-03-30T15:00:00.000Z')),
       }
 
-      const mockTransaction: MockTransaction = {
+      const mockTransaction = createMockTransaction({
         get: vi.fn().mockImplementation((ref) => {
           if (Array.isArray(ref)) {
             return Promise.resolve(
@@ -216,9 +587,7 @@ describe('exhibition.service', () => {
             data: () => mockExistingData,
           })
         }),
-        set: vi.fn(),
-        update: vi.fn(),
-      }
+      })
 
       const db = await import('../lib/firestore.js')
       const mockCollection = vi.fn().mockReturnValue({
@@ -228,22 +597,137 @@ describe('exhibition.service', () => {
       })
 
       vi.mocked(db.default.collection).mockImplementation(mockCollection as never)
-      vi.mocked(db.default.runTransaction).mockImplementation(async (callback) => {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        return await callback(mockTransaction as any)
-      })
+      mockRunTransaction(mockTransaction)
 
       // Mock areDatesEqual to return false (dates changed)
       const dateUtils = await import('../utils/date.js')
       vi.mocked(dateUtils.areDatesEqual).mockReturnValue(false)
 
-      const result = await processScrapeResults(exhibitions, museumMaps, 'scrape')
+      const result = await processScrapeResults(exhibitions, museumMaps, 'scrape', {
+        runId: 'run1',
+      })
 
       expect(result.created).toBe(0)
       expect(result.updated).toBe(1)
       expect(result.skipped).toBe(0)
       expect(result.errors).toBe(0)
       expect(mockTransaction.update).toHaveBeenCalled()
+
+      // The previous dates are kept in the history subcollection
+      const historyService = await import('./exhibition-history.service.js')
+      expect(historyService.appendHistory).toHaveBeenCalledWith(
+        mockTransaction,
+        { id: 'mock-doc-id' },
+        {
+          changes: {
+            startDate: {
+              old: mockExistingData.startDate,
+              new: Timestamp.fromDate(new Date('2024-01-31T15:00:00.000Z')),
+            },
+            endDate: {
+              old: mockExistingData.endDate,
+              new: Timestamp.fromDate(new Date('2024-04-29T15:00:00.000Z')),
+            },
+          },
+          origin: 'scrape',
+          runId: 'run1',
+          changedAt: expect.any(Timestamp),
+        },
+      )
+    })
+
+    it('should fill in missing fields and hold changes to set fields for review', async () => {
+      const exhibitions = [
+        {
+          title: '特別展「日本の美」',
+          venue: '東京国立博物館',
+          officialUrl: 'https://example.com/new',
+          imageUrl: 'https://example.com/image.jpg',
+        },
+      ] satisfies ScrapedExhibition[]
+
+      const museumMaps = {
+        aliasToName: new Map([['東京国立博物館', '東京国立博物館']]),
+        nameToId: new Map([['東京国立博物館', 'museum1']]),
+        normalizedToName: new Map([['東京国立博物館', '東京国立博物館']]),
+      } satisfies MuseumMaps
+
+      const mockExistingData = {
+        title: '特別展：日本の美',
+        officialUrl: 'https://example.com/old',
+      }
+
+      const mockTransaction = createMockTransaction({
+        get: vi.fn().mockResolvedValue({ exists: true, data: () => mockExistingData }),
+      })
+
+      const db = await import('../lib/firestore.js')
+      vi.mocked(db.default.collection).mockReturnValue({
+        doc: vi.fn().mockReturnValue({ id: 'mock-doc-id' }),
+      } as never)
+      mockRunTransaction(mockTransaction)
+
+      const storage = { save: vi.fn() }
+      const { getImageStorage } = await import('../lib/storage.js')
+      vi.mocked(getImageStorage).mockReturnValue(storage)
+      const { storeExhibitionImages } = await import('./image.service.js')
+
+      const result = await processScrapeResults(exhibitions, museumMaps, 'scrape')
+
+      expect(result.updated).toBe(1)
+      expect(result.fieldChanges).toEqual({ title: 1, officialUrl: 1, imageUrl: 1 })
+      // The filled-in image is downloaded once the transaction has committed
+      expect(storeExhibitionImages).toHaveBeenCalledWith(['museum1_特別展「日本の美」'], storage)
+      expect(result.images).toEqual({ stored: 1, failed: 0 })
+      expect(mockTransaction.update).toHaveBeenCalledWith(
+        { id: 'mock-doc-id' },
+        {
+          imageUrl: 'https://example.com/image.jpg',
+          'pendingChanges.title': '特別展「日本の美」',
+          'pendingChanges.officialUrl': 'https://example.com/new',
+          hasPendingChanges: true,
+          lastSeenAt: expect.any(Timestamp),
+          seenCount: FieldValue.increment(1),
+          missedRuns: 0,
+          isMissing: false,
+          missingSince: FieldValue.delete(),
+          updatedAt: expect.any(Timestamp),
+        },
+      )
+    })
+
+    it('should not record history for changes that are only held for review', async () => {
+      const exhibitions = [
+        { title: '特別展「日本の美」', venue: '東京国立博物館' },
+      ] satisfies ScrapedExhibition[]
+
+      const museumMaps = {
+        aliasToName: new Map([['東京国立博物館', '東京国立博物館']]),
+        nameToId: new Map([['東京国立博物館', 'museum1']]),
+        normalizedToName: new Map([['東京国立博物館', '東京国立博物館']]),
+      } satisfies MuseumMaps
+
+      const mockTransaction = createMockTransaction({
+        get: vi
+          .fn()
+          .mockResolvedValue({ exists: true, data: () => ({ title: '特別展：日本の美' }) }),
+      })
+
+      const db = await import('../lib/firestore.js')
+      vi.mocked(db.default.collection).mockReturnValue({
+        doc: vi.fn().mockReturnValue({ id: 'mock-doc-id' }),
+      } as never)
+      mockRunTransaction(mockTransaction)
+
+      const result = await processScrapeResults(exhibitions, museumMaps, 'scrape')
+
+      expect(result.updated).toBe(1)
+      expect(mockTransaction.update).toHaveBeenCalledWith(
+        { id: 'mock-doc-id' },
+        expect.objectContaining({ 'pendingChanges.title': '特別展「日本の美」' }),
+      )
+      const historyService = await import('./exhibition-history.service.js')
+      expect(historyService.appendHistory).not.toHaveBeenCalled()
     })
 
     it('should skip exhibitions when dates are unchanged', async () => {
@@ -259,14 +743,16 @@ describe('exhibition.service', () => {
       const museumMaps = {
         aliasToName: new Map([['東京国立博物館', '東京国立博物館']]),
         nameToId: new Map([['東京国立博物館', 'museum1']]),
+        normalizedToName: new Map([['東京国立博物館', '東京国立博物館']]),
       } satisfies MuseumMaps
 
       const mockExistingData = {
-        startDate: '2024-01-01',
-        endDate: '2024-03-31',
+        title: '特別展：日本の美',
+        startDate: Timestamp.fromDate(new Date('2023-12-31T15:00:00.000Z')),
+        endDate: Timestamp.fromDate(new Date('2024-03-30T15:00:00.000Z')),
       }
 
-      const mockTransaction: MockTransaction = {
+      const mockTransaction = createMockTransaction({
         get: vi.fn().mockImplementation((ref) => {
           if (Array.isArray(ref)) {
             return Promise.resolve(
@@ -281,9 +767,7 @@ describe('exhibition.service', () => {
             data: () => mockExistingData,
           })
         }),
-        set: vi.fn(),
-        update: vi.fn(),
-      }
+      })
 
       const db = await import('../lib/firestore.js')
       const mockCollection = vi.fn().mockReturnValue({
@@ -293,21 +777,34 @@ describe('exhibition.service', () => {
       })
 
       vi.mocked(db.default.collection).mockImplementation(mockCollection as never)
-      vi.mocked(db.default.runTransaction).mockImplementation(async (callback) => {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        return await callback(mockTransaction as any)
-      })
+      mockRunTransaction(mockTransaction)
 
       // Mock areDatesEqual to return true (dates unchanged)
       const dateUtils = await import('../utils/date.js')
       vi.mocked(dateUtils.areDatesEqual).mockReturnValue(true)
 
-      const result = await processScrapeResults(exhibitions, museumMaps, 'scrape')
+      const { detectMissingExhibitions } = await import('./missing-exhibition.service.js')
+      vi.mocked(detectMissingExhibitions).mockResolvedValue(2)
+
+      const result = await processScrapeResults(exhibitions, museumMaps, 'scrape', {
+        coveredMuseumIds: ['museum1'],
+      })
 
       expect(result.created).toBe(0)
       expect(result.updated).toBe(0)
       expect(result.skipped).toBe(1)
       expect(result.errors).toBe(0)
+      // Unchanged exhibitions are still stamped as seen, and the others of the museum count a missed run
+      expect(mockTransaction.update).toHaveBeenCalledWith(
+        { id: 'mock-doc-id' },
+        expect.objectContaining({ lastSeenAt: expect.any(Timestamp), missedRuns: 0 }),
+      )
+      expect(detectMissingExhibitions).toHaveBeenCalledWith(
+        ['museum1'],
+        new Set(['museum1_特別展：日本の美']),
+        undefined,
+      )
+      expect(result.missing).toBe(2)
     })
 
     it('should process multiple exhibitions in batches', async () => {
@@ -321,18 +818,17 @@ describe('exhibition.service', () => {
       const museumMaps = {
         aliasToName: new Map([['東京国立博物館', '東京国立博物館']]),
         nameToId: new Map([['東京国立博物館', 'museum1']]),
+        normalizedToName: new Map([['東京国立博物館', '東京国立博物館']]),
       } satisfies MuseumMaps
 
-      const mockTransaction: MockTransaction = {
+      const mockTransaction = createMockTransaction({
         get: vi.fn().mockImplementation((ref) => {
           if (Array.isArray(ref)) {
             return Promise.resolve(ref.map(() => ({ exists: false })))
           }
           return Promise.resolve({ exists: false })
         }),
-        set: vi.fn(),
-        update: vi.fn(),
-      }
+      })
 
       const db = await import('../lib/firestore.js')
       const mockCollection = vi.fn().mockReturnValue({
@@ -342,10 +838,7 @@ describe('exhibition.service', () => {
       })
 
       vi.mocked(db.default.collection).mockImplementation(mockCollection as never)
-      // Firestore's Transaction type is complex, so we use our simplified MockTransaction
-      vi.mocked(db.default.runTransaction).mockImplementation(async (callback) => {
-        return await callback(mockTransaction as never)
-      })
+      mockRunTransaction(mockTransaction)
 
       const result = await processScrapeResults(exhibitions, museumMaps, 'scrape')
 
@@ -370,6 +863,7 @@ describe('exhibition.service', () => {
       const museumMaps = {
         aliasToName: new Map([['東京国立博物館', '東京国立博物館']]),
         nameToId: new Map([['東京国立博物館', 'museum1']]),
+        normalizedToName: new Map([['東京国立博物館', '東京国立博物館']]),
       } satisfies MuseumMaps
 
       const db = await import('../lib/firestore.js')
@@ -389,5 +883,111 @@ describe('exhibition.service', () => {
       expect(result.skipped).toBe(0)
       expect(result.errors).toBe(1)
     })
+
+    it('should report a diff without writing in dry-run mode', async () => {
+      const exhibitions = [
+        {
+          title: '新しい展覧会',
+          venue: '東京国立博物館',
+          startDate: '2024-01-01',
+          endDate: '2024-03-31',
+        },
+        {
+          title: '会期変更展',
+          venue: '東博',
+          startDate: '2024-02-01',
+          endDate: '2024-04-30',
+        },
+        {
+          title: '不明な展覧会',
+          venue: '不明な美術館',
+          startDate: '2024-01-01',
+          endDate: '2024-03-31',
+        },
+      ] satisfies ScrapedExhibition[]
+
+      const museumMaps = {
+        aliasToName: new Map([
+          ['東京国立博物館', '東京国立博物館'],
+          ['東博', '東京国立博物館'],
+        ]),
+        nameToId: new Map([['東京国立博物館', 'museum1']]),
+        normalizedToName: new Map([
+          ['東京国立博物館', '東京国立博物館'],
+          ['東博', '東京国立博物館'],
+        ]),
+      } satisfies MuseumMaps
+
+      const mockExistingData = {
+        title: '会期変更展',
+        startDate: Timestamp.fromDate(new Date('2023-12-31T15:00:00.000Z')),
+        endDate: Timestamp.fromDate(new Date('2024-03-30T15:00:00.000Z')),
+      }
+
+      const mockTransaction = createMockTransaction({
+        get: vi
+          .fn()
+          .mockImplementation((ref: { id: string }) =>
+            Promise.resolve(
+              ref.id === 'museum1_会期変更展'
+                ? { exists: true, data: () => mockExistingData }
+                : { exists: false },
+            ),
+          ),
+      })
+
+      const db = await import('../lib/firestore.js')
+      const mockCollection = vi.fn().mockReturnValue({
+        doc: vi.fn().mockImplementation((id: string) => ({ id })),
+      })
+
+      vi.mocked(db.default.collection).mockImplementation(mockCollection as never)
+      mockRunTransaction(mockTransaction)
+
+      const dateUtils = await import('../utils/date.js')
+      const actualDateUtils =
+        await vi.importActual<typeof import('../utils/date.js')>('../utils/date.js')
+      vi.mocked(dateUtils.areDatesEqual).mockImplementation(actualDateUtils.areDatesEqual)
+
+      const result = await processScrapeResults(exhibitions, museumMaps, 'scrape', {
+        dryRun: true,
+      })
+
+      expect(result.created).toBe(1)
+      expect(result.updated).toBe(1)
+      expect(result.errors).toBe(1)
+      expect(mockTransaction.set).not.toHaveBeenCalled()
+      expect(mockTransaction.update).not.toHaveBeenCalled()
+
+      const unmatchedVenueService = await import('./unmatched-venue.service.js')
+      expect(unmatchedVenueService.recordUnmatchedVenues).not.toHaveBeenCalled()
+      expect(db.default.runTransaction).toHaveBeenCalledWith(expect.any(Function), {
+        readOnly: true,
+      })
+      expect(result.diff).toEqual([
+        {
+          title: '不明な展覧会',
+          venue: '不明な美術館',
+          action: 'reject',
+          reason: 'Venue not found: 不明な美術館',
+        },
+        {
+          title: '新しい展覧会',
+          venue: '東京国立博物館',
+          action: 'create',
+          documentId: 'museum1_新しい展覧会',
+        },
+        {
+          title: '会期変更展',
+          venue: '東京国立博物館',
+          action: 'update',
+          documentId: 'museum1_会期変更展',
+          changes: {
+            startDate: { old: '2024-01-01', new: '2024-02-01' },
+            endDate: { old: '2024-03-31', new: '2024-04-30' },
+          },
+        },
+      ])
+    })
   })
 })
@@ -1,15 +1,99 @@
 import db from '../lib/firestore.js'
 import { Timestamp } from '@google-cloud/firestore'
-import { TZDate } from '@date-fns/tz'
 import { getExhibitionDocumentId } from '../utils/hash.js'
-import { areDatesEqual } from '../utils/date.js'
-import type { NewExhibitionDocument } from '../types/exhibition.js'
-import type { MuseumMaps } from '../types/museum.js'
-import { NotFoundError } from '../errors/app-error.js'
+import { areDatesEqual, formatDate, parseExhibitionDates } from '../utils/date.js'
+import { normalizeVenueName, editSimilarity } from '../utils/text.js'
+import { VENUE_MATCH_CONFIG } from '../config/venue.config.js'
+import { recordUnmatchedVenues } from './unmatched-venue.service.js'
+import { getVenueNames } from './museum.service.js'
+import { appendHistory } from './exhibition-history.service.js'
+import {
+  matchDuplicate,
+  readMuseumExhibitions,
+  readMergeCandidates,
+  holdMergeCandidate,
+} from './merge-candidate.service.js'
+import type { ExistingExhibition } from './merge-candidate.service.js'
+import { screenExhibitions } from './exhibition-validation.service.js'
+import { quarantineExhibitions } from './quarantined-exhibition.service.js'
+import { storeExhibitionImages } from './image.service.js'
+import { detectMissingExhibitions, seenFields } from './missing-exhibition.service.js'
+import { getImageStorage } from '../lib/storage.js'
+import type {
+  ContentField,
+  DiffField,
+  ExhibitionDiff,
+  ExhibitionDocument,
+  NewExhibitionDocument,
+  ProcessOptions,
+  ProcessResults,
+  ScrapeOrigin,
+  ScrapeStats,
+} from '../types/exhibition.js'
+import type { MuseumMaps, VenueMatch, VenueMatchStrategy } from '../types/museum.js'
+import type { MergeCandidateDocument } from '../types/merge-candidate.js'
+import type { ExhibitionHistoryDocument } from '../types/exhibition-history.js'
+import { NotFoundError, ValidationError } from '../errors/app-error.js'
 import type { ScrapedExhibition } from '../schemas/exhibition.schema.js'
 
+/**
+ * Score how likely a normalized venue name refers to a normalized candidate name (0-1)
+ */
+function scoreVenueCandidate(venue: string, candidate: string): number {
+  let score = editSimilarity(venue, candidate)
+
+  const [shorter, longer] =
+    venue.length <= candidate.length ? [venue, candidate] : [candidate, venue]
+  if (shorter.length >= VENUE_MATCH_CONFIG.minContainmentLength && longer.includes(shorter)) {
+    // Containment (e.g. "国立西洋美術館本館") is a strong signal, weighted by how much of the longer name is covered
+    score = Math.max(score, 0.5 + 0.5 * (shorter.length / longer.length))
+  }
+
+  return score
+}
+
+/**
+ * Resolve a scraped venue name to a canonical museum name
+ * Tries an exact alias lookup first, then the normalized name, and finally a fuzzy match
+ * scored by containment and edit distance. Fuzzy matches below the threshold or tied
+ * between different museums are rejected.
+ */
+export function resolveVenue(
+  venue: string,
+  museumMaps: MuseumMaps,
+  threshold: number = VENUE_MATCH_CONFIG.fuzzyThreshold,
+): VenueMatch | null {
+  const exactName = museumMaps.aliasToName.get(venue)
+  if (exactName) {
+    return { name: exactName, strategy: 'exact', score: 1 }
+  }
+
+  const normalizedVenue = normalizeVenueName(venue)
+  const normalizedName = museumMaps.normalizedToName.get(normalizedVenue)
+  if (normalizedName) {
+    return { name: normalizedName, strategy: 'normalized', score: 1 }
+  }
+
+  let best: VenueMatch | null = null
+  let ambiguous = false
+  for (const [candidate, name] of museumMaps.normalizedToName) {
+    const score = scoreVenueCandidate(normalizedVenue, candidate)
+    if (best === null || score > best.score) {
+      best = { name, strategy: 'fuzzy', score }
+      ambiguous = false
+    } else if (score === best.score && name !== best.name) {
+      ambiguous = true
+    }
+  }
+
+  if (best === null || ambiguous || best.score < threshold) {
+    return null
+  }
+  return best
+}
+
 export function normalizeVenue(venue: string, museumMaps: MuseumMaps): string | null {
-  return museumMaps.aliasToName.get(venue) ?? null
+  return resolveVenue(venue, museumMaps)?.name ?? null
 }
 
 export function getMuseumId(venueName: string, museumMaps: MuseumMaps): string {
@@ -20,6 +104,65 @@ export function getMuseumId(venueName: string, museumMaps: MuseumMaps): string {
   return museumId
 }
 
+const CONTENT_FIELDS: ContentField[] = ['title', 'officialUrl', 'imageUrl']
+
+function isEmpty(object: object): boolean {
+  return Object.keys(object).length === 0
+}
+
+/**
+ * ID of the document a scraped exhibition corresponds to, or undefined when its venue is unknown
+ * Used to count exhibitions that are not written (e.g. quarantined ones) as seen.
+ */
+function findExhibitionDocumentId(
+  exhibition: ScrapedExhibition,
+  museumMaps: MuseumMaps,
+  venueMatchThreshold?: number,
+): string | undefined {
+  const venueMatch = resolveVenue(exhibition.venue, museumMaps, venueMatchThreshold)
+  const museumId = venueMatch && museumMaps.nameToId.get(venueMatch.name)
+  return museumId ? getExhibitionDocumentId(museumId, exhibition.title, venueMatch.name) : undefined
+}
+
+/**
+ * Compare the scraped title and URLs with an existing document
+ * Fields missing from the document are filled in, while scraped values that differ from fields
+ * already set are held for review, unless they are already pending or were dismissed before.
+ */
+function diffContentFields(
+  data: ExhibitionDocument,
+  exhibition: ScrapedExhibition,
+  origin: ScrapeOrigin,
+  linked: boolean,
+): {
+  filled: Partial<Record<ContentField, string>>
+  flagged: Partial<Record<ContentField, string>>
+} {
+  const scraped: Record<ContentField, string | null | undefined> = {
+    // The title of a near-duplicate differs from the existing one by definition
+    title: linked ? undefined : exhibition.title,
+    // Feed items link to the feed entry rather than the exhibition page
+    officialUrl: origin === 'scrape' ? exhibition.officialUrl : undefined,
+    imageUrl: exhibition.imageUrl,
+  }
+
+  const filled: Partial<Record<ContentField, string>> = {}
+  const flagged: Partial<Record<ContentField, string>> = {}
+  for (const field of CONTENT_FIELDS) {
+    const value = scraped[field]
+    if (!value || value === data[field]) {
+      continue
+    }
+    if (!data[field]) {
+      filled[field] = value
+    } else if (value !== data.pendingChanges?.[field] && value !== data.dismissedChanges?.[field]) {
+      flagged[field] = value
+    }
+  }
+
+  return { filled, flagged }
+}
+
 /**
  * Process a batch of exhibitions in a single transaction
  * This reduces the number of transactions and document reads
@@ -27,19 +170,38 @@ export function getMuseumId(venueName: string, museumMaps: MuseumMaps): string {
 async function processExhibitionBatch(
   exhibitions: Array<ScrapedExhibition>,
   museumMaps: MuseumMaps,
-  origin: 'scrape' | 'scrape-feed',
-): Promise<{
-  created: number
-  updated: number
-  skipped: number
-  errors: number
-}> {
-  const results = {
+  origin: ScrapeOrigin,
+  options: ProcessOptions = {},
+): Promise<ProcessResults & { imageTargets: string[]; seenIds: string[] }> {
+  const {
+    dryRun = false,
+    venueMatchThreshold,
+    skipDuplicateDetection = false,
+    runId,
+    scrapedAt,
+  } = options
+
+  const venueMatches: Record<VenueMatchStrategy, number> = { exact: 0, normalized: 0, fuzzy: 0 }
+  const fieldChanges: Partial<Record<DiffField, number>> = {}
+  const results: ScrapeStats & { linked: number; mergeCandidates: number } = {
     created: 0,
     updated: 0,
     skipped: 0,
     errors: 0,
+    linked: 0,
+    mergeCandidates: 0,
+    fieldChanges,
+    venueMatches,
   }
+  const rejected: ExhibitionDiff[] = []
+  const unmatched: ScrapedExhibition[] = []
+  let diff: ExhibitionDiff[] = []
+  // Documents whose image should be stored once the transaction has committed
+  let imageTargets: string[] = []
+  // Existing or created documents the scraped exhibitions correspond to
+  let seenIds: string[] = []
+  // Documents of the exhibitions rejected before the transaction, which were still scraped
+  const rejectedSeenIds: string[] = []
 
   // Prepare document references and validate all exhibitions first
   const exhibitionData: Array<{
@@ -48,20 +210,46 @@ async function processExhibitionBatch(
     docRef: FirebaseFirestore.DocumentReference
     museumId: string
     canonicalVenueName: string
+    venueNames: string[]
+    venueMatch: VenueMatch
+    startDate?: Timestamp
+    endDate?: Timestamp
   }> = []
 
   for (const exhibition of exhibitions) {
     try {
-      const canonicalVenueName = normalizeVenue(exhibition.venue, museumMaps)
+      // Reject values that cannot be read as dates rather than writing an invalid Timestamp
+      const { startDate, endDate } = parseExhibitionDates(
+        exhibition.startDate,
+        exhibition.endDate,
+        scrapedAt,
+      )
+
+      const venueMatch = resolveVenue(exhibition.venue, museumMaps, venueMatchThreshold)
 
-      if (!canonicalVenueName) {
+      if (!venueMatch) {
         console.error(`Venue not found for exhibition: ${exhibition.venue} - ${exhibition.title}`)
+        rejected.push({
+          title: exhibition.title,
+          venue: exhibition.venue,
+          action: 'reject',
+          reason: `Venue not found: ${exhibition.venue}`,
+        })
+        unmatched.push(exhibition)
         results.errors++
         continue
       }
 
+      const canonicalVenueName = venueMatch.name
+      if (venueMatch.strategy !== 'exact') {
+        console.log(
+          `Venue "${exhibition.venue}" resolved to "${canonicalVenueName}" (${venueMatch.strategy}, score ${venueMatch.score.toFixed(2)})`,
+        )
+      }
+
       const museumId = getMuseumId(canonicalVenueName, museumMaps)
-      const documentId = getExhibitionDocumentId(museumId, exhibition.title)
+      const venueNames = getVenueNames(canonicalVenueName, museumMaps)
+      const documentId = getExhibitionDocumentId(museumId, exhibition.title, canonicalVenueName)
       const docRef = db.collection('exhibition').doc(documentId)
 
       exhibitionData.push({
@@ -70,95 +258,336 @@ async function processExhibitionBatch(
         docRef,
         museumId,
         canonicalVenueName,
+        venueNames,
+        venueMatch,
+        startDate,
+        endDate,
       })
+      venueMatches[venueMatch.strategy]++
     } catch (error) {
-      if (error instanceof NotFoundError) {
-        console.error(error.message)
+      if (error instanceof NotFoundError || error instanceof ValidationError) {
+        console.error(`${error.message} - ${exhibition.title}`)
       } else {
         console.error('Error preparing exhibition:', error)
       }
+      rejected.push({
+        title: exhibition.title,
+        venue: exhibition.venue,
+        action: 'reject',
+        reason: error instanceof Error ? error.message : 'Unknown error',
+      })
       results.errors++
+
+      const documentId = findExhibitionDocumentId(exhibition, museumMaps, venueMatchThreshold)
+      if (documentId) {
+        rejectedSeenIds.push(documentId)
+      }
+    }
+  }
+
+  // Hold exhibitions with unknown venues so they can be reprocessed once an alias is added
+  if (!dryRun && unmatched.length > 0) {
+    try {
+      await recordUnmatchedVenues(unmatched, origin)
+    } catch (error) {
+      console.error('Failed to record unmatched venues:', error)
     }
   }
 
   if (exhibitionData.length === 0) {
-    return results
+    return dryRun
+      ? { ...results, imageTargets, seenIds: rejectedSeenIds, diff: rejected }
+      : { ...results, imageTargets, seenIds: rejectedSeenIds }
   }
 
   // Process all exhibitions in a single transaction
   try {
-    await db.runTransaction(async (transaction) => {
-      // Read phase: Get all existing documents at once
-      const existingDocs = await Promise.all(
-        exhibitionData.map((data) => transaction.get(data.docRef)),
-      )
+    await db.runTransaction(
+      async (transaction) => {
+        // The transaction callback may be retried, so collect the diff and field counts from scratch on each attempt
+        diff = []
+        imageTargets = []
+        seenIds = []
+        for (const field of Object.keys(fieldChanges)) {
+          delete fieldChanges[field as DiffField]
+        }
 
-      // Write phase: Process each exhibition based on existing data
-      for (let i = 0; i < exhibitionData.length; i++) {
-        const { exhibition, documentId, docRef, museumId, canonicalVenueName } = exhibitionData[i]
-        const existingDoc = existingDocs[i]
-
-        if (existingDoc.exists) {
-          // Check for date changes
-          const data = existingDoc.data()
-          if (!data) {
-            console.error(`Document ${documentId} exists but has no data`)
-            results.errors++
-            continue
-          }
+        // Read phase: Get all existing documents at once
+        const existingDocs = await Promise.all(
+          exhibitionData.map((data) => transaction.get(data.docRef)),
+        )
 
-          const startDateChanged = !areDatesEqual(data.startDate, exhibition.startDate)
-          const endDateChanged = !areDatesEqual(data.endDate, exhibition.endDate)
+        // Exhibitions that would be created are compared with the other exhibitions of their museum
+        const newData = exhibitionData.filter((_, i) => !existingDocs[i].exists)
+        let museumExhibitions = new Map<string, ExistingExhibition[]>()
+        let mergeCandidates = new Map<string, MergeCandidateDocument>()
+        if (!skipDuplicateDetection && newData.length > 0) {
+          ;[museumExhibitions, mergeCandidates] = await Promise.all([
+            readMuseumExhibitions(transaction, [...new Set(newData.map((data) => data.museumId))]),
+            readMergeCandidates(
+              transaction,
+              newData.map((data) => data.documentId),
+            ),
+          ])
+        }
+
+        // Write phase: Process each exhibition based on existing data
+        for (let i = 0; i < exhibitionData.length; i++) {
+          const {
+            exhibition,
+            documentId,
+            docRef,
+            museumId,
+            canonicalVenueName,
+            venueNames,
+            venueMatch,
+            startDate,
+            endDate,
+          } = exhibitionData[i]
+          const existingDoc = existingDocs[i]
+
+          const duplicate =
+            !existingDoc.exists && !skipDuplicateDetection
+              ? matchDuplicate(
+                  exhibition.title,
+                  { startDate, endDate },
+                  museumExhibitions.get(museumId) ?? [],
+                  mergeCandidates.get(documentId),
+                  venueNames,
+                )
+              : null
 
-          if (!startDateChanged && !endDateChanged) {
-            console.log(`Skipping duplicate document with id: ${documentId}`)
-            results.skipped++
+          if (duplicate?.action === 'hold') {
+            console.log(
+              `Holding exhibition ${documentId} as a merge candidate of ${duplicate.match.documentId}`,
+            )
+            diff.push({
+              title: exhibition.title,
+              venue: canonicalVenueName,
+              action: 'merge-candidate',
+              documentId,
+              reason: `Similar to existing exhibition "${duplicate.match.title}"`,
+              duplicateOf: duplicate.match,
+            })
+            results.mergeCandidates++
+            // The exhibition it resembles was scraped, even though nothing is written to it
+            seenIds.push(duplicate.match.documentId)
+
+            if (!dryRun) {
+              holdMergeCandidate(
+                transaction,
+                documentId,
+                {
+                  museumId,
+                  existingId: duplicate.match.documentId,
+                  existingTitle: duplicate.match.title,
+                  title: exhibition.title,
+                  similarity: duplicate.match.similarity,
+                  exhibition,
+                  origin,
+                },
+                mergeCandidates.get(documentId),
+              )
+            }
             continue
           }
 
-          // Update existing document with new dates
-          transaction.update(docRef, {
-            ...(exhibition.startDate && {
-              startDate: Timestamp.fromDate(new TZDate(exhibition.startDate, 'Asia/Tokyo')),
-            }),
-            ...(exhibition.endDate && {
-              endDate: Timestamp.fromDate(new TZDate(exhibition.endDate, 'Asia/Tokyo')),
-            }),
-            hasDateChanged: true,
-            updatedAt: Timestamp.now(),
-          })
-
-          console.log(`Updated document with id: ${documentId} (dates changed)`)
-          results.updated++
-        } else {
-          // Create new document
-          const newExhibition = {
-            title: exhibition.title,
-            venue: canonicalVenueName,
-            museumId,
-            ...(exhibition.startDate && {
-              startDate: Timestamp.fromDate(new TZDate(exhibition.startDate, 'Asia/Tokyo')),
-            }),
-            ...(exhibition.endDate && {
-              endDate: Timestamp.fromDate(new TZDate(exhibition.endDate, 'Asia/Tokyo')),
-            }),
-            status: 'pending',
-            origin,
-            isExcluded: false,
-            hasDateChanged: false,
-            createdAt: Timestamp.now(),
-            updatedAt: Timestamp.now(),
-            ...(origin === 'scrape' &&
-              exhibition.officialUrl && { officialUrl: exhibition.officialUrl }),
-          } satisfies NewExhibitionDocument
-
-          transaction.set(docRef, newExhibition)
-
-          console.log(`Added document with id: ${documentId}`)
-          results.created++
+          // A linked exhibition updates the existing document instead of creating a duplicate
+          const linked = duplicate?.action === 'link' ? duplicate : undefined
+          const targetId = linked?.existing.id ?? documentId
+          const targetRef = linked ? db.collection('exhibition').doc(targetId) : docRef
+          if (linked) {
+            console.log(`Linked exhibition ${documentId} to existing document ${targetId}`)
+            results.linked++
+          }
+          seenIds.push(targetId)
+
+          if (existingDoc.exists || linked) {
+            // Check for date changes
+            const data = linked
+              ? linked.existing.data
+              : (existingDoc.data() as ExhibitionDocument | undefined)
+            if (!data) {
+              console.error(`Document ${documentId} exists but has no data`)
+              diff.push({
+                title: exhibition.title,
+                venue: canonicalVenueName,
+                action: 'reject',
+                documentId,
+                reason: 'Existing document has no data',
+              })
+              results.errors++
+              continue
+            }
+
+            const startDateChanged = !areDatesEqual(data.startDate, startDate)
+            const endDateChanged = !areDatesEqual(data.endDate, endDate)
+            const datesChanged = startDateChanged || endDateChanged
+            const { filled, flagged } = diffContentFields(data, exhibition, origin, !!linked)
+
+            if (!datesChanged && isEmpty(filled) && isEmpty(flagged)) {
+              console.log(`Skipping duplicate document with id: ${targetId}`)
+              diff.push({
+                title: exhibition.title,
+                venue: canonicalVenueName,
+                action: 'skip',
+                documentId: targetId,
+                reason: 'No changes',
+                ...(venueMatch.strategy !== 'exact' && { venueMatch }),
+                ...(linked && { duplicateOf: linked.match }),
+              })
+              results.skipped++
+
+              // Unchanged exhibitions are still stamped as seen
+              if (!dryRun) {
+                transaction.update(targetRef, seenFields(Timestamp.now()))
+              }
+              continue
+            }
+
+            const changes: NonNullable<ExhibitionDiff['changes']> = {
+              ...(startDateChanged && {
+                startDate: {
+                  old: formatDate(data.startDate),
+                  new: formatDate(startDate),
+                },
+              }),
+              ...(endDateChanged && {
+                endDate: {
+                  old: formatDate(data.endDate),
+                  new: formatDate(endDate),
+                },
+              }),
+            }
+            for (const [field, value] of Object.entries(filled)) {
+              changes[field as ContentField] = { new: value }
+            }
+            for (const [field, value] of Object.entries(flagged)) {
+              changes[field as ContentField] = {
+                old: data[field as ContentField],
+                new: value,
+                pendingReview: true,
+              }
+            }
+            for (const field of Object.keys(changes)) {
+              fieldChanges[field as DiffField] = (fieldChanges[field as DiffField] ?? 0) + 1
+            }
+
+            diff.push({
+              title: exhibition.title,
+              venue: canonicalVenueName,
+              action: 'update',
+              documentId: targetId,
+              ...(venueMatch.strategy !== 'exact' && { venueMatch }),
+              ...(linked && { duplicateOf: linked.match }),
+              changes,
+            })
+            results.updated++
+
+            if (dryRun) {
+              continue
+            }
+
+            // Overwrite changed dates and missing fields, and hold changes to set fields for review
+            const now = Timestamp.now()
+            transaction.update(targetRef, {
+              ...(datesChanged && {
+                ...(startDate && { startDate }),
+                ...(endDate && { endDate }),
+                hasDateChanged: true,
+              }),
+              ...filled,
+              ...Object.fromEntries(
+                Object.entries(flagged).map(([field, value]) => [`pendingChanges.${field}`, value]),
+              ),
+              ...(!isEmpty(flagged) && { hasPendingChanges: true }),
+              ...(exhibition.extraction && { extraction: exhibition.extraction }),
+              ...seenFields(now),
+              updatedAt: now,
+            })
+            if (filled.imageUrl) {
+              imageTargets.push(targetId)
+            }
+
+            // Record the previous values of the fields that were overwritten; flagged changes
+            // are only recorded once they are accepted
+            const overwritten: ExhibitionHistoryDocument['changes'] = {
+              ...(startDateChanged &&
+                startDate && {
+                  startDate: { ...(data.startDate && { old: data.startDate }), new: startDate },
+                }),
+              ...(endDateChanged &&
+                endDate && {
+                  endDate: { ...(data.endDate && { old: data.endDate }), new: endDate },
+                }),
+              ...Object.fromEntries(
+                Object.entries(filled).map(([field, value]) => [field, { new: value }]),
+              ),
+            }
+            if (!isEmpty(overwritten)) {
+              appendHistory(transaction, targetRef, {
+                changes: overwritten,
+                origin,
+                ...(runId && { runId }),
+                changedAt: now,
+              })
+            }
+
+            console.log(
+              `Updated document with id: ${targetId} (changed: ${Object.keys(changes).join(', ')})`,
+            )
+          } else {
+            diff.push({
+              title: exhibition.title,
+              venue: canonicalVenueName,
+              action: 'create',
+              documentId,
+              ...(venueMatch.strategy !== 'exact' && { venueMatch }),
+            })
+            results.created++
+
+            const now = Timestamp.now()
+            const newExhibition = {
+              title: exhibition.title,
+              venue: canonicalVenueName,
+              museumId,
+              ...(startDate && { startDate }),
+              ...(endDate && { endDate }),
+              status: 'pending',
+              origin,
+              isExcluded: false,
+              hasDateChanged: false,
+              createdAt: now,
+              updatedAt: now,
+              lastSeenAt: now,
+              seenCount: 1,
+              missedRuns: 0,
+              ...(origin === 'scrape' &&
+                exhibition.officialUrl && { officialUrl: exhibition.officialUrl }),
+              ...(exhibition.imageUrl && { imageUrl: exhibition.imageUrl }),
+              ...(exhibition.extraction && { extraction: exhibition.extraction }),
+            } satisfies NewExhibitionDocument
+
+            // Later exhibitions in the batch may be near-duplicates of this one
+            museumExhibitions.get(museumId)?.push({ id: documentId, data: newExhibition })
+
+            if (dryRun) {
+              continue
+            }
+
+            // Create new document
+            transaction.set(docRef, newExhibition)
+            if (newExhibition.imageUrl) {
+              imageTargets.push(documentId)
+            }
+
+            console.log(`Added document with id: ${documentId}`)
+          }
         }
-      }
-    })
+      },
+      // A read-only transaction avoids taking locks on documents we are not going to write
+      dryRun ? { readOnly: true } : undefined,
+    )
   } catch (error) {
     console.error('Transaction failed:', error)
     // If transaction fails, mark all as errors
@@ -166,44 +595,154 @@ async function processExhibitionBatch(
     results.created = 0
     results.updated = 0
     results.skipped = 0
+    results.linked = 0
+    results.mergeCandidates = 0
+    results.fieldChanges = {}
+    imageTargets = []
+    // The exhibitions were still found, so they do not count as missed
+    seenIds = exhibitionData.map(({ documentId }) => documentId)
+    diff = exhibitionData.map(({ exhibition, documentId, canonicalVenueName }) => ({
+      title: exhibition.title,
+      venue: canonicalVenueName,
+      action: 'reject',
+      documentId,
+      reason: 'Transaction failed',
+    }))
   }
 
-  return results
+  return dryRun
+    ? {
+        ...results,
+        imageTargets,
+        seenIds: [...rejectedSeenIds, ...seenIds],
+        diff: [...rejected, ...diff],
+      }
+    : { ...results, imageTargets, seenIds: [...rejectedSeenIds, ...seenIds] }
 }
 
 export async function processScrapeResults(
   exhibitions: Array<ScrapedExhibition>,
   museumMaps: MuseumMaps,
-  origin: 'scrape' | 'scrape-feed',
-): Promise<{
-  created: number
-  updated: number
-  skipped: number
-  errors: number
-}> {
+  origin: ScrapeOrigin,
+  options: ProcessOptions = {},
+): Promise<ProcessResults> {
   // Firestore transaction limit is 500 documents (read + write operations combined)
   // Using 100 to allow safety margin for retries and avoid hitting limits
   const BATCH_SIZE = 100
 
-  const totalResults = {
+  const totalFieldChanges: Partial<Record<DiffField, number>> = {}
+  const totalVenueMatches: Record<VenueMatchStrategy, number> = {
+    exact: 0,
+    normalized: 0,
+    fuzzy: 0,
+  }
+  const totalResults: ScrapeStats & { linked: number; mergeCandidates: number } = {
     created: 0,
     updated: 0,
     skipped: 0,
     errors: 0,
+    linked: 0,
+    mergeCandidates: 0,
+    fieldChanges: totalFieldChanges,
+    venueMatches: totalVenueMatches,
+  }
+  const totalDiff: ExhibitionDiff[] = []
+  const imageTargets: string[] = []
+  const seenIds = new Set<string>()
+
+  // Hold back exhibitions that break semantic validation rules for review
+  let accepted = exhibitions
+  if (!options.skipValidation) {
+    const screened = screenExhibitions(exhibitions, undefined, options.scrapedAt)
+    accepted = screened.accepted
+
+    // Quarantined exhibitions were still scraped, so their documents do not count as missed
+    for (const { exhibition } of screened.quarantined) {
+      const documentId = findExhibitionDocumentId(
+        exhibition,
+        museumMaps,
+        options.venueMatchThreshold,
+      )
+      if (documentId) {
+        seenIds.add(documentId)
+      }
+    }
+
+    try {
+      const released = await quarantineExhibitions(screened.quarantined, origin, options.dryRun)
+      accepted.push(...released)
+
+      const quarantined = screened.quarantined.filter(
+        ({ exhibition }) => !released.includes(exhibition),
+      )
+      totalResults.quarantined = quarantined.length
+      for (const { exhibition, violations } of quarantined) {
+        console.log(
+          `Quarantined exhibition: ${exhibition.venue} - ${exhibition.title} (${violations.map((v) => v.code).join(', ')})`,
+        )
+        totalDiff.push({
+          title: exhibition.title,
+          venue: exhibition.venue,
+          action: 'quarantine',
+          reason: violations.map((v) => `${v.code}: ${v.message}`).join('; '),
+        })
+      }
+    } catch (error) {
+      console.error('Failed to quarantine exhibitions:', error)
+      totalResults.errors += screened.quarantined.length
+    }
   }
 
   // Process exhibitions in batches
-  for (let i = 0; i < exhibitions.length; i += BATCH_SIZE) {
-    const batch = exhibitions.slice(i, i + BATCH_SIZE)
+  for (let i = 0; i < accepted.length; i += BATCH_SIZE) {
+    const batch = accepted.slice(i, i + BATCH_SIZE)
     console.log(`Processing batch ${Math.floor(i / BATCH_SIZE) + 1} (${batch.length} exhibitions)`)
 
-    const batchResults = await processExhibitionBatch(batch, museumMaps, origin)
+    const batchResults = await processExhibitionBatch(batch, museumMaps, origin, options)
 
     totalResults.created += batchResults.created
     totalResults.updated += batchResults.updated
     totalResults.skipped += batchResults.skipped
     totalResults.errors += batchResults.errors
+    totalResults.linked += batchResults.linked ?? 0
+    totalResults.mergeCandidates += batchResults.mergeCandidates ?? 0
+    for (const [field, count] of Object.entries(batchResults.fieldChanges ?? {})) {
+      totalFieldChanges[field as DiffField] = (totalFieldChanges[field as DiffField] ?? 0) + count
+    }
+    for (const [strategy, count] of Object.entries(batchResults.venueMatches ?? {})) {
+      totalVenueMatches[strategy as VenueMatchStrategy] += count
+    }
+    totalDiff.push(...(batchResults.diff ?? []))
+    imageTargets.push(...batchResults.imageTargets)
+    for (const id of batchResults.seenIds) {
+      seenIds.add(id)
+    }
+  }
+
+  // Count a missed run for the exhibitions of the covered museums that were not found
+  if (options.coveredMuseumIds && options.coveredMuseumIds.length > 0) {
+    try {
+      totalResults.missing = await detectMissingExhibitions(
+        options.coveredMuseumIds,
+        seenIds,
+        options.dryRun,
+      )
+    } catch (error) {
+      console.error('Failed to detect missing exhibitions:', error)
+    }
+  }
+
+  // Images are downloaded after the exhibitions are committed, as they are slow and may fail
+  if (!options.dryRun && imageTargets.length > 0) {
+    try {
+      const storage = getImageStorage()
+      if (storage) {
+        totalResults.images = await storeExhibitionImages(imageTargets, storage)
+      }
+    } catch (error) {
+      console.error('Failed to store exhibition images:', error)
+    }
   }
 
-  return totalResults
+  return options.dryRun ? { ...totalResults, diff: totalDiff } : totalResults
 }
@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+  fetchEnabledFeedSources,
+  createFeedSource,
+  updateFeedSource,
+  deleteFeedSource,
+  seedFeedSources,
+} from './feed-source.service.js'
+import { DEFAULT_FEED_SOURCES } from '../config/feed-source.config.js'
+import { ConflictError, NotFoundError } from '../errors/app-error.js'
+import { createMockTransaction, mockRunTransaction } from '../test/firestore.js'
+import type { MockTransaction } from '../test/firestore.js'
+import type { FeedSourceDocument } from '../types/feed-source.js'
+
+// Mock Firestore
+vi.mock('../lib/firestore.js', () => ({
+  default: {
+    collection: vi.fn(),
+    runTransaction: vi.fn(),
+  },
+}))
+
+const tokyoArtBeat = {
+  name: 'Tokyo Art Beat',
+  url: 'https://www.tokyoartbeat.com/events/orderBy/latest',
+  crawlDepth: 1,
+  enabled: true,
+  region: '東京',
+} satisfies FeedSourceDocument
+
+async function setupTransaction(mockTransaction: MockTransaction, docId = 'feed1') {
+  const db = await import('../lib/firestore.js')
+  const collection = {
+    doc: vi.fn().mockReturnValue({ id: docId }),
+    where: vi.fn().mockReturnValue({}),
+  }
+  vi.mocked(db.default.collection).mockReturnValue(collection as never)
+  mockRunTransaction(mockTransaction)
+  return collection
+}
+
+describe('feed-source.service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('fetchEnabledFeedSources', () => {
+    it('should fetch enabled feed sources with their IDs', async () => {
+      const db = await import('../lib/firestore.js')
+      const query = {
+        get: vi.fn().mockResolvedValue({ docs: [{ id: 'feed1', data: () => tokyoArtBeat }] }),
+      }
+      const where = vi.fn().mockReturnValue(query)
+      vi.mocked(db.default.collection).mockReturnValue({ where } as never)
+
+      const feeds = await fetchEnabledFeedSources()
+
+      expect(where).toHaveBeenCalledWith('enabled', '==', true)
+      expect(feeds).toEqual([{ ...tokyoArtBeat, id: 'feed1' }])
+    })
+  })
+
+  describe('createFeedSource', () => {
+    it('should create a feed source with a generated ID', async () => {
+      const mockTransaction = createMockTransaction({
+        get: vi.fn().mockResolvedValue({ docs: [] }),
+      })
+      await setupTransaction(mockTransaction, 'new-feed')
+
+      const result = await createFeedSource(tokyoArtBeat)
+
+      expect(result).toEqual({ ...tokyoArtBeat, id: 'new-feed' })
+      expect(mockTransaction.set).toHaveBeenCalledWith({ id: 'new-feed' }, tokyoArtBeat)
+    })
+
+    it('should reject a URL already used by another feed source', async () => {
+      const mockTransaction = createMockTransaction({
+        get: vi.fn().mockResolvedValue({ docs: [{ id: 'feed1', data: () => tokyoArtBeat }] }),
+      })
+      await setupTransaction(mockTransaction, 'new-feed')
+
+      await expect(createFeedSource(tokyoArtBeat)).rejects.toThrow(ConflictError)
+      expect(mockTransaction.set).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('updateFeedSource', () => {
+    it('should allow keeping its own URL', async () => {
+      const mockTransaction = createMockTransaction({
+        get: vi
+          .fn()
+          .mockResolvedValueOnce({ exists: true, data: () => tokyoArtBeat })
+          .mockResolvedValueOnce({ docs: [{ id: 'feed1', data: () => tokyoArtBeat }] }),
+      })
+      await setupTransaction(mockTransaction)
+
+      const result = await updateFeedSource('feed1', { url: tokyoArtBeat.url, enabled: false })
+
+      expect(result.enabled).toBe(false)
+      expect(mockTransaction.update).toHaveBeenCalledWith(
+        { id: 'feed1' },
+        { url: tokyoArtBeat.url, enabled: false },
+      )
+    })
+
+    it('should throw NotFoundError for unknown feed sources', async () => {
+      const mockTransaction = createMockTransaction({
+        get: vi.fn().mockResolvedValue({ exists: false }),
+      })
+      await setupTransaction(mockTransaction)
+
+      await expect(updateFeedSource('missing', { enabled: false })).rejects.toThrow(NotFoundError)
+    })
+  })
+
+  describe('deleteFeedSource', () => {
+    it('should delete an existing feed source', async () => {
+      const mockTransaction = createMockTransaction({
+        get: vi.fn().mockResolvedValue({ exists: true, data: () => tokyoArtBeat }),
+      })
+      await setupTransaction(mockTransaction)
+
+      await deleteFeedSource('feed1')
+
+      expect(mockTransaction.delete).toHaveBeenCalledWith({ id: 'feed1' })
+    })
+  })
+
+  describe('seedFeedSources', () => {
+    it('should create the default feed sources that are missing', async () => {
+      const mockTransaction = createMockTransaction({
+        get: vi.fn().mockResolvedValue({ empty: true, docs: [] }),
+      })
+      const collection = await setupTransaction(mockTransaction, 'seeded')
+
+      const created = await seedFeedSources()
+
+      expect(created).toEqual(DEFAULT_FEED_SOURCES.map((source) => ({ ...source, id: 'seeded' })))
+      expect(collection.where).toHaveBeenCalledWith('url', '==', DEFAULT_FEED_SOURCES[0].url)
+      expect(mockTransaction.set).toHaveBeenCalledWith({ id: 'seeded' }, DEFAULT_FEED_SOURCES[0])
+    })
+
+    it('should skip feed sources whose URL is already registered', async () => {
+      const mockTransaction = createMockTransaction({
+        get: vi.fn().mockResolvedValue({ empty: false, docs: [{ id: 'feed1' }] }),
+      })
+      await setupTransaction(mockTransaction)
+
+      const created = await seedFeedSources()
+
+      expect(created).toEqual([])
+      expect(mockTransaction.set).not.toHaveBeenCalled()
+    })
+  })
+})
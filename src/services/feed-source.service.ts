@@ -0,0 +1,125 @@
+import db from '../lib/firestore.js'
+import { ConflictError, NotFoundError } from '../errors/app-error.js'
+import { DEFAULT_FEED_SOURCES } from '../config/feed-source.config.js'
+import type {
+  FeedSource,
+  FeedSourceInput,
+  FeedSourceUpdate,
+} from '../schemas/feed-source.schema.js'
+import type { FeedSourceDocument } from '../types/feed-source.js'
+
+function toFeedSources(snapshot: FirebaseFirestore.QuerySnapshot): FeedSource[] {
+  return snapshot.docs.map((doc) => ({
+    ...(doc.data() as FeedSourceDocument),
+    id: doc.id,
+  }))
+}
+
+export async function fetchAllFeedSources(): Promise<FeedSource[]> {
+  return toFeedSources(await db.collection('feedSource').get())
+}
+
+export async function fetchEnabledFeedSources(): Promise<FeedSource[]> {
+  return toFeedSources(await db.collection('feedSource').where('enabled', '==', true).get())
+}
+
+export async function fetchFeedSourceById(id: string): Promise<FeedSource> {
+  const doc = await db.collection('feedSource').doc(id).get()
+  if (!doc.exists) {
+    throw new NotFoundError(`Feed source not found: ${id}`)
+  }
+  return {
+    ...(doc.data() as FeedSourceDocument),
+    id: doc.id,
+  }
+}
+
+/**
+ * Throw if another feed source already scrapes the URL
+ */
+async function assertUrlAvailable(
+  transaction: FirebaseFirestore.Transaction,
+  url: string,
+  excludeId?: string,
+): Promise<void> {
+  const snapshot = await transaction.get(db.collection('feedSource').where('url', '==', url))
+  const other = snapshot.docs.find((doc) => doc.id !== excludeId)
+  if (other) {
+    throw new ConflictError(`URL already used by feed source ${other.id}: ${url}`)
+  }
+}
+
+export async function createFeedSource(input: FeedSourceInput): Promise<FeedSource> {
+  const docRef = db.collection('feedSource').doc()
+
+  await db.runTransaction(async (transaction) => {
+    await assertUrlAvailable(transaction, input.url)
+    transaction.set(docRef, input satisfies FeedSourceDocument)
+  })
+
+  return { ...input, id: docRef.id }
+}
+
+export async function updateFeedSource(id: string, update: FeedSourceUpdate): Promise<FeedSource> {
+  const docRef = db.collection('feedSource').doc(id)
+
+  return db.runTransaction(async (transaction) => {
+    const doc = await transaction.get(docRef)
+    if (!doc.exists) {
+      throw new NotFoundError(`Feed source not found: ${id}`)
+    }
+
+    if (update.url !== undefined) {
+      await assertUrlAvailable(transaction, update.url, id)
+    }
+
+    transaction.update(docRef, update)
+    return {
+      ...(doc.data() as FeedSourceDocument),
+      ...update,
+      id,
+    }
+  })
+}
+
+export async function deleteFeedSource(id: string): Promise<void> {
+  const docRef = db.collection('feedSource').doc(id)
+
+  await db.runTransaction(async (transaction) => {
+    const doc = await transaction.get(docRef)
+    if (!doc.exists) {
+      throw new NotFoundError(`Feed source not found: ${id}`)
+    }
+
+    transaction.delete(docRef)
+  })
+}
+
+/**
+ * Register the default feed sources that are missing
+ * Sources are matched by URL, so running the seed again does not create duplicates.
+ *
+ * @returns The feed sources that were created
+ */
+export async function seedFeedSources(): Promise<FeedSource[]> {
+  const created: FeedSource[] = []
+
+  for (const source of DEFAULT_FEED_SOURCES) {
+    const docRef = db.collection('feedSource').doc()
+    const isNew = await db.runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(
+        db.collection('feedSource').where('url', '==', source.url),
+      )
+      if (!snapshot.empty) {
+        return false
+      }
+      transaction.set(docRef, source)
+      return true
+    })
+    if (isNew) {
+      created.push({ ...source, id: docRef.id })
+    }
+  }
+
+  return created
+}
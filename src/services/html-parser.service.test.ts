@@ -0,0 +1,236 @@
+import { describe, it, expect, vi } from 'vitest'
+import { getHtmlParser, parseStructuredData, parseWithSelectors } from './html-parser.service.js'
+import { quarantineExhibitions } from './quarantined-exhibition.service.js'
+import { holdMergeCandidate } from './merge-candidate.service.js'
+import { ValidationError } from '../errors/app-error.js'
+import { createMockTransaction, mockRunTransaction } from '../test/firestore.js'
+import type { Museum } from '../schemas/museum.schema.js'
+
+// Mock Firestore
+vi.mock('../lib/firestore.js', () => ({
+  default: {
+    collection: vi.fn(),
+    runTransaction: vi.fn(),
+  },
+}))
+
+const museum = {
+  id: 'museum1',
+  name: '国立西洋美術館',
+  address: '',
+  access: '',
+  openingInformation: '',
+  officialUrl: 'https://museum.example/',
+  scrapeUrl: 'https://museum.example/exhibitions/',
+  scrapeEnabled: true,
+  venueType: '美術館',
+  area: '上野',
+  scraper: {
+    provider: 'html',
+    selectors: {
+      item: '.exhibition',
+      title: 'h3',
+      date: '.period',
+      image: 'img',
+    },
+  },
+} satisfies Museum
+
+const html = `
+  <ul>
+    <li class="exhibition">
+      <a href="/exhibitions/2025/monet.html">
+        <img src="/images/monet.jpg">
+        <h3>
+          モネ\u3000睡蓮のとき
+        </h3>
+        <p class="period">2025年3月1日（土）～5月6日（火）</p>
+      </a>
+    </li>
+    <li class="exhibition">
+      <h3></h3>
+    </li>
+  </ul>
+`
+
+describe('html-parser.service', () => {
+  describe('parseWithSelectors', () => {
+    it('should extract exhibitions with the configured selectors', () => {
+      const exhibitions = parseWithSelectors(html, { url: museum.scrapeUrl, museum })
+
+      expect(exhibitions).toEqual([
+        {
+          title: 'モネ\u3000睡蓮のとき',
+          venue: '国立西洋美術館',
+          startDate: '2025年3月1日(土)',
+          endDate: '5月6日(火)',
+          officialUrl: 'https://museum.example/exhibitions/2025/monet.html',
+          imageUrl: 'https://museum.example/images/monet.jpg',
+          extraction: { method: 'selectors' },
+        },
+      ])
+    })
+
+    it('should throw ValidationError when no selectors are configured', () => {
+      expect(() =>
+        parseWithSelectors(html, {
+          url: museum.scrapeUrl,
+          museum: { ...museum, scraper: { provider: 'html' } },
+        }),
+      ).toThrow(ValidationError)
+    })
+  })
+
+  describe('parseStructuredData', () => {
+    it('should extract exhibition events from JSON-LD, including those in a graph', () => {
+      const page = `
+        <script type="application/ld+json">{ "invalid": </script>
+        <script type="application/ld+json">
+          {
+            "@context": "https://schema.org",
+            "@graph": [
+              { "@type": "Museum", "name": "国立西洋美術館" },
+              {
+                "@type": "ExhibitionEvent",
+                "name": "モネ\u3000睡蓮のとき",
+                "startDate": "2025-03-01",
+                "endDate": "2025-05-06T17:30:00+09:00",
+                "location": { "@type": "Museum", "name": "国立西洋美術館" },
+                "url": "/exhibitions/2025/monet.html",
+                "image": [{ "@type": "ImageObject", "url": "/images/monet.jpg" }]
+              }
+            ]
+          }
+        </script>
+        <script type="application/ld+json">
+          [
+            { "@type": "VisualArtsEvent", "name": "ゴッホ展", "startDate": "2025-06-01" },
+            { "@type": "Event", "name": "ギャラリートーク", "startDate": "2025-06-08" }
+          ]
+        </script>
+      `
+
+      const exhibitions = parseStructuredData(page, { url: museum.scrapeUrl, museum })
+
+      expect(exhibitions).toStrictEqual([
+        {
+          title: 'モネ\u3000睡蓮のとき',
+          venue: '国立西洋美術館',
+          startDate: '2025-03-01',
+          endDate: '2025-05-06T17:30:00+09:00',
+          officialUrl: 'https://museum.example/exhibitions/2025/monet.html',
+          imageUrl: 'https://museum.example/images/monet.jpg',
+          extraction: { method: 'json-ld' },
+        },
+        {
+          title: 'ゴッホ展',
+          venue: '国立西洋美術館',
+          startDate: '2025-06-01',
+          extraction: { method: 'json-ld' },
+        },
+      ])
+    })
+
+    it('should extract events from microdata when the page has no JSON-LD events', () => {
+      const page = `
+        <article itemscope itemtype="https://schema.org/ExhibitionEvent">
+          <a itemprop="url" href="/exhibitions/2025/monet.html">
+            <h3 itemprop="name">モネ\u3000睡蓮のとき</h3>
+          </a>
+          <time itemprop="startDate" datetime="2025-03-01">3月1日</time>〜
+          <time itemprop="endDate" datetime="2025-05-06">5月6日</time>
+          <div itemprop="location" itemscope itemtype="https://schema.org/Place">
+            <span itemprop="name">企画展示館</span>
+          </div>
+          <div itemprop="subEvent" itemscope itemtype="https://schema.org/Event">
+            <span itemprop="name">ギャラリートーク</span>
+          </div>
+        </article>
+      `
+
+      const exhibitions = parseStructuredData(page, { url: museum.scrapeUrl, museum })
+
+      expect(exhibitions).toStrictEqual([
+        {
+          title: 'モネ\u3000睡蓮のとき',
+          venue: '企画展示館',
+          startDate: '2025-03-01',
+          endDate: '2025-05-06',
+          officialUrl: 'https://museum.example/exhibitions/2025/monet.html',
+          extraction: { method: 'microdata' },
+        },
+      ])
+    })
+
+    it('should return nothing for pages without structured events', () => {
+      expect(parseStructuredData(html, { url: museum.scrapeUrl, museum })).toEqual([])
+    })
+
+    it('should not read plain events as exhibitions', () => {
+      const page = `
+        <script type="application/ld+json">
+          { "@type": "Event", "name": "ギャラリートーク", "startDate": "2025-06-08" }
+        </script>
+        <div itemscope itemtype="https://schema.org/Event">
+          <span itemprop="name">ワークショップ</span>
+        </div>
+      `
+
+      expect(parseStructuredData(page, { url: museum.scrapeUrl, museum })).toEqual([])
+    })
+  })
+
+  describe('getHtmlParser', () => {
+    it('should default to the selectors parser', () => {
+      expect(getHtmlParser()).toBe(parseWithSelectors)
+    })
+  })
+
+  describe('storing parsed exhibitions', () => {
+    // Firestore rejects undefined values, so fields a page does not provide must be left out
+    const [exhibition] = parseWithSelectors(`<div class="exhibition"><h3>常設展</h3></div>`, {
+      url: museum.scrapeUrl,
+      museum,
+    })
+    const stored = { title: '常設展', venue: '国立西洋美術館', extraction: { method: 'selectors' } }
+
+    async function setupFirestore() {
+      const mockTransaction = createMockTransaction({
+        getAll: vi.fn().mockResolvedValue([{ exists: false }]),
+      })
+      const db = await import('../lib/firestore.js')
+      vi.mocked(db.default.collection).mockReturnValue({
+        doc: vi.fn().mockImplementation((id: string) => ({ id })),
+      } as never)
+      mockRunTransaction(mockTransaction)
+      return mockTransaction
+    }
+
+    it('should quarantine an exhibition without the fields it lacks', async () => {
+      const mockTransaction = await setupFirestore()
+
+      await quarantineExhibitions(
+        [{ exhibition, violations: [{ code: 'BLOCKED_TITLE', message: 'Blocked title' }] }],
+        'scrape',
+      )
+
+      expect(mockTransaction.set.mock.calls[0][1].exhibition).toStrictEqual(stored)
+    })
+
+    it('should hold a merge candidate without the fields it lacks', async () => {
+      const mockTransaction = await setupFirestore()
+
+      holdMergeCandidate(mockTransaction, 'museum1_abc', {
+        museumId: 'museum1',
+        existingId: 'museum1_def',
+        existingTitle: '常設展示',
+        title: exhibition.title,
+        similarity: 0.9,
+        exhibition,
+        origin: 'scrape',
+      })
+
+      expect(mockTransaction.set.mock.calls[0][1].exhibition).toStrictEqual(stored)
+    })
+  })
+})
@@ -0,0 +1,239 @@
+import * as cheerio from 'cheerio'
+import { ValidationError } from '../errors/app-error.js'
+import { splitDateRange } from '../utils/date.js'
+import { resolveUrl } from '../utils/http.js'
+import type { ScrapedExhibition } from '../schemas/exhibition.schema.js'
+import type { HtmlParser, HtmlParserName, ScrapeTarget } from '../types/scraper.js'
+
+type OptionalFields = Pick<ScrapedExhibition, 'startDate' | 'endDate' | 'officialUrl' | 'imageUrl'>
+
+/**
+ * Keep only the optional fields a page provides
+ * Firestore rejects undefined values, and scraped exhibitions are stored whole when they are
+ * quarantined, held as merge candidates or held for an unmatched venue.
+ */
+function optionalFields({ startDate, endDate, officialUrl, imageUrl }: OptionalFields) {
+  return {
+    ...(startDate && { startDate }),
+    ...(endDate && { endDate }),
+    ...(officialUrl && { officialUrl }),
+    ...(imageUrl && { imageUrl }),
+  }
+}
+
+/**
+ * Collapse markup whitespace, keeping full-width spaces which are part of many titles
+ */
+function collapseWhitespace(text: string): string {
+  return text.replace(/[ \t\r\n]+/g, ' ').trim()
+}
+
+/**
+ * Extract exhibitions using the CSS selectors configured on the museum
+ * The venue is the museum itself, as the page is the museum's own exhibition listing.
+ */
+export const parseWithSelectors: HtmlParser = (html, { url, museum }) => {
+  const selectors = museum?.scraper?.selectors
+  if (!museum || !selectors) {
+    throw new ValidationError(`No selectors configured for ${museum?.id ?? url}`)
+  }
+
+  const $ = cheerio.load(html)
+  const exhibitions: ScrapedExhibition[] = []
+
+  $(selectors.item).each((_, element) => {
+    const item = $(element)
+    const text = (selector?: string) =>
+      selector ? collapseWhitespace(item.find(selector).first().text()) : undefined
+
+    const title = text(selectors.title)
+    if (!title) {
+      return
+    }
+
+    const dates = selectors.date
+      ? splitDateRange(text(selectors.date) ?? '')
+      : { startDate: text(selectors.startDate), endDate: text(selectors.endDate) }
+    const link = item
+      .find(selectors.link ?? 'a[href]')
+      .first()
+      .attr('href')
+    const image = selectors.image ? item.find(selectors.image).first().attr('src') : undefined
+
+    exhibitions.push({
+      title,
+      venue: museum.name,
+      ...optionalFields({
+        startDate: dates.startDate,
+        endDate: dates.endDate,
+        officialUrl: resolveUrl(link, url),
+        imageUrl: resolveUrl(image, url),
+      }),
+      extraction: { method: 'selectors' },
+    })
+  })
+
+  return exhibitions
+}
+
+// schema.org types whose items are read as exhibitions
+// Plain events are left out, since museums also mark up talks, workshops and concerts as events.
+const EVENT_TYPES = new Set(['ExhibitionEvent', 'VisualArtsEvent'])
+
+function isEventType(type: unknown): boolean {
+  const types = Array.isArray(type) ? type : [type]
+  return types.some(
+    (value) =>
+      typeof value === 'string' && EVENT_TYPES.has(value.replace(/^https?:\/\/schema\.org\//, '')),
+  )
+}
+
+/**
+ * Read a JSON-LD value as text, taking the first of several values
+ * Objects are read through `key` (e.g. the `name` of a Place or the `url` of an ImageObject).
+ */
+function jsonLdText(value: unknown, key?: string): string | undefined {
+  if (Array.isArray(value)) {
+    return jsonLdText(value[0], key)
+  }
+  if (typeof value === 'string') {
+    return collapseWhitespace(value) || undefined
+  }
+  if (value && typeof value === 'object') {
+    const node = value as Record<string, unknown>
+    return jsonLdText(node['@value'] ?? (key ? node[key] : undefined))
+  }
+  return undefined
+}
+
+/**
+ * Collect the event nodes of a JSON-LD document, including those nested in `@graph` or other nodes
+ */
+function collectJsonLdEvents(value: unknown, events: Array<Record<string, unknown>>): void {
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectJsonLdEvents(item, events))
+    return
+  }
+  if (!value || typeof value !== 'object') {
+    return
+  }
+
+  const node = value as Record<string, unknown>
+  if (isEventType(node['@type'])) {
+    events.push(node)
+    return
+  }
+  Object.values(node).forEach((item) => collectJsonLdEvents(item, events))
+}
+
+function parseJsonLd($: cheerio.CheerioAPI, { url, museum }: ScrapeTarget): ScrapedExhibition[] {
+  const events: Array<Record<string, unknown>> = []
+  $('script[type="application/ld+json"]').each((_, element) => {
+    try {
+      collectJsonLdEvents(JSON.parse($(element).text()), events)
+    } catch {
+      // Pages sometimes publish broken JSON-LD; the other blocks are still read
+      console.warn(`Skipping invalid JSON-LD on ${url}`)
+    }
+  })
+
+  return events.flatMap((event) => {
+    const title = jsonLdText(event.name)
+    const venue = jsonLdText(event.location, 'name') ?? museum?.name
+    if (!title || !venue) {
+      return []
+    }
+    return [
+      {
+        title,
+        venue,
+        ...optionalFields({
+          startDate: jsonLdText(event.startDate),
+          endDate: jsonLdText(event.endDate),
+          officialUrl: resolveUrl(jsonLdText(event.url, '@id'), url),
+          imageUrl: resolveUrl(jsonLdText(event.image, 'url'), url),
+        }),
+        extraction: { method: 'json-ld' as const },
+      },
+    ]
+  })
+}
+
+function parseMicrodata($: cheerio.CheerioAPI, { url, museum }: ScrapeTarget): ScrapedExhibition[] {
+  const exhibitions: ScrapedExhibition[] = []
+
+  $('[itemscope][itemtype]').each((_, element) => {
+    const item = $(element)
+    const itemtype = item.attr('itemtype') ?? ''
+    // Events nested in another event (e.g. a gallery talk) are not exhibitions of their own
+    if (!isEventType(itemtype.split(/\s+/)) || item.parents('[itemscope][itemtype]').length > 0) {
+      return
+    }
+
+    // Properties of this item itself, not of the items nested in it
+    const property = (name: string) =>
+      item
+        .find(`[itemprop~="${name}"]`)
+        .filter((_, prop) => $(prop).parent().closest('[itemscope]').is(item))
+        .first()
+    const value = (name: string) => {
+      const prop = property(name)
+      if (prop.length === 0) {
+        return undefined
+      }
+      const text =
+        prop.attr('content') ??
+        prop.attr('datetime') ??
+        (prop.is('a, link') ? prop.attr('href') : undefined) ??
+        (prop.is('img') ? prop.attr('src') : undefined) ??
+        prop.text()
+      return collapseWhitespace(text) || undefined
+    }
+
+    const title = value('name')
+    const location = property('location')
+    const venue =
+      (location.is('[itemscope]')
+        ? collapseWhitespace(location.find('[itemprop~="name"]').first().text())
+        : collapseWhitespace(location.text())) || museum?.name
+    if (!title || !venue) {
+      return
+    }
+
+    exhibitions.push({
+      title,
+      venue,
+      ...optionalFields({
+        startDate: value('startDate'),
+        endDate: value('endDate'),
+        officialUrl: resolveUrl(value('url'), url),
+        imageUrl: resolveUrl(value('image'), url),
+      }),
+      extraction: { method: 'microdata' },
+    })
+  })
+
+  return exhibitions
+}
+
+/**
+ * Extract the schema.org exhibition events a page publishes as JSON-LD, or as microdata when it
+ * has no JSON-LD events. Events without a location are held by the museum whose page lists them.
+ */
+export const parseStructuredData: HtmlParser = (html, target) => {
+  const $ = cheerio.load(html)
+  const exhibitions = parseJsonLd($, target)
+  return exhibitions.length > 0 ? exhibitions : parseMicrodata($, target)
+}
+
+const HTML_PARSERS: Record<HtmlParserName, HtmlParser> = {
+  selectors: parseWithSelectors,
+}
+
+export function getHtmlParser(name: HtmlParserName = 'selectors'): HtmlParser {
+  const parser = HTML_PARSERS[name]
+  if (!parser) {
+    throw new ValidationError(`Unknown HTML parser: ${name}`)
+  }
+  return parser
+}
@@ -0,0 +1,225 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+  resolveImageUrl,
+  downloadImage,
+  storeExhibitionImage,
+  storeExhibitionImages,
+} from './image.service.js'
+import { lookup } from 'node:dns/promises'
+import { ExternalServiceError, NotFoundError, ValidationError } from '../errors/app-error.js'
+
+// Mock Firestore
+vi.mock('../lib/firestore.js', () => ({
+  default: {
+    collection: vi.fn(),
+  },
+}))
+
+vi.mock('node:dns/promises', () => ({
+  lookup: vi.fn(),
+}))
+
+/**
+ * Build the header of a PNG image with the given dimensions
+ */
+function createPng(width: number, height: number): Buffer {
+  const data = Buffer.alloc(33)
+  data.writeUInt32BE(0x89504e47, 0)
+  data.writeUInt32BE(0x0d0a1a0a, 4)
+  data.writeUInt32BE(13, 8)
+  data.write('IHDR', 12, 'ascii')
+  data.writeUInt32BE(width, 16)
+  data.writeUInt32BE(height, 20)
+  return data
+}
+
+function mockFetch(body: Buffer | string | ReadableStream<Uint8Array>, init: ResponseInit = {}) {
+  const fetch = vi.fn(async () => new Response(body, init))
+  vi.stubGlobal('fetch', fetch)
+  return fetch
+}
+
+async function setupFirestore(exists: boolean, data?: unknown) {
+  const db = await import('../lib/firestore.js')
+  const docRef = {
+    get: vi.fn().mockResolvedValue({ exists, data: () => data }),
+    update: vi.fn(),
+  }
+  vi.mocked(db.default.collection).mockReturnValue({
+    doc: vi.fn().mockReturnValue(docRef),
+  } as never)
+  return docRef
+}
+
+describe('image.service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.unstubAllGlobals()
+    vi.mocked(lookup).mockResolvedValue([{ address: '203.0.113.10', family: 4 }] as never)
+  })
+
+  describe('resolveImageUrl', () => {
+    it('should resolve relative URLs against the page URL', () => {
+      expect(resolveImageUrl('/img/main.jpg', 'https://museum.example/exhibitions/1')).toBe(
+        'https://museum.example/img/main.jpg',
+      )
+    })
+
+    it('should reject URLs that are not http(s)', () => {
+      expect(() => resolveImageUrl('data:image/png;base64,AAAA')).toThrow(ValidationError)
+      expect(() => resolveImageUrl('/img/main.jpg')).toThrow(ValidationError)
+    })
+  })
+
+  describe('downloadImage', () => {
+    it('should return the image with its dimensions', async () => {
+      mockFetch(createPng(800, 600), { headers: { 'content-type': 'image/png' } })
+
+      const result = await downloadImage('https://museum.example/main.png')
+
+      expect(result.contentType).toBe('image/png')
+      expect(result.dimensions).toEqual({ format: 'png', width: 800, height: 600 })
+    })
+
+    it('should throw ExternalServiceError for error responses', async () => {
+      mockFetch('Not Found', { status: 404 })
+
+      await expect(downloadImage('https://museum.example/main.png')).rejects.toThrow(
+        ExternalServiceError,
+      )
+    })
+
+    it('should reject unsupported content types', async () => {
+      mockFetch('<html></html>', { headers: { 'content-type': 'text/html; charset=utf-8' } })
+
+      await expect(downloadImage('https://museum.example/main.png')).rejects.toThrow(
+        'Unsupported image content type: text/html',
+      )
+    })
+
+    it('should stop reading bodies without a Content-Length once they grow too large', async () => {
+      let chunks = 0
+      const body = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          chunks++
+          controller.enqueue(new Uint8Array(1024 * 1024))
+        },
+      })
+      mockFetch(body, { headers: { 'content-type': 'image/png' } })
+
+      await expect(downloadImage('https://museum.example/main.png')).rejects.toThrow(
+        'Image is too large',
+      )
+      expect(chunks).toBeLessThanOrEqual(12)
+    })
+
+    it('should reject content that does not match the content type', async () => {
+      mockFetch('<html></html>', { headers: { 'content-type': 'image/png' } })
+
+      await expect(downloadImage('https://museum.example/main.png')).rejects.toThrow(
+        ValidationError,
+      )
+    })
+
+    it('should not download from hosts with private addresses', async () => {
+      const fetch = mockFetch(createPng(800, 600), { headers: { 'content-type': 'image/png' } })
+      vi.mocked(lookup).mockResolvedValue([{ address: '169.254.169.254', family: 4 }] as never)
+
+      await expect(downloadImage('http://metadata.google.internal/main.png')).rejects.toThrow(
+        'does not resolve to a public address',
+      )
+      expect(fetch).not.toHaveBeenCalled()
+    })
+
+    it('should check the target of each redirect', async () => {
+      const fetch = vi.fn(async (url: string) =>
+        url === 'https://museum.example/main.png'
+          ? new Response(null, { status: 302, headers: { location: '/images/main.png' } })
+          : new Response(null, { status: 302, headers: { location: 'http://127.0.0.1/admin' } }),
+      )
+      vi.stubGlobal('fetch', fetch)
+      // IP literals resolve to themselves
+      vi.mocked(lookup).mockImplementation((async (hostname: string) => [
+        { address: hostname === 'museum.example' ? '203.0.113.10' : hostname, family: 4 },
+      ]) as never)
+
+      await expect(downloadImage('https://museum.example/main.png')).rejects.toThrow(
+        'Image host 127.0.0.1 does not resolve to a public address',
+      )
+      expect(fetch).toHaveBeenCalledTimes(2)
+      expect(fetch).toHaveBeenLastCalledWith(
+        'https://museum.example/images/main.png',
+        expect.objectContaining({ redirect: 'manual' }),
+      )
+    })
+
+    it('should reject images that are too small', async () => {
+      mockFetch(createPng(32, 32), { headers: { 'content-type': 'image/png' } })
+
+      await expect(downloadImage('https://museum.example/icon.png')).rejects.toThrow(
+        'Image is too small: 32x32',
+      )
+    })
+  })
+
+  describe('storeExhibitionImage', () => {
+    it('should store the image and record it on the exhibition', async () => {
+      const docRef = await setupFirestore(true, {
+        imageUrl: 'https://museum.example/exhibitions/main.png',
+      })
+      mockFetch(createPng(800, 600), { headers: { 'content-type': 'image/png' } })
+      const storage = {
+        save: vi.fn(async (path: string) => `gs://bucket/${path}`),
+        copy: vi.fn(),
+      }
+
+      const image = await storeExhibitionImage('ex1', storage)
+
+      expect(storage.save).toHaveBeenCalledWith(
+        expect.stringMatching(/^exhibitions\/ex1\/[0-9a-f]{16}\.png$/),
+        expect.any(Buffer),
+        'image/png',
+      )
+      expect(image).toEqual({
+        path: expect.stringMatching(/^gs:\/\/bucket\/exhibitions\/ex1\//),
+        sourceUrl: 'https://museum.example/exhibitions/main.png',
+        contentType: 'image/png',
+        width: 800,
+        height: 600,
+      })
+      expect(docRef.update).toHaveBeenCalledWith({ image })
+    })
+
+    it('should not resolve relative image URLs against the official URL', async () => {
+      await setupFirestore(true, {
+        imageUrl: 'main.png',
+        officialUrl: 'https://museum.example/exhibitions/',
+      })
+      const fetch = mockFetch(createPng(800, 600), { headers: { 'content-type': 'image/png' } })
+
+      await expect(storeExhibitionImage('ex1', { save: vi.fn(), copy: vi.fn() })).rejects.toThrow(
+        'Invalid image URL: main.png',
+      )
+      expect(fetch).not.toHaveBeenCalled()
+    })
+
+    it('should throw NotFoundError for unknown exhibitions', async () => {
+      await setupFirestore(false)
+
+      await expect(
+        storeExhibitionImage('missing', { save: vi.fn(), copy: vi.fn() }),
+      ).rejects.toThrow(NotFoundError)
+    })
+  })
+
+  describe('storeExhibitionImages', () => {
+    it('should count failures without throwing', async () => {
+      await setupFirestore(true, { imageUrl: 'https://museum.example/main.png' })
+      mockFetch('Server Error', { status: 500 })
+
+      const result = await storeExhibitionImages(['ex1', 'ex2'], { save: vi.fn(), copy: vi.fn() })
+
+      expect(result).toEqual({ stored: 0, failed: 2 })
+    })
+  })
+})
@@ -0,0 +1,251 @@
+import { createHash } from 'node:crypto'
+import { lookup } from 'node:dns/promises'
+import db from '../lib/firestore.js'
+import { IMAGE_CONFIG } from '../config/image.config.js'
+import { getImageDimensions } from '../utils/image.js'
+import { isPublicAddress } from '../utils/http.js'
+import { ExternalServiceError, NotFoundError, ValidationError } from '../errors/app-error.js'
+import type { ExhibitionDocument } from '../types/exhibition.js'
+import type { ExhibitionImage, ImageDimensions, ImageStorage } from '../types/image.js'
+
+/**
+ * Resolve a scraped image URL against the page it was found on
+ * Only http(s) URLs are accepted, so data URIs and other schemes are rejected.
+ */
+export function resolveImageUrl(imageUrl: string, baseUrl?: string): string {
+  let url: URL
+  try {
+    url = new URL(imageUrl.trim(), baseUrl)
+  } catch {
+    throw new ValidationError(`Invalid image URL: ${imageUrl}`)
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new ValidationError(`Unsupported image URL scheme: ${url.protocol}`)
+  }
+
+  return url.href
+}
+
+/**
+ * Throw unless the host of the URL only resolves to public addresses
+ * Image URLs come from scraped pages, so they must not reach the metadata server or other internal services.
+ */
+async function assertPublicHost(url: string): Promise<void> {
+  // IPv6 literals keep their brackets in URL.hostname
+  const hostname = new URL(url).hostname.replace(/^\[(.*)\]$/, '$1')
+  let addresses: Array<{ address: string }>
+  try {
+    addresses = await lookup(hostname, { all: true })
+  } catch (error) {
+    throw new ExternalServiceError(
+      `Failed to resolve image host ${hostname}: ${error instanceof Error ? error.message : String(error)}`,
+      'image',
+    )
+  }
+
+  if (addresses.length === 0 || !addresses.every(({ address }) => isPublicAddress(address))) {
+    throw new ValidationError(`Image host ${hostname} does not resolve to a public address`)
+  }
+}
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308])
+
+/**
+ * Fetch an image, following redirects by hand
+ * Each redirect target is checked like the original URL, so a public URL cannot redirect to an internal one.
+ */
+async function fetchImage(url: string): Promise<Response> {
+  const signal = AbortSignal.timeout(IMAGE_CONFIG.timeoutMs)
+  let currentUrl = resolveImageUrl(url)
+
+  for (let redirects = 0; ; redirects++) {
+    await assertPublicHost(currentUrl)
+
+    let response: Response
+    try {
+      response = await fetch(currentUrl, { redirect: 'manual', signal })
+    } catch (error) {
+      throw new ExternalServiceError(
+        `Failed to download image ${url}: ${error instanceof Error ? error.message : String(error)}`,
+        'image',
+      )
+    }
+
+    const location = response.headers.get('location')
+    if (!REDIRECT_STATUSES.has(response.status) || !location) {
+      return response
+    }
+    await response.body?.cancel()
+    if (redirects >= IMAGE_CONFIG.maxRedirects) {
+      throw new ExternalServiceError(`Failed to download image ${url}: too many redirects`, 'image')
+    }
+    currentUrl = resolveImageUrl(location, currentUrl)
+  }
+}
+
+/**
+ * Read a response body, aborting as soon as it grows past `maxBytes`
+ * The Content-Length header is optional and not binding, so the body is counted as it arrives.
+ */
+async function readBody(response: Response, maxBytes: number): Promise<Buffer> {
+  if (!response.body) {
+    return Buffer.alloc(0)
+  }
+
+  const chunks: Uint8Array[] = []
+  let length = 0
+  const reader = response.body.getReader()
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) {
+      break
+    }
+    length += value.length
+    if (length > maxBytes) {
+      await reader.cancel()
+      throw new ValidationError(`Image is too large: more than ${maxBytes} bytes`)
+    }
+    chunks.push(value)
+  }
+  return Buffer.concat(chunks)
+}
+
+/**
+ * Download an image and check its content type, size and dimensions
+ * Only public http(s) URLs are downloaded, also when redirected.
+ */
+export async function downloadImage(
+  url: string,
+): Promise<{ data: Buffer; contentType: string; dimensions: ImageDimensions }> {
+  const response = await fetchImage(url)
+  if (!response.ok) {
+    throw new ExternalServiceError(
+      `Failed to download image ${url}: HTTP ${response.status}`,
+      'image',
+    )
+  }
+
+  const contentType = response.headers.get('content-type')?.split(';')[0].trim().toLowerCase()
+  if (!contentType || !IMAGE_CONFIG.allowedContentTypes.includes(contentType)) {
+    throw new ValidationError(`Unsupported image content type: ${contentType ?? 'none'}`)
+  }
+
+  const contentLength = Number(response.headers.get('content-length'))
+  if (contentLength > IMAGE_CONFIG.maxBytes) {
+    throw new ValidationError(`Image is too large: ${contentLength} bytes`)
+  }
+
+  const data = await readBody(response, IMAGE_CONFIG.maxBytes)
+
+  // The header is checked too, as servers often send HTML error pages with an image content type
+  const dimensions = getImageDimensions(data)
+  if (!dimensions || `image/${dimensions.format}` !== contentType) {
+    throw new ValidationError(`Image content does not match content type ${contentType}`)
+  }
+  if (dimensions.width < IMAGE_CONFIG.minWidth || dimensions.height < IMAGE_CONFIG.minHeight) {
+    throw new ValidationError(`Image is too small: ${dimensions.width}x${dimensions.height}`)
+  }
+
+  return { data, contentType, dimensions }
+}
+
+function getImagePath(documentId: string, fileName: string): string {
+  return `exhibitions/${documentId}/${fileName}`
+}
+
+/**
+ * Copy the stored image of an exhibition to the path of its new document ID
+ * The original is kept, so the image stays valid if the document is not moved after all.
+ */
+export async function copyExhibitionImage(
+  image: ExhibitionImage,
+  fromId: string,
+  toId: string,
+  storage: ImageStorage,
+): Promise<ExhibitionImage> {
+  const fileName = image.path.slice(image.path.lastIndexOf('/') + 1)
+  const path = await storage.copy(getImagePath(fromId, fileName), getImagePath(toId, fileName))
+  return { ...image, path }
+}
+
+/**
+ * Download an exhibition image and write it to the storage
+ * Images are stored under a hash of their content, so re-storing the same image overwrites it.
+ */
+export async function storeImage(
+  documentId: string,
+  imageUrl: string,
+  storage: ImageStorage,
+): Promise<ExhibitionImage> {
+  const sourceUrl = resolveImageUrl(imageUrl)
+  const { data, contentType, dimensions } = await downloadImage(sourceUrl)
+
+  const hash = createHash('sha256').update(data).digest('hex').slice(0, 16)
+  const extension = dimensions.format === 'jpeg' ? 'jpg' : dimensions.format
+  const path = await storage.save(
+    getImagePath(documentId, `${hash}.${extension}`),
+    data,
+    contentType,
+  )
+
+  return {
+    path,
+    sourceUrl,
+    contentType,
+    width: dimensions.width,
+    height: dimensions.height,
+  }
+}
+
+/**
+ * Store the image of an exhibition and record it on the document
+ * The imageUrl is resolved against the page it was scraped from when the exhibition is scraped,
+ * so a relative imageUrl here cannot be resolved and is rejected.
+ */
+export async function storeExhibitionImage(
+  documentId: string,
+  storage: ImageStorage,
+): Promise<ExhibitionImage> {
+  const docRef = db.collection('exhibition').doc(documentId)
+  const doc = await docRef.get()
+  const data = doc.data() as ExhibitionDocument | undefined
+  if (!doc.exists || !data) {
+    throw new NotFoundError(`Exhibition not found: ${documentId}`)
+  }
+  if (!data.imageUrl) {
+    throw new ValidationError(`Exhibition ${documentId} has no imageUrl`)
+  }
+
+  const image = await storeImage(documentId, data.imageUrl, storage)
+  await docRef.update({ image })
+  console.log(`Stored image for exhibition ${documentId}: ${image.path}`)
+
+  return image
+}
+
+/**
+ * Store the images of several exhibitions, one at a time to be gentle on the museum sites
+ * Failures are logged and counted rather than thrown, so one broken image does not fail a scrape.
+ */
+export async function storeExhibitionImages(
+  documentIds: string[],
+  storage: ImageStorage,
+): Promise<{ stored: number; failed: number }> {
+  const results = { stored: 0, failed: 0 }
+
+  for (const documentId of documentIds) {
+    try {
+      await storeExhibitionImage(documentId, storage)
+      results.stored++
+    } catch (error) {
+      console.error(
+        `Failed to store image for exhibition ${documentId}:`,
+        error instanceof Error ? error.message : error,
+      )
+      results.failed++
+    }
+  }
+
+  return results
+}
@@ -0,0 +1,216 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { Timestamp } from '@google-cloud/firestore'
+import {
+  dateRangesOverlap,
+  findDuplicate,
+  matchDuplicate,
+  auditDuplicates,
+  confirmMergeCandidate,
+  separateMergeCandidate,
+} from './merge-candidate.service.js'
+import type { ExistingExhibition } from './merge-candidate.service.js'
+import { ValidationError } from '../errors/app-error.js'
+import type { ExhibitionDocument } from '../types/exhibition.js'
+import type { MergeCandidateDocument } from '../types/merge-candidate.js'
+import type { Museum } from '../schemas/museum.schema.js'
+import { createMockTransaction, mockRunTransaction } from '../test/firestore.js'
+import type { MockTransaction } from '../test/firestore.js'
+
+// Mock Firestore
+vi.mock('../lib/firestore.js', () => ({
+  default: {
+    collection: vi.fn(),
+    runTransaction: vi.fn(),
+  },
+}))
+
+function date(value: string) {
+  return Timestamp.fromDate(new Date(`${value}T00:00:00+09:00`))
+}
+
+function exhibition(
+  id: string,
+  title: string,
+  startDate?: string,
+  endDate?: string,
+  createdAt = '2025-01-01',
+): ExistingExhibition {
+  return {
+    id,
+    data: {
+      title,
+      venue: '国立西洋美術館',
+      museumId: 'museum1',
+      ...(startDate && { startDate: date(startDate) }),
+      ...(endDate && { endDate: date(endDate) }),
+      status: 'active',
+      isExcluded: false,
+      hasDateChanged: false,
+      createdAt: date(createdAt),
+      updatedAt: date(createdAt),
+    } satisfies ExhibitionDocument,
+  }
+}
+
+async function setupFirestore(mockTransaction: MockTransaction, docs: ExistingExhibition[] = []) {
+  const db = await import('../lib/firestore.js')
+  vi.mocked(db.default.collection).mockImplementation(
+    (collection: string) =>
+      ({
+        doc: vi.fn().mockImplementation((id: string) => ({ id, collection })),
+        where: vi.fn().mockReturnValue({
+          get: vi.fn().mockResolvedValue({
+            docs: docs.map(({ id, data }) => ({ id, data: () => data })),
+          }),
+        }),
+      }) as never,
+  )
+  mockRunTransaction(mockTransaction)
+}
+
+const existing = [
+  exhibition('monet', '特別展「モネ 睡蓮のとき」', '2025-10-04', '2026-02-15'),
+  exhibition('gogh', 'ゴッホ展', '2025-09-12', '2025-12-21'),
+]
+
+describe('merge-candidate.service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('dateRangesOverlap', () => {
+    it('should treat missing dates as open-ended', () => {
+      const range = { startDate: date('2025-10-04'), endDate: date('2026-02-15') }
+      expect(dateRangesOverlap(range, {})).toBe(true)
+      expect(dateRangesOverlap(range, { startDate: date('2026-02-15') })).toBe(true)
+      expect(dateRangesOverlap(range, { endDate: date('2025-10-03') })).toBe(false)
+    })
+  })
+
+  describe('findDuplicate', () => {
+    it('should match similar titles with overlapping dates', () => {
+      const match = findDuplicate(
+        'モネ　睡蓮の時',
+        { startDate: date('2025-10-04'), endDate: date('2026-02-15') },
+        existing,
+      )
+      expect(match).toMatchObject({ documentId: 'monet', title: '特別展「モネ 睡蓮のとき」' })
+      expect(match!.similarity).toBeGreaterThanOrEqual(0.7)
+    })
+
+    it('should not match exhibitions with different dates', () => {
+      expect(
+        findDuplicate(
+          'モネ 睡蓮のとき',
+          { startDate: date('2027-01-01'), endDate: date('2027-03-31') },
+          existing,
+        ),
+      ).toBeNull()
+    })
+
+    it('should not match titles with different numbers', () => {
+      const series = [exhibition('s10', '第10回 日展', '2025-10-01', '2025-11-30')]
+      expect(findDuplicate('第11回 日展', {}, series)).toBeNull()
+    })
+  })
+
+  describe('matchDuplicate', () => {
+    it('should link near-identical titles and hold less similar ones', () => {
+      expect(matchDuplicate('モネ 睡蓮のとき!', {}, existing, undefined)?.action).toBe('link')
+      expect(matchDuplicate('モネ 睡蓮の時', {}, existing, undefined)?.action).toBe('hold')
+    })
+
+    it('should follow the reviewer decision on a previous merge candidate', () => {
+      const candidate = {
+        status: 'merged',
+        existingId: 'gogh',
+        similarity: 0.75,
+      } as MergeCandidateDocument
+      expect(matchDuplicate('ゴッホ', {}, existing, candidate)).toMatchObject({
+        action: 'link',
+        match: { documentId: 'gogh', similarity: 0.75 },
+      })
+      expect(
+        matchDuplicate('モネ 睡蓮の時', {}, existing, { ...candidate, status: 'separated' }),
+      ).toBeNull()
+    })
+  })
+
+  describe('auditDuplicates', () => {
+    it('should record the newer exhibition of a similar pair as the duplicate', async () => {
+      const docs = [
+        exhibition('new', 'モネ 睡蓮の時', '2025-10-04', '2026-02-15', '2025-06-01'),
+        ...existing,
+      ]
+      const mockTransaction = createMockTransaction({
+        getAll: vi
+          .fn()
+          .mockImplementation((...refs: unknown[]) =>
+            Promise.resolve(refs.map(() => ({ exists: false }))),
+          ),
+      })
+      await setupFirestore(mockTransaction, docs)
+
+      const museums = [
+        {
+          id: 'museum1',
+          name: '国立西洋美術館',
+          address: '東京都台東区上野公園7-7',
+          access: 'JR上野駅から徒歩1分',
+          openingInformation: '9:30-17:30',
+          officialUrl: 'https://www.nmwa.go.jp/',
+          scrapeUrl: 'https://www.nmwa.go.jp/jp/exhibitions/',
+          scrapeEnabled: true,
+          venueType: '美術館',
+          area: '上野',
+        },
+      ] satisfies Museum[]
+      const results = await auditDuplicates(museums)
+
+      expect(results).toEqual({ scanned: 3, candidates: 1 })
+      expect(mockTransaction.set).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'monet_new' }),
+        expect.objectContaining({
+          source: 'audit',
+          status: 'open',
+          existingId: 'monet',
+          duplicateId: 'new',
+        }),
+      )
+    })
+  })
+
+  describe('confirmMergeCandidate', () => {
+    it('should exclude the duplicate exhibition of an audit candidate', async () => {
+      const mockTransaction = createMockTransaction({
+        get: vi.fn().mockResolvedValue({
+          exists: true,
+          data: () => ({ status: 'open', existingId: 'monet', duplicateId: 'new' }),
+        }),
+      })
+      await setupFirestore(mockTransaction)
+
+      await confirmMergeCandidate('monet_new', 'reviewer')
+
+      expect(mockTransaction.update).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'new', collection: 'exhibition' }),
+        expect.objectContaining({ isExcluded: true, excludedReason: 'Duplicate of monet' }),
+      )
+      expect(mockTransaction.update).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'monet_new', collection: 'mergeCandidate' }),
+        expect.objectContaining({ status: 'merged', resolvedBy: 'reviewer' }),
+      )
+    })
+  })
+
+  describe('separateMergeCandidate', () => {
+    it('should throw ValidationError when the candidate was already resolved', async () => {
+      const mockTransaction = createMockTransaction({
+        get: vi.fn().mockResolvedValue({ exists: true, data: () => ({ status: 'merged' }) }),
+      })
+      await setupFirestore(mockTransaction)
+
+      await expect(separateMergeCandidate('c1', 'reviewer')).rejects.toThrow(ValidationError)
+    })
+  })
+})
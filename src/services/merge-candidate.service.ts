@@ -0,0 +1,358 @@
+import db from '../lib/firestore.js'
+import { Timestamp } from '@google-cloud/firestore'
+import type { Transaction } from '@google-cloud/firestore'
+import { NotFoundError, ValidationError } from '../errors/app-error.js'
+import { canonicalizeTitle, editSimilarity } from '../utils/text.js'
+import { DUPLICATE_DETECTION_CONFIG } from '../config/duplicate.config.js'
+import { buildMuseumMaps, getVenueNames } from './museum.service.js'
+import type { Museum } from '../schemas/museum.schema.js'
+import type { DuplicateMatch, ExhibitionDocument } from '../types/exhibition.js'
+import type {
+  DuplicateAuditResults,
+  MergeCandidate,
+  MergeCandidateDocument,
+  MergeCandidateStatus,
+} from '../types/merge-candidate.js'
+
+/**
+ * Existing exhibition document considered for near-duplicate detection
+ */
+export interface ExistingExhibition {
+  id: string
+  data: ExhibitionDocument
+}
+
+type DateRange = Pick<ExhibitionDocument, 'startDate' | 'endDate'>
+
+/**
+ * Numbers in a title, which tell apart otherwise similar series (e.g. "第10回" and "第11回")
+ */
+function titleNumbers(title: string): string {
+  return (title.match(/\d+/g) ?? []).join(',')
+}
+
+function toMergeCandidate(id: string, data: MergeCandidateDocument): MergeCandidate {
+  const { createdAt, updatedAt, resolvedAt, ...rest } = data
+  return {
+    ...rest,
+    id,
+    createdAt: createdAt.toDate().toISOString(),
+    updatedAt: updatedAt.toDate().toISOString(),
+    ...(resolvedAt && { resolvedAt: resolvedAt.toDate().toISOString() }),
+  }
+}
+
+/**
+ * Check whether two date ranges overlap
+ * Missing dates are treated as open-ended, so an exhibition without dates overlaps any other.
+ */
+export function dateRangesOverlap(a: DateRange, b: DateRange): boolean {
+  const aStart = a.startDate?.toMillis() ?? -Infinity
+  const aEnd = a.endDate?.toMillis() ?? Infinity
+  const bStart = b.startDate?.toMillis() ?? -Infinity
+  const bEnd = b.endDate?.toMillis() ?? Infinity
+  return aStart <= bEnd && bStart <= aEnd
+}
+
+/**
+ * Find the existing exhibition most similar to a new one
+ * Titles are compared after canonicalization, and only exhibitions with overlapping dates and
+ * the same numbers in their titles are considered.
+ *
+ * @returns The best match with a similarity of at least `threshold`, or null
+ */
+export function findDuplicate(
+  title: string,
+  dates: DateRange,
+  existing: ExistingExhibition[],
+  venueNames: string[] = [],
+  threshold: number = DUPLICATE_DETECTION_CONFIG.candidateThreshold,
+): DuplicateMatch | null {
+  const canonicalTitle = canonicalizeTitle(title, venueNames)
+  const numbers = titleNumbers(canonicalTitle)
+
+  let best: DuplicateMatch | null = null
+  for (const { id, data } of existing) {
+    const existingTitle = canonicalizeTitle(data.title, venueNames)
+    if (!dateRangesOverlap(dates, data) || titleNumbers(existingTitle) !== numbers) {
+      continue
+    }
+    const similarity = editSimilarity(canonicalTitle, existingTitle)
+    if (similarity >= threshold && (best === null || similarity > best.similarity)) {
+      best = { documentId: id, title: data.title, similarity }
+    }
+  }
+
+  return best
+}
+
+/**
+ * Decide how to handle a new exhibition that resembles an existing one
+ * - `link`: treat it as the existing exhibition (similar enough, or merged by a reviewer before)
+ * - `hold`: record a merge candidate for review instead of creating it
+ *
+ * @returns The decision, or null if the exhibition should be created
+ */
+export function matchDuplicate(
+  title: string,
+  dates: DateRange,
+  existing: ExistingExhibition[],
+  mergeCandidate: MergeCandidateDocument | undefined,
+  venueNames: string[] = [],
+): { action: 'link' | 'hold'; match: DuplicateMatch; existing: ExistingExhibition } | null {
+  if (mergeCandidate?.status === 'separated') {
+    return null
+  }
+
+  if (mergeCandidate?.status === 'merged') {
+    const merged = existing.find((e) => e.id === mergeCandidate.existingId)
+    if (merged) {
+      return {
+        action: 'link',
+        match: {
+          documentId: merged.id,
+          title: merged.data.title,
+          similarity: mergeCandidate.similarity,
+        },
+        existing: merged,
+      }
+    }
+  }
+
+  const match = findDuplicate(title, dates, existing, venueNames)
+  if (!match) {
+    return null
+  }
+
+  return {
+    action: match.similarity >= DUPLICATE_DETECTION_CONFIG.linkThreshold ? 'link' : 'hold',
+    match,
+    existing: existing.find((e) => e.id === match.documentId) as ExistingExhibition,
+  }
+}
+
+/**
+ * Read the exhibitions of the given museums within a transaction
+ */
+export async function readMuseumExhibitions(
+  transaction: Transaction,
+  museumIds: string[],
+): Promise<Map<string, ExistingExhibition[]>> {
+  const snapshots = await Promise.all(
+    museumIds.map((museumId) =>
+      transaction.get(db.collection('exhibition').where('museumId', '==', museumId)),
+    ),
+  )
+
+  return new Map(
+    museumIds.map((museumId, i) => [
+      museumId,
+      snapshots[i].docs.map((doc) => ({ id: doc.id, data: doc.data() as ExhibitionDocument })),
+    ]),
+  )
+}
+
+/**
+ * Read the merge candidates recorded for the given exhibition document IDs within a transaction
+ */
+export async function readMergeCandidates(
+  transaction: Transaction,
+  documentIds: string[],
+): Promise<Map<string, MergeCandidateDocument>> {
+  const docs = await Promise.all(
+    documentIds.map((id) => transaction.get(db.collection('mergeCandidate').doc(id))),
+  )
+
+  return new Map(
+    docs
+      .filter((doc) => doc.exists)
+      .map((doc) => [doc.id, doc.data() as MergeCandidateDocument] as const),
+  )
+}
+
+/**
+ * Record a scraped exhibition held back as a merge candidate within a transaction
+ * The candidate document shares the ID the exhibition would have been created with, so that
+ * later scrapes of the same exhibition can follow the reviewer's decision.
+ */
+export function holdMergeCandidate(
+  transaction: Transaction,
+  documentId: string,
+  candidate: Omit<MergeCandidateDocument, 'source' | 'status' | 'createdAt' | 'updatedAt'>,
+  existing?: MergeCandidateDocument,
+): void {
+  const now = Timestamp.now()
+  transaction.set(db.collection('mergeCandidate').doc(documentId), {
+    ...candidate,
+    source: 'scrape',
+    status: 'open',
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  } satisfies MergeCandidateDocument)
+}
+
+/**
+ * Compare existing exhibitions of each museum with each other and record merge candidates
+ * Pairs that were already recorded, including resolved ones, are left untouched.
+ *
+ * @param museums - The museums to audit
+ * @param allMuseums - All museums, used to strip venue names from titles
+ */
+export async function auditDuplicates(
+  museums: Museum[],
+  allMuseums: Museum[] = museums,
+): Promise<DuplicateAuditResults> {
+  const museumMaps = buildMuseumMaps(allMuseums)
+  const results: DuplicateAuditResults = { scanned: 0, candidates: 0 }
+
+  for (const museum of museums) {
+    const snapshot = await db.collection('exhibition').where('museumId', '==', museum.id).get()
+    // Older exhibitions come first so that the newer one of a pair is treated as the duplicate
+    const exhibitions: ExistingExhibition[] = snapshot.docs
+      .map((doc) => ({ id: doc.id, data: doc.data() as ExhibitionDocument }))
+      .filter(({ data }) => !data.isExcluded)
+      .sort((a, b) => a.data.createdAt.toMillis() - b.data.createdAt.toMillis())
+    results.scanned += exhibitions.length
+
+    const venueNames = getVenueNames(museum.name, museumMaps)
+    const pairs: Array<{ id: string; existing: ExistingExhibition; match: DuplicateMatch }> = []
+    for (let i = 0; i < exhibitions.length; i++) {
+      for (let j = i + 1; j < exhibitions.length; j++) {
+        const match = findDuplicate(
+          exhibitions[j].data.title,
+          exhibitions[j].data,
+          [exhibitions[i]],
+          venueNames,
+        )
+        if (match) {
+          pairs.push({
+            id: `${exhibitions[i].id}_${exhibitions[j].id}`,
+            existing: exhibitions[j],
+            match,
+          })
+        }
+      }
+    }
+
+    if (pairs.length === 0) {
+      continue
+    }
+
+    const refs = pairs.map(({ id }) => db.collection('mergeCandidate').doc(id))
+    const recorded = await db.runTransaction(async (transaction) => {
+      const existingDocs = await transaction.getAll(...refs)
+      const now = Timestamp.now()
+      let count = 0
+
+      existingDocs.forEach((existingDoc, i) => {
+        if (existingDoc.exists) {
+          return
+        }
+        const { existing, match } = pairs[i]
+        transaction.set(refs[i], {
+          museumId: museum.id,
+          source: 'audit',
+          status: 'open',
+          existingId: match.documentId,
+          existingTitle: match.title,
+          title: existing.data.title,
+          similarity: match.similarity,
+          duplicateId: existing.id,
+          createdAt: now,
+          updatedAt: now,
+        } satisfies MergeCandidateDocument)
+        count++
+      })
+
+      return count
+    })
+    results.candidates += recorded
+  }
+
+  return results
+}
+
+export async function fetchMergeCandidates(
+  status: MergeCandidateStatus,
+  limit: number,
+): Promise<MergeCandidate[]> {
+  const snapshot = await db
+    .collection('mergeCandidate')
+    .where('status', '==', status)
+    .orderBy('updatedAt', 'desc')
+    .limit(limit)
+    .get()
+  return snapshot.docs.map((doc) => toMergeCandidate(doc.id, doc.data() as MergeCandidateDocument))
+}
+
+async function getOpenMergeCandidate(
+  transaction: Transaction,
+  candidateRef: FirebaseFirestore.DocumentReference,
+): Promise<MergeCandidateDocument> {
+  const doc = await transaction.get(candidateRef)
+
+  if (!doc.exists) {
+    throw new NotFoundError(`Merge candidate not found: ${candidateRef.id}`)
+  }
+
+  const candidate = doc.data() as MergeCandidateDocument
+  if (candidate.status !== 'open') {
+    throw new ValidationError(`Merge candidate ${candidateRef.id} is already ${candidate.status}`)
+  }
+
+  return candidate
+}
+
+/**
+ * Confirm that a merge candidate is the same exhibition as the existing one
+ * Later scrapes of a `scrape` candidate are linked to the existing exhibition, and the
+ * duplicate document of an `audit` candidate is excluded.
+ */
+export async function confirmMergeCandidate(id: string, resolvedBy: string): Promise<void> {
+  const candidateRef = db.collection('mergeCandidate').doc(id)
+
+  await db.runTransaction(async (transaction) => {
+    const candidate = await getOpenMergeCandidate(transaction, candidateRef)
+    const now = Timestamp.now()
+
+    if (candidate.duplicateId) {
+      transaction.update(db.collection('exhibition').doc(candidate.duplicateId), {
+        isExcluded: true,
+        excludedReason: `Duplicate of ${candidate.existingId}`,
+        reviewedBy: resolvedBy,
+        reviewedAt: now,
+        reviewAction: 'exclude',
+        updatedAt: now,
+      })
+    }
+
+    transaction.update(candidateRef, {
+      status: 'merged',
+      resolvedBy,
+      resolvedAt: now,
+      updatedAt: now,
+    })
+  })
+}
+
+/**
+ * Confirm that a merge candidate is a different exhibition from the existing one
+ *
+ * @returns The merge candidate; for `scrape` candidates the caller should create its exhibition
+ */
+export async function separateMergeCandidate(
+  id: string,
+  resolvedBy: string,
+): Promise<MergeCandidateDocument> {
+  const candidateRef = db.collection('mergeCandidate').doc(id)
+
+  return db.runTransaction(async (transaction) => {
+    const candidate = await getOpenMergeCandidate(transaction, candidateRef)
+    const now = Timestamp.now()
+    const update = { status: 'separated' as const, resolvedBy, resolvedAt: now, updatedAt: now }
+
+    transaction.update(candidateRef, update)
+
+    return { ...candidate, ...update }
+  })
+}
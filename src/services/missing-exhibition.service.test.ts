@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { Timestamp } from '@google-cloud/firestore'
+import { detectMissingExhibitions, fetchMissingExhibitions } from './missing-exhibition.service.js'
+import { createMockTransaction, mockRunTransaction } from '../test/firestore.js'
+
+// Mock Firestore
+vi.mock('../lib/firestore.js', () => ({
+  default: {
+    collection: vi.fn(),
+    runTransaction: vi.fn(),
+  },
+}))
+
+const createdAt = Timestamp.fromDate(new Date('2024-01-01T00:00:00.000Z'))
+
+function exhibitionDoc(id: string, data: Record<string, unknown> = {}) {
+  return {
+    id,
+    ref: { id },
+    data: () => ({
+      title: id,
+      venue: '東京国立博物館',
+      museumId: 'museum1',
+      status: 'active',
+      origin: 'scrape',
+      isExcluded: false,
+      hasDateChanged: false,
+      createdAt,
+      updatedAt: createdAt,
+      ...data,
+    }),
+  }
+}
+
+async function setupTransaction(docs: Array<ReturnType<typeof exhibitionDoc>>) {
+  const db = await import('../lib/firestore.js')
+  const mockTransaction = createMockTransaction({ get: vi.fn().mockResolvedValue({ docs }) })
+  vi.mocked(db.default.collection).mockReturnValue({
+    where: vi.fn().mockReturnValue({}),
+  } as never)
+  mockRunTransaction(mockTransaction)
+  return mockTransaction
+}
+
+describe('missing-exhibition.service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('detectMissingExhibitions', () => {
+    it('should count a missed run and flag exhibitions reaching the threshold', async () => {
+      const mockTransaction = await setupTransaction([
+        exhibitionDoc('seen'),
+        exhibitionDoc('first-miss'),
+        exhibitionDoc('third-miss', { missedRuns: 2 }),
+      ])
+
+      const missing = await detectMissingExhibitions(['museum1'], new Set(['seen']), false, 3)
+
+      expect(missing).toBe(1)
+      expect(mockTransaction.update).toHaveBeenCalledTimes(2)
+      expect(mockTransaction.update).toHaveBeenCalledWith({ id: 'first-miss' }, { missedRuns: 1 })
+      expect(mockTransaction.update).toHaveBeenCalledWith(
+        { id: 'third-miss' },
+        { missedRuns: 3, isMissing: true, missingSince: expect.any(Timestamp) },
+      )
+    })
+
+    it('should leave manual, excluded, ended and already missing exhibitions alone', async () => {
+      const mockTransaction = await setupTransaction([
+        exhibitionDoc('seen'),
+        exhibitionDoc('manual', { origin: 'manual' }),
+        exhibitionDoc('excluded', { isExcluded: true }),
+        exhibitionDoc('ended', { endDate: createdAt }),
+        exhibitionDoc('missing', { isMissing: true, missedRuns: 5 }),
+      ])
+
+      const missing = await detectMissingExhibitions(['museum1'], new Set(['seen']))
+
+      expect(missing).toBe(0)
+      expect(mockTransaction.update).not.toHaveBeenCalled()
+    })
+
+    it('should skip museums for which the scrape found no exhibitions', async () => {
+      const mockTransaction = await setupTransaction([
+        exhibitionDoc('ex1', { missedRuns: 2 }),
+        exhibitionDoc('ex2', { missedRuns: 2 }),
+      ])
+
+      const missing = await detectMissingExhibitions(['museum1'], new Set(), false, 3)
+
+      expect(missing).toBe(0)
+      expect(mockTransaction.update).not.toHaveBeenCalled()
+    })
+
+    it('should only count exhibitions in dry-run mode', async () => {
+      const mockTransaction = await setupTransaction([
+        exhibitionDoc('seen'),
+        exhibitionDoc('third-miss', { missedRuns: 2 }),
+      ])
+
+      const missing = await detectMissingExhibitions(['museum1'], new Set(['seen']), true, 3)
+
+      expect(missing).toBe(1)
+      expect(mockTransaction.update).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('fetchMissingExhibitions', () => {
+    it('should return missing exhibitions with timestamps serialized', async () => {
+      const db = await import('../lib/firestore.js')
+      const missingSince = Timestamp.fromDate(new Date('2024-06-01T00:00:00.000Z'))
+      const query = {
+        where: vi.fn().mockReturnThis(),
+        limit: vi.fn().mockReturnThis(),
+        get: vi.fn().mockResolvedValue({
+          docs: [exhibitionDoc('ex1', { isMissing: true, missedRuns: 3, missingSince })],
+        }),
+      }
+      vi.mocked(db.default.collection).mockReturnValue(query as never)
+
+      const exhibitions = await fetchMissingExhibitions({ museumId: 'museum1', limit: 10 })
+
+      expect(query.where).toHaveBeenCalledWith('isMissing', '==', true)
+      expect(query.where).toHaveBeenCalledWith('museumId', '==', 'museum1')
+      expect(exhibitions).toEqual([
+        expect.objectContaining({
+          id: 'ex1',
+          isMissing: true,
+          missingSince: '2024-06-01T00:00:00.000Z',
+        }),
+      ])
+    })
+  })
+})
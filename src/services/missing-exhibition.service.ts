@@ -0,0 +1,108 @@
+import db from '../lib/firestore.js'
+import { FieldValue, Timestamp } from '@google-cloud/firestore'
+import { MISSING_DETECTION_CONFIG } from '../config/missing.config.js'
+import { toExhibition } from './exhibition-review.service.js'
+import type { Exhibition, ExhibitionDocument } from '../types/exhibition.js'
+import type { MissingExhibitionQuery } from '../schemas/missing-exhibition.schema.js'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Fields stamped on an existing exhibition found by a scrape
+ * Finding an exhibition again also clears a previous missing flag.
+ */
+export function seenFields(now: Timestamp) {
+  return {
+    lastSeenAt: now,
+    seenCount: FieldValue.increment(1),
+    missedRuns: 0,
+    isMissing: false,
+    missingSince: FieldValue.delete(),
+  }
+}
+
+/**
+ * Count a missed run for the exhibitions of the covered museums that a scrape did not find,
+ * and flag those missed for several consecutive runs as missing
+ * Manual, excluded and ended exhibitions are not expected to be listed and are left alone,
+ * and museums for which the scrape found no exhibitions at all are skipped.
+ *
+ * @param museumIds - Museums whose whole listing was scraped
+ * @param seenIds - IDs of the exhibitions the scrape found
+ * @param dryRun - Only count the exhibitions that would be flagged
+ * @returns The number of exhibitions newly flagged as missing
+ */
+export async function detectMissingExhibitions(
+  museumIds: string[],
+  seenIds: Set<string>,
+  dryRun = false,
+  threshold: number = MISSING_DETECTION_CONFIG.missedRunThreshold,
+): Promise<number> {
+  let missing = 0
+
+  for (const museumId of museumIds) {
+    const flagged = await db.runTransaction(
+      async (transaction) => {
+        const snapshot = await transaction.get(
+          db.collection('exhibition').where('museumId', '==', museumId),
+        )
+
+        // A scrape that found nothing for the museum more likely failed than the listing emptied
+        if (!snapshot.docs.some((doc) => seenIds.has(doc.id))) {
+          console.log(`No exhibitions found for museum ${museumId}, skipping missing detection`)
+          return 0
+        }
+
+        const now = Timestamp.now()
+        let flagged = 0
+        for (const doc of snapshot.docs) {
+          const data = doc.data() as ExhibitionDocument
+          const ended = data.endDate && data.endDate.toMillis() + DAY_MS < now.toMillis()
+          if (
+            seenIds.has(doc.id) ||
+            data.origin === 'manual' ||
+            data.isExcluded ||
+            data.isMissing ||
+            ended
+          ) {
+            continue
+          }
+
+          const missedRuns = (data.missedRuns ?? 0) + 1
+          const isMissing = missedRuns >= threshold
+          if (isMissing) {
+            console.log(
+              `Exhibition ${doc.id} not found for ${missedRuns} runs, flagging as missing`,
+            )
+            flagged++
+          }
+
+          if (!dryRun) {
+            transaction.update(doc.ref, {
+              missedRuns,
+              ...(isMissing && { isMissing, missingSince: now }),
+            })
+          }
+        }
+
+        return flagged
+      },
+      dryRun ? { readOnly: true } : undefined,
+    )
+    missing += flagged
+  }
+
+  return missing
+}
+
+export async function fetchMissingExhibitions(
+  query: MissingExhibitionQuery,
+): Promise<Exhibition[]> {
+  let ref = db.collection('exhibition').where('isMissing', '==', true)
+  if (query.museumId !== undefined) {
+    ref = ref.where('museumId', '==', query.museumId)
+  }
+
+  const snapshot = await ref.limit(query.limit).get()
+  return snapshot.docs.map((doc) => toExhibition(doc.id, doc.data() as ExhibitionDocument))
+}
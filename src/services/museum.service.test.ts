@@ -1,5 +1,17 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
-import { fetchEnabledMuseumsWithUrls, fetchAllMuseums, buildMuseumMaps } from './museum.service.js'
+import {
+  fetchEnabledMuseumsWithUrls,
+  fetchAllMuseums,
+  fetchMuseumById,
+  buildMuseumMaps,
+  assertNamesAvailable,
+  createMuseum,
+  updateMuseum,
+  deleteMuseum,
+} from './museum.service.js'
+import { ConflictError, NotFoundError, ValidationError } from '../errors/app-error.js'
+import { FieldValue } from '@google-cloud/firestore'
+import { createMockTransaction, mockRunTransaction } from '../test/firestore.js'
 import type { Museum } from '../schemas/museum.schema.js'
 import type { MuseumDocument } from '../types/museum.js'
 
@@ -7,9 +19,23 @@ import type { MuseumDocument } from '../types/museum.js'
 vi.mock('../lib/firestore.js', () => ({
   default: {
     collection: vi.fn(),
+    runTransaction: vi.fn(),
   },
 }))
 
+const tokyoNationalMuseum = {
+  name: '東京国立博物館',
+  address: '東京都台東区上野公園13-9',
+  access: 'JR上野駅から徒歩10分',
+  openingInformation: '9:30-17:00',
+  officialUrl: 'https://www.tnm.jp/',
+  scrapeUrl: 'https://museum1.com/exhibitions',
+  scrapeEnabled: true,
+  venueType: '博物館',
+  area: '上野',
+  aliases: ['東博', 'トーハク'],
+} satisfies MuseumDocument
+
 describe('museum.service', () => {
   describe('buildMuseumMaps', () => {
     it('should build correct maps for museums with aliases', () => {
@@ -78,6 +104,29 @@ describe('museum.service', () => {
       expect(maps.nameToId.get('東京国立博物館')).toBe('museum1')
     })
 
+    it('should index normalized names and aliases', () => {
+      const museums = [
+        {
+          id: 'museum1',
+          name: '東京都美術館',
+          address: '東京都台東区上野公園8-36',
+          access: 'JR上野駅から徒歩7分',
+          openingInformation: '9:30-17:30',
+          officialUrl: 'https://www.tobikan.jp/',
+          scrapeUrl: 'https://example.com',
+          scrapeEnabled: true,
+          venueType: '美術館',
+          area: '上野',
+          aliases: ['都美 Ｔｏｂｉｋａｎ'],
+        },
+      ] satisfies Museum[]
+
+      const maps = buildMuseumMaps(museums)
+
+      expect(maps.normalizedToName.get('東京都美術館')).toBe('東京都美術館')
+      expect(maps.normalizedToName.get('都美tobikan')).toBe('東京都美術館')
+    })
+
     it('should handle empty museum array', () => {
       const museums: Museum[] = []
 
@@ -85,6 +134,7 @@ describe('museum.service', () => {
 
       expect(maps.aliasToName.size).toBe(0)
       expect(maps.nameToId.size).toBe(0)
+      expect(maps.normalizedToName.size).toBe(0)
     })
 
     it('should map all aliases to the same canonical name', () => {
@@ -308,4 +358,210 @@ describe('museum.service', () => {
       expect(result).toHaveLength(0)
     })
   })
+
+  describe('fetchMuseumById', () => {
+    beforeEach(() => {
+      vi.clearAllMocks()
+    })
+
+    it('should fetch a museum even when scraping is disabled', async () => {
+      const mockMuseumData: MuseumDocument = {
+        name: '国立西洋美術館',
+        address: '東京都台東区上野公園7-7',
+        access: 'JR上野駅から徒歩1分',
+        openingInformation: '9:30-17:30',
+        officialUrl: 'https://www.nmwa.go.jp/',
+        scrapeUrl: 'https://museum2.com/exhibitions',
+        scrapeEnabled: false,
+        venueType: '美術館',
+        area: '上野',
+      }
+
+      const mockDoc = vi.fn().mockReturnValue({
+        get: vi.fn().mockResolvedValue({
+          id: 'museum2',
+          exists: true,
+          data: () => mockMuseumData,
+        }),
+      })
+
+      const db = await import('../lib/firestore.js')
+      vi.mocked(db.default.collection).mockReturnValue({
+        doc: mockDoc,
+      } as never)
+
+      const result = await fetchMuseumById('museum2')
+
+      expect(db.default.collection).toHaveBeenCalledWith('museum')
+      expect(mockDoc).toHaveBeenCalledWith('museum2')
+      expect(result).toEqual({ ...mockMuseumData, id: 'museum2' })
+    })
+
+    it('should throw NotFoundError when the museum does not exist', async () => {
+      const db = await import('../lib/firestore.js')
+      vi.mocked(db.default.collection).mockReturnValue({
+        doc: vi.fn().mockReturnValue({
+          get: vi.fn().mockResolvedValue({ exists: false }),
+        }),
+      } as never)
+
+      await expect(fetchMuseumById('missing')).rejects.toThrow(NotFoundError)
+    })
+  })
+
+  describe('assertNamesAvailable', () => {
+    const museums = [{ ...tokyoNationalMuseum, id: 'museum1' }] satisfies Museum[]
+
+    it('should accept names that no other museum claims', () => {
+      expect(() => assertNamesAvailable(museums, ['国立西洋美術館', '西洋美術館'])).not.toThrow()
+    })
+
+    it('should reject names claimed by another museum, ignoring formatting differences', () => {
+      expect(() => assertNamesAvailable(museums, ['国立西洋美術館', '東博 '])).toThrow(
+        ConflictError,
+      )
+      expect(() => assertNamesAvailable(museums, ['トーハク'])).toThrow(
+        'Names already used by another museum: トーハク (museum1)',
+      )
+    })
+
+    it('should ignore the names of the excluded museum', () => {
+      expect(() => assertNamesAvailable(museums, ['東博'], 'museum1')).not.toThrow()
+    })
+
+    it('should reject names repeated within the request', () => {
+      expect(() => assertNamesAvailable(museums, ['国立西洋美術館', '国立西洋美術館 '])).toThrow(
+        'Names are repeated: 国立西洋美術館 ',
+      )
+      expect(() =>
+        assertNamesAvailable(museums, ['西洋美術館', '国立西洋美術館', '西洋美術館']),
+      ).toThrow(ValidationError)
+    })
+  })
+
+  describe('createMuseum', () => {
+    beforeEach(() => {
+      vi.clearAllMocks()
+    })
+
+    it('should reject a museum whose alias is already claimed', async () => {
+      const mockTransaction = createMockTransaction({
+        get: vi.fn().mockResolvedValue({
+          docs: [{ id: 'museum1', data: () => tokyoNationalMuseum }],
+        }),
+      })
+
+      const db = await import('../lib/firestore.js')
+      vi.mocked(db.default.collection).mockReturnValue({
+        doc: vi.fn().mockReturnValue({ id: 'new-museum' }),
+      } as never)
+      mockRunTransaction(mockTransaction)
+
+      await expect(
+        createMuseum({
+          ...tokyoNationalMuseum,
+          name: '東京国立博物館 表慶館',
+          aliases: ['東博'],
+        }),
+      ).rejects.toThrow(ConflictError)
+      expect(mockTransaction.set).not.toHaveBeenCalled()
+    })
+
+    it('should create a museum with a generated ID', async () => {
+      const mockTransaction = createMockTransaction({
+        get: vi.fn().mockResolvedValue({ docs: [] }),
+      })
+
+      const db = await import('../lib/firestore.js')
+      vi.mocked(db.default.collection).mockReturnValue({
+        doc: vi.fn().mockReturnValue({ id: 'new-museum' }),
+      } as never)
+      mockRunTransaction(mockTransaction)
+
+      const result = await createMuseum(tokyoNationalMuseum)
+
+      expect(result).toEqual({ ...tokyoNationalMuseum, id: 'new-museum' })
+      expect(mockTransaction.set).toHaveBeenCalledWith({ id: 'new-museum' }, tokyoNationalMuseum)
+    })
+  })
+
+  describe('updateMuseum', () => {
+    beforeEach(() => {
+      vi.clearAllMocks()
+    })
+
+    it('should update fields without checking names when they are unchanged', async () => {
+      const mockTransaction = createMockTransaction({
+        get: vi.fn().mockResolvedValue({ exists: true, data: () => tokyoNationalMuseum }),
+      })
+
+      const db = await import('../lib/firestore.js')
+      vi.mocked(db.default.collection).mockReturnValue({
+        doc: vi.fn().mockReturnValue({ id: 'museum1' }),
+      } as never)
+      mockRunTransaction(mockTransaction)
+
+      const result = await updateMuseum('museum1', { scrapeEnabled: false })
+
+      expect(result.scrapeEnabled).toBe(false)
+      expect(mockTransaction.get).toHaveBeenCalledTimes(1)
+      expect(mockTransaction.update).toHaveBeenCalledWith(
+        { id: 'museum1' },
+        { scrapeEnabled: false },
+      )
+    })
+
+    it('should clear aliases and crawl settings set to null', async () => {
+      const mockTransaction = createMockTransaction({
+        get: vi
+          .fn()
+          .mockResolvedValueOnce({
+            exists: true,
+            data: () => ({ ...tokyoNationalMuseum, crawl: { maxCrawlingDepth: 2 } }),
+          })
+          .mockResolvedValueOnce({ docs: [] }),
+      })
+
+      const db = await import('../lib/firestore.js')
+      vi.mocked(db.default.collection).mockReturnValue({
+        doc: vi.fn().mockReturnValue({ id: 'museum1' }),
+      } as never)
+      mockRunTransaction(mockTransaction)
+
+      const result = await updateMuseum('museum1', { aliases: null, crawl: null })
+
+      expect(result).not.toHaveProperty('aliases')
+      expect(result).not.toHaveProperty('crawl')
+      expect(mockTransaction.update).toHaveBeenCalledWith(
+        { id: 'museum1' },
+        { aliases: FieldValue.delete(), crawl: FieldValue.delete() },
+      )
+    })
+  })
+
+  describe('deleteMuseum', () => {
+    beforeEach(() => {
+      vi.clearAllMocks()
+    })
+
+    it('should refuse to delete a museum that still has exhibitions', async () => {
+      const mockTransaction = createMockTransaction({
+        get: vi
+          .fn()
+          .mockResolvedValueOnce({ exists: true, data: () => tokyoNationalMuseum })
+          .mockResolvedValueOnce({ empty: false }),
+      })
+
+      const mockQuery = { limit: vi.fn().mockReturnThis() }
+      const db = await import('../lib/firestore.js')
+      vi.mocked(db.default.collection).mockReturnValue({
+        doc: vi.fn().mockReturnValue({ id: 'museum1' }),
+        where: vi.fn().mockReturnValue(mockQuery),
+      } as never)
+      mockRunTransaction(mockTransaction)
+
+      await expect(deleteMuseum('museum1')).rejects.toThrow(ConflictError)
+      expect(mockTransaction.delete).not.toHaveBeenCalled()
+    })
+  })
 })
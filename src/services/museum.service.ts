@@ -1,8 +1,16 @@
 import db from '../lib/firestore.js'
-import type { Museum } from '../schemas/museum.schema.js'
+import { FieldValue } from '@google-cloud/firestore'
+import { ConflictError, NotFoundError, ValidationError } from '../errors/app-error.js'
+import { normalizeVenueName } from '../utils/text.js'
+import type { Museum, MuseumInput, MuseumUpdate } from '../schemas/museum.schema.js'
 import type { MuseumDocument, MuseumMaps } from '../types/museum.js'
+import type { ScraperProviderName } from '../types/scraper.js'
 
-export async function fetchEnabledMuseumsWithUrls(): Promise<{
+/**
+ * Fetch the museums enabled for scraping, optionally only those using the given provider
+ * (museums without scraper settings use Apify)
+ */
+export async function fetchEnabledMuseumsWithUrls(provider?: ScraperProviderName): Promise<{
   museums: Museum[]
   startUrls: Array<{ url: string; method: 'GET' }>
 }> {
@@ -13,6 +21,9 @@ export async function fetchEnabledMuseumsWithUrls(): Promise<{
 
   snapshot.docs.forEach((doc) => {
     const museum = doc.data() as MuseumDocument
+    if (provider && (museum.scraper?.provider ?? 'apify') !== provider) {
+      return
+    }
     museums.push({
       ...museum,
       id: doc.id,
@@ -26,6 +37,31 @@ export async function fetchEnabledMuseumsWithUrls(): Promise<{
   return { museums, startUrls }
 }
 
+export async function fetchMuseumById(id: string): Promise<Museum> {
+  const doc = await db.collection('museum').doc(id).get()
+  if (!doc.exists) {
+    throw new NotFoundError(`Museum not found: ${id}`)
+  }
+  return {
+    ...(doc.data() as MuseumDocument),
+    id: doc.id,
+  }
+}
+
+export async function fetchMuseumsByIds(ids: string[]): Promise<Museum[]> {
+  if (ids.length === 0) {
+    return []
+  }
+
+  const docs = await db.getAll(...ids.map((id) => db.collection('museum').doc(id)))
+  return docs
+    .filter((doc) => doc.exists)
+    .map((doc) => ({
+      ...(doc.data() as MuseumDocument),
+      id: doc.id,
+    }))
+}
+
 export async function fetchAllMuseums(): Promise<Museum[]> {
   const snapshot = await db.collection('museum').get()
   return snapshot.docs.map((doc) => {
@@ -40,6 +76,7 @@ export async function fetchAllMuseums(): Promise<Museum[]> {
 export function buildMuseumMaps(museums: Museum[]): MuseumMaps {
   const aliasToName = new Map<string, string>()
   const nameToId = new Map<string, string>()
+  const normalizedToName = new Map<string, string>()
 
   for (const museum of museums) {
     // Map museum canonical name to ID
@@ -47,12 +84,141 @@ export function buildMuseumMaps(museums: Museum[]): MuseumMaps {
 
     // Map canonical name and aliases to canonical name
     aliasToName.set(museum.name, museum.name)
+    normalizedToName.set(normalizeVenueName(museum.name), museum.name)
     if (museum.aliases) {
       for (const alias of museum.aliases) {
         aliasToName.set(alias, museum.name)
+        normalizedToName.set(normalizeVenueName(alias), museum.name)
       }
     }
   }
 
-  return { aliasToName, nameToId }
+  return { aliasToName, nameToId, normalizedToName }
+}
+
+/**
+ * Get the canonical name and all aliases of a museum
+ */
+export function getVenueNames(name: string, museumMaps: MuseumMaps): string[] {
+  return [...museumMaps.aliasToName]
+    .filter(([, canonicalName]) => canonicalName === name)
+    .map(([alias]) => alias)
+}
+
+/**
+ * Throw a ConflictError if any of the names is already claimed (as name or alias) by another museum,
+ * and a ValidationError if the names repeat each other (e.g. an alias equal to the museum's name)
+ * Names are compared in their normalized form, since that is how scraped venues are resolved.
+ */
+export function assertNamesAvailable(museums: Museum[], names: string[], excludeId?: string): void {
+  const seen = new Set<string>()
+  const repeated = names.filter((name) => {
+    const normalized = normalizeVenueName(name)
+    if (seen.has(normalized)) {
+      return true
+    }
+    seen.add(normalized)
+    return false
+  })
+  if (repeated.length > 0) {
+    throw new ValidationError(`Names are repeated: ${repeated.join(', ')}`)
+  }
+
+  const claimed = new Map<string, string>()
+  for (const museum of museums) {
+    if (museum.id === excludeId) {
+      continue
+    }
+    for (const name of [museum.name, ...(museum.aliases ?? [])]) {
+      claimed.set(normalizeVenueName(name), museum.id)
+    }
+  }
+
+  const conflicts = names
+    .filter((name) => claimed.has(normalizeVenueName(name)))
+    .map((name) => `${name} (${claimed.get(normalizeVenueName(name))})`)
+
+  if (conflicts.length > 0) {
+    throw new ConflictError(`Names already used by another museum: ${conflicts.join(', ')}`)
+  }
+}
+
+function toMuseums(snapshot: FirebaseFirestore.QuerySnapshot): Museum[] {
+  return snapshot.docs.map((doc) => ({
+    ...(doc.data() as MuseumDocument),
+    id: doc.id,
+  }))
+}
+
+export async function createMuseum(input: MuseumInput): Promise<Museum> {
+  const docRef = db.collection('museum').doc()
+
+  await db.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(db.collection('museum'))
+    assertNamesAvailable(toMuseums(snapshot), [input.name, ...(input.aliases ?? [])])
+
+    transaction.set(docRef, input satisfies MuseumDocument)
+  })
+
+  return { ...input, id: docRef.id }
+}
+
+export async function updateMuseum(id: string, update: MuseumUpdate): Promise<Museum> {
+  const docRef = db.collection('museum').doc(id)
+
+  return db.runTransaction(async (transaction) => {
+    const doc = await transaction.get(docRef)
+    if (!doc.exists) {
+      throw new NotFoundError(`Museum not found: ${id}`)
+    }
+
+    const { aliases, crawl, ...fields } = update
+    const museum: Museum = {
+      ...(doc.data() as MuseumDocument),
+      ...fields,
+      ...(aliases && { aliases }),
+      ...(crawl && { crawl }),
+      id,
+    }
+    // Fields set to null are cleared
+    if (aliases === null) {
+      delete museum.aliases
+    }
+    if (crawl === null) {
+      delete museum.crawl
+    }
+
+    // Only check names when they change, so existing data does not block unrelated edits
+    if (update.name !== undefined || update.aliases !== undefined) {
+      const snapshot = await transaction.get(db.collection('museum'))
+      assertNamesAvailable(toMuseums(snapshot), [museum.name, ...(museum.aliases ?? [])], id)
+    }
+
+    transaction.update(docRef, {
+      ...fields,
+      ...(aliases !== undefined && { aliases: aliases ?? FieldValue.delete() }),
+      ...(crawl !== undefined && { crawl: crawl ?? FieldValue.delete() }),
+    })
+    return museum
+  })
+}
+
+export async function deleteMuseum(id: string): Promise<void> {
+  const docRef = db.collection('museum').doc(id)
+
+  await db.runTransaction(async (transaction) => {
+    const doc = await transaction.get(docRef)
+    if (!doc.exists) {
+      throw new NotFoundError(`Museum not found: ${id}`)
+    }
+
+    const exhibitions = await transaction.get(
+      db.collection('exhibition').where('museumId', '==', id).limit(1),
+    )
+    if (!exhibitions.empty) {
+      throw new ConflictError(`Museum ${id} still has exhibitions`)
+    }
+
+    transaction.delete(docRef)
+  })
 }
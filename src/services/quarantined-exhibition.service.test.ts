@@ -0,0 +1,238 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { Timestamp } from '@google-cloud/firestore'
+import {
+  quarantineExhibitions,
+  fetchReleasableExhibition,
+  releaseQuarantinedExhibition,
+  discardQuarantinedExhibition,
+} from './quarantined-exhibition.service.js'
+import { NotFoundError, ValidationError } from '../errors/app-error.js'
+import { createMockTransaction, mockRunTransaction } from '../test/firestore.js'
+import type { MockTransaction } from '../test/firestore.js'
+import type { QuarantineCandidate } from '../types/quarantined-exhibition.js'
+
+// Mock Firestore
+vi.mock('../lib/firestore.js', () => ({
+  default: {
+    collection: vi.fn(),
+    runTransaction: vi.fn(),
+  },
+}))
+
+async function setupFirestore(mockTransaction: MockTransaction) {
+  const db = await import('../lib/firestore.js')
+  vi.mocked(db.default.collection).mockImplementation(
+    () =>
+      ({
+        doc: vi.fn().mockImplementation((id: string) => ({ id })),
+      }) as never,
+  )
+  mockRunTransaction(mockTransaction)
+  return db
+}
+
+const candidates = [
+  {
+    exhibition: { title: '常設展', venue: '東京国立博物館' },
+    violations: [{ code: 'BLOCKED_TITLE', message: 'Title matches blocked pattern /^常設展/' }],
+  },
+] satisfies QuarantineCandidate[]
+
+describe('quarantined-exhibition.service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('quarantineExhibitions', () => {
+    it('should create an open quarantine document', async () => {
+      const mockTransaction = createMockTransaction({
+        getAll: vi.fn().mockResolvedValue([{ exists: false }]),
+      })
+      await setupFirestore(mockTransaction)
+
+      const released = await quarantineExhibitions(candidates, 'scrape')
+
+      expect(released).toEqual([])
+      expect(mockTransaction.set).toHaveBeenCalledTimes(1)
+      expect(mockTransaction.set.mock.calls[0][1]).toMatchObject({
+        exhibition: candidates[0].exhibition,
+        origin: 'scrape',
+        status: 'open',
+        violations: candidates[0].violations,
+        occurrenceCount: 1,
+      })
+    })
+
+    it('should keep the status of discarded exhibitions', async () => {
+      const firstSeenAt = Timestamp.fromDate(new Date('2025-01-01T00:00:00.000Z'))
+      const mockTransaction = createMockTransaction({
+        getAll: vi.fn().mockResolvedValue([
+          {
+            exists: true,
+            data: () => ({ status: 'discarded', occurrenceCount: 2, firstSeenAt }),
+          },
+        ]),
+      })
+      await setupFirestore(mockTransaction)
+
+      await quarantineExhibitions(candidates, 'scrape')
+
+      expect(mockTransaction.set.mock.calls[0][1]).toMatchObject({
+        status: 'discarded',
+        occurrenceCount: 3,
+        firstSeenAt,
+      })
+    })
+
+    it('should return released exhibitions without quarantining them again', async () => {
+      const mockTransaction = createMockTransaction({
+        getAll: vi.fn().mockResolvedValue([{ exists: true, data: () => ({ status: 'released' }) }]),
+      })
+      await setupFirestore(mockTransaction)
+
+      const released = await quarantineExhibitions(candidates, 'scrape')
+
+      expect(released).toEqual([candidates[0].exhibition])
+      expect(mockTransaction.set).not.toHaveBeenCalled()
+    })
+
+    it('should apply the corrected dates of released exhibitions whose dates cannot be parsed', async () => {
+      const mockTransaction = createMockTransaction({
+        getAll: vi.fn().mockResolvedValue([
+          {
+            exists: true,
+            data: () => ({ status: 'released', correctedDates: { startDate: '2025-04-01' } }),
+          },
+        ]),
+      })
+      await setupFirestore(mockTransaction)
+      const exhibition = { title: '春の特別展', venue: '東京国立博物館', startDate: '近日公開' }
+
+      const released = await quarantineExhibitions(
+        [{ exhibition, violations: [{ code: 'UNPARSEABLE_DATE', message: 'Unparseable' }] }],
+        'scrape',
+      )
+
+      expect(released).toEqual([{ ...exhibition, startDate: '2025-04-01' }])
+    })
+
+    it('should not write in dry-run mode', async () => {
+      const mockTransaction = createMockTransaction({
+        getAll: vi.fn().mockResolvedValue([{ exists: false }]),
+      })
+      const db = await setupFirestore(mockTransaction)
+
+      await quarantineExhibitions(candidates, 'scrape', true)
+
+      expect(mockTransaction.set).not.toHaveBeenCalled()
+      expect(db.default.runTransaction).toHaveBeenCalledWith(expect.any(Function), {
+        readOnly: true,
+      })
+    })
+  })
+
+  describe('fetchReleasableExhibition', () => {
+    async function setupDocument(data: Record<string, unknown>) {
+      const db = await import('../lib/firestore.js')
+      vi.mocked(db.default.collection).mockReturnValue({
+        doc: vi.fn().mockReturnValue({
+          get: vi.fn().mockResolvedValue({ exists: true, data: () => data }),
+        }),
+      } as never)
+    }
+
+    it('should reject an exhibition whose dates still cannot be parsed', async () => {
+      await setupDocument({
+        status: 'open',
+        exhibition: { title: '春の特別展', venue: '東京国立博物館', startDate: '近日公開' },
+        origin: 'scrape',
+      })
+
+      await expect(fetchReleasableExhibition('q1')).rejects.toThrow(ValidationError)
+    })
+
+    it('should apply the corrected dates', async () => {
+      await setupDocument({
+        status: 'open',
+        exhibition: { title: '春の特別展', venue: '東京国立博物館', startDate: '近日公開' },
+        origin: 'scrape',
+      })
+
+      const result = await fetchReleasableExhibition('q1', { startDate: '2025-04-01' })
+
+      expect(result).toEqual({
+        exhibition: { title: '春の特別展', venue: '東京国立博物館', startDate: '2025-04-01' },
+        origin: 'scrape',
+      })
+    })
+
+    it('should reject an exhibition that was already resolved', async () => {
+      await setupDocument({ status: 'released', exhibition: candidates[0].exhibition })
+
+      await expect(fetchReleasableExhibition('q1')).rejects.toThrow(ValidationError)
+    })
+  })
+
+  describe('releaseQuarantinedExhibition', () => {
+    it('should mark an open exhibition as released', async () => {
+      const mockTransaction = createMockTransaction({
+        get: vi.fn().mockResolvedValue({
+          exists: true,
+          data: () => ({ status: 'open', exhibition: candidates[0].exhibition, origin: 'scrape' }),
+        }),
+      })
+      await setupFirestore(mockTransaction)
+
+      const result = await releaseQuarantinedExhibition('q1', 'reviewer')
+
+      expect(result).toMatchObject({
+        status: 'released',
+        resolvedBy: 'reviewer',
+        exhibition: candidates[0].exhibition,
+        origin: 'scrape',
+      })
+      expect(mockTransaction.update).toHaveBeenCalledWith(
+        { id: 'q1' },
+        expect.objectContaining({ status: 'released', resolvedBy: 'reviewer' }),
+      )
+    })
+
+    it('should record the corrected dates', async () => {
+      const mockTransaction = createMockTransaction({
+        get: vi.fn().mockResolvedValue({ exists: true, data: () => ({ status: 'open' }) }),
+      })
+      await setupFirestore(mockTransaction)
+
+      await releaseQuarantinedExhibition('q1', 'reviewer', { startDate: '2025-04-01' })
+
+      expect(mockTransaction.update).toHaveBeenCalledWith(
+        { id: 'q1' },
+        expect.objectContaining({
+          status: 'released',
+          correctedDates: { startDate: '2025-04-01' },
+        }),
+      )
+    })
+
+    it('should throw NotFoundError when the document does not exist', async () => {
+      const mockTransaction = createMockTransaction({
+        get: vi.fn().mockResolvedValue({ exists: false }),
+      })
+      await setupFirestore(mockTransaction)
+
+      await expect(releaseQuarantinedExhibition('q1', 'reviewer')).rejects.toThrow(NotFoundError)
+    })
+  })
+
+  describe('discardQuarantinedExhibition', () => {
+    it('should throw ValidationError when the exhibition was already resolved', async () => {
+      const mockTransaction = createMockTransaction({
+        get: vi.fn().mockResolvedValue({ exists: true, data: () => ({ status: 'released' }) }),
+      })
+      await setupFirestore(mockTransaction)
+
+      await expect(discardQuarantinedExhibition('q1', 'reviewer')).rejects.toThrow(ValidationError)
+      expect(mockTransaction.update).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,211 @@
+import db from '../lib/firestore.js'
+import { Timestamp } from '@google-cloud/firestore'
+import { NotFoundError, ValidationError } from '../errors/app-error.js'
+import { getQuarantinedExhibitionDocumentId } from '../utils/hash.js'
+import { parseExhibitionDates } from '../utils/date.js'
+import type { ScrapedExhibition } from '../schemas/exhibition.schema.js'
+import type { ScrapeOrigin } from '../types/exhibition.js'
+import type {
+  CorrectedDates,
+  QuarantineCandidate,
+  QuarantinedExhibition,
+  QuarantinedExhibitionDocument,
+  QuarantineStatus,
+} from '../types/quarantined-exhibition.js'
+
+function toQuarantinedExhibition(
+  id: string,
+  data: QuarantinedExhibitionDocument,
+): QuarantinedExhibition {
+  const { firstSeenAt, lastSeenAt, resolvedAt, ...rest } = data
+  return {
+    ...rest,
+    id,
+    firstSeenAt: firstSeenAt.toDate().toISOString(),
+    lastSeenAt: lastSeenAt.toDate().toISOString(),
+    ...(resolvedAt && { resolvedAt: resolvedAt.toDate().toISOString() }),
+  }
+}
+
+/**
+ * Persist exhibitions that failed semantic validation
+ * Exhibitions that were already released by a reviewer are not quarantined again and are
+ * returned so the caller can process them. Discarded exhibitions only have their occurrence
+ * count updated. Nothing is written in dry-run mode.
+ *
+ * @returns The previously released exhibitions
+ */
+export async function quarantineExhibitions(
+  candidates: QuarantineCandidate[],
+  origin: ScrapeOrigin,
+  dryRun = false,
+): Promise<ScrapedExhibition[]> {
+  if (candidates.length === 0) {
+    return []
+  }
+
+  const docRefs = candidates.map(({ exhibition }) =>
+    db
+      .collection('quarantinedExhibition')
+      .doc(getQuarantinedExhibitionDocumentId(exhibition.venue, exhibition.title)),
+  )
+
+  return db.runTransaction(
+    async (transaction) => {
+      const existingDocs = await transaction.getAll(...docRefs)
+      const now = Timestamp.now()
+      const released: ScrapedExhibition[] = []
+
+      existingDocs.forEach((existingDoc, i) => {
+        const { exhibition, violations } = candidates[i]
+        const existing = existingDoc.exists
+          ? (existingDoc.data() as QuarantinedExhibitionDocument)
+          : undefined
+
+        if (existing?.status === 'released') {
+          // Dates the reviewer corrected replace scraped dates that still cannot be parsed
+          const unparseable = violations.some(({ code }) => code === 'UNPARSEABLE_DATE')
+          released.push(
+            unparseable && existing.correctedDates
+              ? { ...exhibition, ...existing.correctedDates }
+              : exhibition,
+          )
+          return
+        }
+        if (dryRun) {
+          return
+        }
+
+        transaction.set(docRefs[i], {
+          exhibition,
+          origin,
+          status: existing?.status ?? 'open',
+          violations,
+          occurrenceCount: (existing?.occurrenceCount ?? 0) + 1,
+          firstSeenAt: existing?.firstSeenAt ?? now,
+          lastSeenAt: now,
+          ...(existing?.resolvedBy && { resolvedBy: existing.resolvedBy }),
+          ...(existing?.resolvedAt && { resolvedAt: existing.resolvedAt }),
+          ...(existing?.correctedDates && { correctedDates: existing.correctedDates }),
+        } satisfies QuarantinedExhibitionDocument)
+      })
+
+      return released
+    },
+    dryRun ? { readOnly: true } : undefined,
+  )
+}
+
+export async function fetchQuarantinedExhibitions(
+  status: QuarantineStatus,
+  limit: number,
+): Promise<QuarantinedExhibition[]> {
+  const snapshot = await db
+    .collection('quarantinedExhibition')
+    .where('status', '==', status)
+    .orderBy('lastSeenAt', 'desc')
+    .limit(limit)
+    .get()
+  return snapshot.docs.map((doc) =>
+    toQuarantinedExhibition(doc.id, doc.data() as QuarantinedExhibitionDocument),
+  )
+}
+
+export async function fetchQuarantinedExhibitionById(id: string): Promise<QuarantinedExhibition> {
+  const doc = await db.collection('quarantinedExhibition').doc(id).get()
+  if (!doc.exists) {
+    throw new NotFoundError(`Quarantined exhibition not found: ${id}`)
+  }
+  return toQuarantinedExhibition(doc.id, doc.data() as QuarantinedExhibitionDocument)
+}
+
+/**
+ * Move an open quarantined exhibition to a resolved status
+ *
+ * @returns The updated quarantined exhibition
+ */
+async function resolveQuarantinedExhibition(
+  id: string,
+  status: Exclude<QuarantineStatus, 'open'>,
+  resolvedBy: string,
+  fields: Partial<QuarantinedExhibitionDocument> = {},
+): Promise<QuarantinedExhibitionDocument> {
+  const docRef = db.collection('quarantinedExhibition').doc(id)
+
+  return db.runTransaction(async (transaction) => {
+    const doc = await transaction.get(docRef)
+
+    if (!doc.exists) {
+      throw new NotFoundError(`Quarantined exhibition not found: ${id}`)
+    }
+
+    const data = doc.data() as QuarantinedExhibitionDocument
+    if (data.status !== 'open') {
+      throw new ValidationError(`Quarantined exhibition ${id} is already ${data.status}`)
+    }
+
+    const update = { ...fields, status, resolvedBy, resolvedAt: Timestamp.now() }
+    transaction.update(docRef, update)
+
+    return { ...data, ...update }
+  })
+}
+
+/**
+ * Read an open quarantined exhibition to be released, with the reviewer's corrected dates applied
+ * Releasing does not re-run validation, so the dates must at least be readable, otherwise the
+ * exhibition could never be written.
+ *
+ * @returns The exhibition to be processed by the caller before it is released
+ */
+export async function fetchReleasableExhibition(
+  id: string,
+  correctedDates: CorrectedDates = {},
+): Promise<Pick<QuarantinedExhibitionDocument, 'exhibition' | 'origin'>> {
+  const doc = await db.collection('quarantinedExhibition').doc(id).get()
+  if (!doc.exists) {
+    throw new NotFoundError(`Quarantined exhibition not found: ${id}`)
+  }
+
+  const data = doc.data() as QuarantinedExhibitionDocument
+  if (data.status !== 'open') {
+    throw new ValidationError(`Quarantined exhibition ${id} is already ${data.status}`)
+  }
+
+  const exhibition = { ...data.exhibition, ...correctedDates }
+  try {
+    parseExhibitionDates(exhibition.startDate, exhibition.endDate)
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      throw new ValidationError(
+        `Quarantined exhibition ${id} cannot be released: ${error.message}. Correct its startDate and endDate`,
+      )
+    }
+    throw error
+  }
+
+  return { exhibition, origin: data.origin }
+}
+
+/**
+ * Mark a quarantined exhibition as valid once it has been processed
+ * Future scrapes of the same exhibition skip quarantine, with the corrected dates applied.
+ *
+ * @returns The released quarantined exhibition
+ */
+export async function releaseQuarantinedExhibition(
+  id: string,
+  resolvedBy: string,
+  correctedDates: CorrectedDates = {},
+): Promise<QuarantinedExhibitionDocument> {
+  return resolveQuarantinedExhibition(
+    id,
+    'released',
+    resolvedBy,
+    Object.keys(correctedDates).length > 0 ? { correctedDates } : {},
+  )
+}
+
+export async function discardQuarantinedExhibition(id: string, resolvedBy: string): Promise<void> {
+  await resolveQuarantinedExhibition(id, 'discarded', resolvedBy)
+}
@@ -0,0 +1,287 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { Timestamp } from '@google-cloud/firestore'
+import {
+  trackScrapeRun,
+  claimScrapeRun,
+  fetchScrapeRuns,
+  fetchScrapeRunById,
+  comparePromptVersions,
+  settleScrapeRun,
+} from './scrape-run.service.js'
+import { NotFoundError } from '../errors/app-error.js'
+import { createMockTransaction, mockRunTransaction } from '../test/firestore.js'
+
+// Mock Firestore
+vi.mock('../lib/firestore.js', () => ({
+  default: {
+    collection: vi.fn(),
+    runTransaction: vi.fn(),
+  },
+}))
+
+describe('scrape-run.service', () => {
+  describe('trackScrapeRun', () => {
+    beforeEach(() => {
+      vi.clearAllMocks()
+    })
+
+    it('should create a running run and mark it as succeeded with the collected context', async () => {
+      const mockSet = vi.fn().mockResolvedValue(undefined)
+      const mockUpdate = vi.fn().mockResolvedValue(undefined)
+      const mockDoc = vi.fn().mockReturnValue({ id: 'run1', set: mockSet, update: mockUpdate })
+
+      const db = await import('../lib/firestore.js')
+      vi.mocked(db.default.collection).mockReturnValue({ doc: mockDoc } as never)
+
+      const result = await trackScrapeRun('scrape', async (run) => {
+        run.museumIds = ['museum1']
+        run.apifyRunId = 'apify-run-1'
+        run.stats = { created: 1, updated: 0, skipped: 2, errors: 0 }
+        return 'done'
+      })
+
+      expect(result).toBe('done')
+      expect(db.default.collection).toHaveBeenCalledWith('scrapeRun')
+      expect(mockSet).toHaveBeenCalledWith(
+        expect.objectContaining({ origin: 'scrape', status: 'running' }),
+      )
+      expect(mockUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 'succeeded',
+          museumIds: ['museum1'],
+          apifyRunId: 'apify-run-1',
+          stats: { created: 1, updated: 0, skipped: 2, errors: 0 },
+        }),
+      )
+    })
+
+    it('should mark the run as failed and rethrow the original error', async () => {
+      const mockSet = vi.fn().mockResolvedValue(undefined)
+      const mockUpdate = vi.fn().mockResolvedValue(undefined)
+      const mockDoc = vi.fn().mockReturnValue({ id: 'run1', set: mockSet, update: mockUpdate })
+
+      const db = await import('../lib/firestore.js')
+      vi.mocked(db.default.collection).mockReturnValue({ doc: mockDoc } as never)
+
+      await expect(
+        trackScrapeRun('scrape-feed', async () => {
+          throw new Error('Actor failed')
+        }),
+      ).rejects.toThrow('Actor failed')
+
+      expect(mockUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'failed', failureReason: 'Actor failed' }),
+      )
+    })
+
+    it('should not mask the original error when recording the failure fails', async () => {
+      const mockSet = vi.fn().mockResolvedValue(undefined)
+      const mockUpdate = vi.fn().mockRejectedValue(new Error('Firestore unavailable'))
+      const mockDoc = vi.fn().mockReturnValue({ id: 'run1', set: mockSet, update: mockUpdate })
+
+      const db = await import('../lib/firestore.js')
+      vi.mocked(db.default.collection).mockReturnValue({ doc: mockDoc } as never)
+
+      await expect(
+        trackScrapeRun('scrape', async () => {
+          throw new Error('Actor failed')
+        }),
+      ).rejects.toThrow('Actor failed')
+    })
+  })
+
+  describe('claimScrapeRun', () => {
+    beforeEach(() => {
+      vi.clearAllMocks()
+    })
+
+    async function setupTransaction(status: string) {
+      const transaction = {
+        get: vi.fn().mockResolvedValue({ exists: true, data: () => ({ status }) }),
+        update: vi.fn(),
+      }
+      const db = await import('../lib/firestore.js')
+      vi.mocked(db.default.collection).mockReturnValue({
+        doc: vi.fn().mockReturnValue({ id: 'run1' }),
+      } as never)
+      vi.mocked(db.default.runTransaction).mockImplementation(async (callback) =>
+        callback(transaction as never),
+      )
+      return transaction
+    }
+
+    it('should move a running run to processing', async () => {
+      const transaction = await setupTransaction('running')
+
+      await expect(claimScrapeRun('run1')).resolves.toBe(true)
+      expect(transaction.update).toHaveBeenCalledWith({ id: 'run1' }, { status: 'processing' })
+    })
+
+    it('should not claim a run that is already being processed', async () => {
+      const transaction = await setupTransaction('processing')
+
+      await expect(claimScrapeRun('run1')).resolves.toBe(false)
+      expect(transaction.update).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('settleScrapeRun', () => {
+    beforeEach(() => {
+      vi.clearAllMocks()
+    })
+
+    async function setupTransaction(jobStatuses: string[]) {
+      const transaction = createMockTransaction({
+        get: vi.fn().mockResolvedValue({
+          data: () => ({ status: 'running', jobIds: jobStatuses.map((_, i) => `job${i}`) }),
+        }),
+        getAll: vi
+          .fn()
+          .mockResolvedValue(jobStatuses.map((status) => ({ data: () => ({ status }) }))),
+      })
+      const db = await import('../lib/firestore.js')
+      vi.mocked(db.default.collection).mockReturnValue({
+        doc: vi.fn().mockImplementation((id: string) => ({ id })),
+      } as never)
+      mockRunTransaction(transaction)
+      return transaction
+    }
+
+    it('should stay running while a job is still running', async () => {
+      const transaction = await setupTransaction(['succeeded', 'processing'])
+
+      await settleScrapeRun('run1')
+
+      expect(transaction.getAll).toHaveBeenCalledWith({ id: 'job0' }, { id: 'job1' })
+      expect(transaction.update).not.toHaveBeenCalled()
+    })
+
+    it('should succeed once every job has succeeded', async () => {
+      const transaction = await setupTransaction(['succeeded', 'succeeded'])
+
+      await settleScrapeRun('run1')
+
+      expect(transaction.update).toHaveBeenCalledWith(
+        { id: 'run1' },
+        { status: 'succeeded', endedAt: expect.any(Timestamp) },
+      )
+    })
+
+    it('should fail when any job has failed', async () => {
+      const transaction = await setupTransaction(['succeeded', 'failed'])
+
+      await settleScrapeRun('run1')
+
+      expect(transaction.update).toHaveBeenCalledWith(
+        { id: 'run1' },
+        { status: 'failed', endedAt: expect.any(Timestamp), failureReason: '1 of 2 jobs failed' },
+      )
+    })
+  })
+
+  describe('fetchScrapeRuns', () => {
+    beforeEach(() => {
+      vi.clearAllMocks()
+    })
+
+    it('should return runs ordered by start time with serialized timestamps', async () => {
+      const startedAt = Timestamp.fromDate(new Date('2025-01-01T00:00:00.000Z'))
+      const endedAt = Timestamp.fromDate(new Date('2025-01-01T00:05:00.000Z'))
+      const mockSnapshot = {
+        docs: [
+          {
+            id: 'run1',
+            data: () => ({ origin: 'scrape', status: 'succeeded', startedAt, endedAt }),
+          },
+        ],
+      }
+
+      const mockLimit = vi.fn().mockReturnValue({ get: vi.fn().mockResolvedValue(mockSnapshot) })
+      const mockOrderBy = vi.fn().mockReturnValue({ limit: mockLimit })
+
+      const db = await import('../lib/firestore.js')
+      vi.mocked(db.default.collection).mockReturnValue({ orderBy: mockOrderBy } as never)
+
+      const result = await fetchScrapeRuns(10)
+
+      expect(mockOrderBy).toHaveBeenCalledWith('startedAt', 'desc')
+      expect(mockLimit).toHaveBeenCalledWith(10)
+      expect(result).toEqual([
+        {
+          id: 'run1',
+          origin: 'scrape',
+          status: 'succeeded',
+          startedAt: '2025-01-01T00:00:00.000Z',
+          endedAt: '2025-01-01T00:05:00.000Z',
+        },
+      ])
+    })
+  })
+
+  describe('fetchScrapeRunById', () => {
+    beforeEach(() => {
+      vi.clearAllMocks()
+    })
+
+    it('should throw NotFoundError when the run does not exist', async () => {
+      const db = await import('../lib/firestore.js')
+      vi.mocked(db.default.collection).mockReturnValue({
+        doc: vi.fn().mockReturnValue({ get: vi.fn().mockResolvedValue({ exists: false }) }),
+      } as never)
+
+      await expect(fetchScrapeRunById('missing')).rejects.toThrow(NotFoundError)
+    })
+  })
+
+  describe('comparePromptVersions', () => {
+    beforeEach(() => {
+      vi.clearAllMocks()
+    })
+
+    it('should sum the stats of the recent runs of each version', async () => {
+      const runs = [
+        {
+          status: 'succeeded',
+          models: ['gpt-4o-mini'],
+          stats: { created: 3, updated: 1, skipped: 4, errors: 1, quarantined: 1 },
+        },
+        {
+          status: 'succeeded',
+          models: ['gpt-4o-mini', 'gpt-4o'],
+          stats: { created: 1, updated: 0, skipped: 8, errors: 0, mergeCandidates: 1 },
+        },
+        { status: 'failed' },
+        { status: 'running' },
+      ]
+      const mockWhere = vi.fn().mockReturnValue({
+        orderBy: vi.fn().mockReturnValue({
+          limit: vi.fn().mockReturnValue({
+            get: vi.fn().mockResolvedValue({ docs: runs.map((run) => ({ data: () => run })) }),
+          }),
+        }),
+      })
+
+      const db = await import('../lib/firestore.js')
+      vi.mocked(db.default.collection).mockReturnValue({ where: mockWhere } as never)
+
+      const [result] = await comparePromptVersions(['v1'], 20)
+
+      expect(mockWhere).toHaveBeenCalledWith('promptVersion', '==', 'v1')
+      expect(result).toEqual({
+        promptVersion: 'v1',
+        runs: 2,
+        failedRuns: 1,
+        models: ['gpt-4o-mini', 'gpt-4o'],
+        exhibitions: 20,
+        created: 4,
+        updated: 1,
+        skipped: 12,
+        errors: 1,
+        quarantined: 1,
+        mergeCandidates: 1,
+        errorRate: 0.05,
+        quarantineRate: 0.05,
+      })
+    })
+  })
+})
@@ -0,0 +1,262 @@
+import db from '../lib/firestore.js'
+import { Timestamp } from '@google-cloud/firestore'
+import { NotFoundError } from '../errors/app-error.js'
+import type { ScrapeOrigin } from '../types/exhibition.js'
+import type {
+  PromptVersionStats,
+  ScrapeRun,
+  ScrapeRunContext,
+  ScrapeRunDocument,
+  ScrapeRunOptions,
+} from '../types/scrape-run.js'
+
+function toScrapeRun(id: string, data: ScrapeRunDocument): ScrapeRun {
+  const { startedAt, endedAt, ...rest } = data
+  return {
+    ...rest,
+    id,
+    startedAt: startedAt.toDate().toISOString(),
+    ...(endedAt && { endedAt: endedAt.toDate().toISOString() }),
+  }
+}
+
+function toContextFields(run: ScrapeRunContext): Partial<ScrapeRunDocument> {
+  return {
+    ...(run.apifyRunId && { apifyRunId: run.apifyRunId }),
+    ...(run.apifyRunIds && { apifyRunIds: run.apifyRunIds }),
+    ...(run.datasetId && { datasetId: run.datasetId }),
+    ...(run.museumIds && { museumIds: run.museumIds }),
+    ...(run.feedId && { feedId: run.feedId }),
+    ...(run.promptVersion && { promptVersion: run.promptVersion }),
+    ...(run.models && run.models.length > 0 && { models: run.models }),
+    ...(run.stats && { stats: run.stats }),
+    ...(run.jobIds && { jobIds: run.jobIds }),
+  }
+}
+
+export async function createScrapeRun(
+  origin: ScrapeOrigin,
+  options: ScrapeRunOptions = {},
+): Promise<string> {
+  const docRef = db.collection('scrapeRun').doc()
+  await docRef.set({
+    origin,
+    status: 'running',
+    ...(options.dryRun && { dryRun: true }),
+    ...(options.async && { async: true }),
+    ...(options.ingest && { ingest: true }),
+    ...(options.parentId && { parentId: options.parentId }),
+    startedAt: Timestamp.now(),
+  } satisfies ScrapeRunDocument)
+  return docRef.id
+}
+
+/**
+ * Persist the context collected so far on a run that is still in progress
+ */
+export async function updateScrapeRun(run: ScrapeRunContext): Promise<void> {
+  await db.collection('scrapeRun').doc(run.id).update(toContextFields(run))
+}
+
+/**
+ * Claim a running async run for processing its results
+ * The status moves from `running` to `processing` in a transaction, so that only one of several
+ * deliveries of the same webhook processes the run.
+ *
+ * @returns Whether the run was claimed; false if it is no longer running
+ */
+export async function claimScrapeRun(id: string): Promise<boolean> {
+  const docRef = db.collection('scrapeRun').doc(id)
+  return db.runTransaction(async (transaction) => {
+    const doc = await transaction.get(docRef)
+    if (!doc.exists) {
+      throw new NotFoundError(`Scrape run not found: ${id}`)
+    }
+    if ((doc.data() as ScrapeRunDocument).status !== 'running') {
+      return false
+    }
+    transaction.update(docRef, { status: 'processing' })
+    return true
+  })
+}
+
+export async function completeScrapeRun(run: ScrapeRunContext): Promise<void> {
+  await db
+    .collection('scrapeRun')
+    .doc(run.id)
+    .update({
+      ...toContextFields(run),
+      status: 'succeeded',
+      endedAt: Timestamp.now(),
+    })
+}
+
+/**
+ * Mark a scrape run as failed
+ * Errors while recording the failure are logged and swallowed so that they never mask the original error
+ */
+export async function failScrapeRun(run: ScrapeRunContext, error: unknown): Promise<void> {
+  const failureReason = error instanceof Error ? error.message : 'Unknown error'
+  try {
+    await db
+      .collection('scrapeRun')
+      .doc(run.id)
+      .update({
+        ...toContextFields(run),
+        status: 'failed',
+        endedAt: Timestamp.now(),
+        failureReason,
+      })
+  } catch (recordError) {
+    console.error(`Failed to record failure of scrape run ${run.id}:`, recordError)
+  }
+}
+
+/**
+ * Settle an async scrape once all of its jobs have finished
+ * Each job settles the scrape when it finishes, and the scrape stays running while any job is
+ * still running. It succeeds when every job succeeded and fails otherwise.
+ * Errors are logged and swallowed, since the job that finished has already been recorded.
+ */
+export async function settleScrapeRun(id: string): Promise<void> {
+  const docRef = db.collection('scrapeRun').doc(id)
+  try {
+    await db.runTransaction(async (transaction) => {
+      const run = (await transaction.get(docRef)).data() as ScrapeRunDocument | undefined
+      if (run?.status !== 'running' || !run.jobIds || run.jobIds.length === 0) {
+        return
+      }
+
+      const jobs = await transaction.getAll(
+        ...run.jobIds.map((jobId) => db.collection('scrapeRun').doc(jobId)),
+      )
+      const statuses = jobs.map((job) => (job.data() as ScrapeRunDocument | undefined)?.status)
+      if (statuses.some((status) => status === 'running' || status === 'processing')) {
+        return
+      }
+
+      const failed = statuses.filter((status) => status !== 'succeeded').length
+      transaction.update(docRef, {
+        status: failed === 0 ? 'succeeded' : 'failed',
+        endedAt: Timestamp.now(),
+        ...(failed > 0 && { failureReason: `${failed} of ${jobs.length} jobs failed` }),
+      })
+    })
+  } catch (error) {
+    console.error(`Failed to settle scrape run ${id}:`, error)
+  }
+}
+
+/**
+ * Record a scrape run around the given function
+ * The function fills in the run context as it progresses; the run is marked as
+ * succeeded when it resolves and as failed (with the error message) when it throws.
+ */
+export async function trackScrapeRun<T>(
+  origin: ScrapeOrigin,
+  fn: (run: ScrapeRunContext) => Promise<T>,
+  options: ScrapeRunOptions = {},
+): Promise<T> {
+  const run: ScrapeRunContext = { id: await createScrapeRun(origin, options) }
+
+  let result: T
+  try {
+    result = await fn(run)
+  } catch (error) {
+    await failScrapeRun(run, error)
+    throw error
+  }
+
+  await completeScrapeRun(run)
+  return result
+}
+
+export async function fetchScrapeRuns(limit: number): Promise<ScrapeRun[]> {
+  const snapshot = await db.collection('scrapeRun').orderBy('startedAt', 'desc').limit(limit).get()
+  return snapshot.docs.map((doc) => toScrapeRun(doc.id, doc.data() as ScrapeRunDocument))
+}
+
+export async function fetchScrapeRunById(id: string): Promise<ScrapeRun> {
+  const doc = await db.collection('scrapeRun').doc(id).get()
+  if (!doc.exists) {
+    throw new NotFoundError(`Scrape run not found: ${id}`)
+  }
+  return toScrapeRun(doc.id, doc.data() as ScrapeRunDocument)
+}
+
+function summarizePromptVersion(
+  promptVersion: string,
+  runs: ScrapeRunDocument[],
+): PromptVersionStats {
+  const summary: PromptVersionStats = {
+    promptVersion,
+    runs: 0,
+    failedRuns: 0,
+    models: [],
+    exhibitions: 0,
+    created: 0,
+    updated: 0,
+    skipped: 0,
+    errors: 0,
+    quarantined: 0,
+    mergeCandidates: 0,
+    errorRate: 0,
+    quarantineRate: 0,
+  }
+
+  for (const run of runs) {
+    // Runs still in progress have no outcome yet
+    if (run.status === 'failed') {
+      summary.failedRuns++
+      continue
+    }
+    if (run.status !== 'succeeded' || !run.stats) {
+      continue
+    }
+
+    const { created, updated, skipped, errors, quarantined = 0, mergeCandidates = 0 } = run.stats
+    summary.runs++
+    summary.created += created
+    summary.updated += updated
+    summary.skipped += skipped
+    summary.errors += errors
+    summary.quarantined += quarantined
+    summary.mergeCandidates += mergeCandidates
+    summary.exhibitions += created + updated + skipped + errors + quarantined + mergeCandidates
+    for (const model of run.models ?? []) {
+      if (!summary.models.includes(model)) {
+        summary.models.push(model)
+      }
+    }
+  }
+
+  if (summary.exhibitions > 0) {
+    summary.errorRate = summary.errors / summary.exhibitions
+    summary.quarantineRate = summary.quarantined / summary.exhibitions
+  }
+  return summary
+}
+
+/**
+ * Compare the outcome of the most recent runs of each prompt version
+ * Runs are looked up by the version recorded on them, so runs before versioning are not counted.
+ */
+export async function comparePromptVersions(
+  promptVersions: string[],
+  limit: number,
+): Promise<PromptVersionStats[]> {
+  return Promise.all(
+    promptVersions.map(async (promptVersion) => {
+      const snapshot = await db
+        .collection('scrapeRun')
+        .where('promptVersion', '==', promptVersion)
+        .orderBy('startedAt', 'desc')
+        .limit(limit)
+        .get()
+      return summarizePromptVersion(
+        promptVersion,
+        snapshot.docs.map((doc) => doc.data() as ScrapeRunDocument),
+      )
+    }),
+  )
+}
@@ -0,0 +1,352 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+  createApifyProvider,
+  createHtmlProvider,
+  groupByCrawlSettings,
+  preferStructuredData,
+  scrapeMuseums,
+} from './scraper.service.js'
+import { buildMuseumMaps } from './museum.service.js'
+import { ConfigurationError, ExternalServiceError, ValidationError } from '../errors/app-error.js'
+import type { Museum } from '../schemas/museum.schema.js'
+
+vi.mock('./apify.service.js', () => ({
+  runActorAndGetResults: vi.fn(async () => ({
+    runId: 'apify-run-1',
+    items: [
+      {
+        url: 'https://museum1.example/exhibitions/',
+        jsonAnswer: {
+          exhibitions: [{ title: 'Apify展', venue: '東京国立博物館', imageUrl: 'images/main.jpg' }],
+        },
+      },
+    ],
+  })),
+}))
+
+const env = { APIFY_ACTOR_ID: 'actor-id', OPENAI_API_KEY: 'openai-key' }
+
+function createMuseum(id: string, scraper?: Museum['scraper']): Museum {
+  return {
+    id,
+    name: `${id}美術館`,
+    address: '',
+    access: '',
+    openingInformation: '',
+    officialUrl: `https://${id}.example/`,
+    scrapeUrl: `https://${id}.example/exhibitions/`,
+    scrapeEnabled: true,
+    venueType: '美術館',
+    area: '上野',
+    ...(scraper && { scraper }),
+  }
+}
+
+const htmlScraper = {
+  provider: 'html',
+  selectors: { item: '.exhibition', title: 'h3', date: '.period' },
+} satisfies Museum['scraper']
+
+const html = `
+  <div class="exhibition">
+    <h3>HTML展</h3>
+    <p class="period">2025年3月1日〜5月6日</p>
+  </div>
+`
+
+describe('scraper.service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.unstubAllGlobals()
+  })
+
+  describe('createApifyProvider', () => {
+    it('should throw ConfigurationError without the Apify settings', () => {
+      expect(() => createApifyProvider({})).toThrow(ConfigurationError)
+    })
+
+    it('should run the actor and parse its items', async () => {
+      const { runActorAndGetResults } = await import('./apify.service.js')
+
+      const result = await createApifyProvider(env).scrape(
+        [{ url: 'https://museum1.example/' }],
+        'scrape',
+      )
+
+      expect(runActorAndGetResults).toHaveBeenCalledWith(
+        'actor-id',
+        expect.objectContaining({
+          startUrls: [{ url: 'https://museum1.example/', method: 'GET' }],
+        }),
+      )
+      expect(result.apifyRunIds).toEqual(['apify-run-1'])
+      expect(result.exhibitions).toEqual([
+        expect.objectContaining({
+          title: 'Apify展',
+          venue: '東京国立博物館',
+          imageUrl: 'https://museum1.example/exhibitions/images/main.jpg',
+        }),
+      ])
+    })
+  })
+
+  describe('groupByCrawlSettings', () => {
+    it('should group targets whose effective settings are equal', () => {
+      const groups = groupByCrawlSettings(
+        [
+          { url: 'https://a.example/' },
+          // Equal to the default depth, so crawled together with the first target
+          { url: 'https://b.example/', crawl: { maxCrawlingDepth: 2 } },
+          { url: 'https://c.example/', crawl: { maxCrawlingDepth: 1, linkSelector: 'a.more' } },
+        ],
+        'scrape',
+      )
+
+      expect(groups.map((group) => group.targets.map(({ url }) => url))).toEqual([
+        ['https://a.example/', 'https://b.example/'],
+        ['https://c.example/'],
+      ])
+      expect(groups[1].crawl).toEqual(
+        expect.objectContaining({ maxCrawlingDepth: 1, linkSelector: 'a.more' }),
+      )
+    })
+  })
+
+  describe('createApifyProvider with crawl overrides', () => {
+    it('should crawl each group of settings in its own actor run', async () => {
+      const { runActorAndGetResults } = await import('./apify.service.js')
+
+      const result = await createApifyProvider(env).scrape(
+        [
+          { url: 'https://a.example/' },
+          {
+            url: 'https://b.example/',
+            crawl: { maxPagesPerCrawl: 10, excludeUrlGlobs: ['**/en/**'] },
+          },
+        ],
+        'scrape',
+      )
+
+      expect(runActorAndGetResults).toHaveBeenCalledTimes(2)
+      expect(runActorAndGetResults).toHaveBeenLastCalledWith(
+        'actor-id',
+        expect.objectContaining({
+          startUrls: [{ url: 'https://b.example/', method: 'GET' }],
+          maxPagesPerCrawl: 10,
+          excludeUrlGlobs: [{ glob: '**/en/**' }],
+        }),
+      )
+      expect(result.exhibitions).toHaveLength(2)
+      expect(result.apifyRunIds).toEqual(['apify-run-1', 'apify-run-1'])
+    })
+  })
+
+  describe('createApifyProvider with a prompt version', () => {
+    it('should stamp each exhibition with the prompt version and the model that extracted it', async () => {
+      const { runActorAndGetResults } = await import('./apify.service.js')
+
+      const result = await createApifyProvider(env).scrape(
+        [{ url: 'https://a.example/' }, { url: 'https://b.example/', crawl: { model: 'gpt-4o' } }],
+        'scrape',
+        { promptVersion: 'v1' },
+      )
+
+      expect(runActorAndGetResults).toHaveBeenLastCalledWith(
+        'actor-id',
+        expect.objectContaining({ model: 'gpt-4o', schema: expect.any(Object) }),
+      )
+      expect(result.exhibitions.map(({ extraction }) => extraction)).toEqual([
+        { method: 'llm', promptVersion: 'v1', model: 'gpt-4o-mini' },
+        { method: 'llm', promptVersion: 'v1', model: 'gpt-4o' },
+      ])
+      expect(result.promptVersion).toBe('v1')
+      expect(result.models).toEqual(['gpt-4o-mini', 'gpt-4o'])
+    })
+
+    it('should reject an unregistered prompt version', async () => {
+      await expect(
+        createApifyProvider(env).scrape([{ url: 'https://a.example/' }], 'scrape', {
+          promptVersion: 'v0',
+        }),
+      ).rejects.toThrow(ValidationError)
+    })
+  })
+
+  describe('createApifyProvider for feeds', () => {
+    it('should crawl feeds with the settings of the feed source', async () => {
+      const { runActorAndGetResults } = await import('./apify.service.js')
+
+      await createApifyProvider(env).scrape(
+        [
+          {
+            url: 'https://feed.example/',
+            crawl: { maxCrawlingDepth: 2, instructions: '東京の展覧会のみ' },
+          },
+        ],
+        'scrape-feed',
+      )
+
+      expect(runActorAndGetResults).toHaveBeenCalledWith(
+        'actor-id',
+        expect.objectContaining({
+          maxCrawlingDepth: 2,
+          instructions: expect.stringContaining('東京の展覧会のみ'),
+        }),
+      )
+    })
+  })
+
+  describe('createHtmlProvider', () => {
+    it('should skip pages that fail as long as one succeeds', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn(async (url: string) =>
+          url.startsWith('https://broken.')
+            ? new Response('Server Error', { status: 500 })
+            : new Response(html),
+        ),
+      )
+      const museum = createMuseum('museum1', htmlScraper)
+      const broken = createMuseum('broken', htmlScraper)
+
+      const result = await createHtmlProvider().scrape(
+        [
+          { url: broken.scrapeUrl, museum: broken },
+          { url: museum.scrapeUrl, museum },
+        ],
+        'scrape',
+      )
+
+      expect(result).toEqual({
+        exhibitions: [
+          expect.objectContaining({
+            title: 'HTML展',
+            venue: 'museum1美術館',
+            startDate: '2025年3月1日',
+            endDate: '5月6日',
+          }),
+        ],
+      })
+    })
+
+    it('should throw when every page fails', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn(async () => new Response('Server Error', { status: 500 })),
+      )
+      const museum = createMuseum('museum1', htmlScraper)
+
+      await expect(
+        createHtmlProvider().scrape([{ url: museum.scrapeUrl, museum }], 'scrape'),
+      ).rejects.toThrow(ExternalServiceError)
+    })
+  })
+
+  describe('scrapeMuseums', () => {
+    it('should scrape each museum with its provider and merge the results', async () => {
+      const fetch = vi.fn(async () => new Response(html))
+      vi.stubGlobal('fetch', fetch)
+      const { runActorAndGetResults } = await import('./apify.service.js')
+
+      const result = await scrapeMuseums(
+        [createMuseum('museum1'), createMuseum('museum2', htmlScraper)],
+        env,
+      )
+
+      expect(runActorAndGetResults).toHaveBeenCalledWith(
+        'actor-id',
+        expect.objectContaining({
+          startUrls: [{ url: 'https://museum1.example/exhibitions/', method: 'GET' }],
+        }),
+      )
+      expect(fetch).toHaveBeenCalledWith('https://museum2.example/exhibitions/', expect.anything())
+      expect(result.apifyRunIds).toEqual(['apify-run-1'])
+      expect(result.exhibitions.map((exhibition) => exhibition.title)).toEqual([
+        'Apify展',
+        'HTML展',
+      ])
+    })
+
+    it('should only crawl the museums that publish no exhibition events', async () => {
+      const jsonLd = `
+        <script type="application/ld+json">
+          {
+            "@type": "ExhibitionEvent",
+            "name": "JSON-LD展",
+            "startDate": "2025-03-01",
+            "location": { "@type": "Place", "name": "企画展示室" }
+          }
+        </script>
+      `
+      const talk = `
+        <script type="application/ld+json">
+          { "@type": "Event", "name": "ギャラリートーク", "startDate": "2025-03-08" }
+        </script>
+      `
+      vi.stubGlobal(
+        'fetch',
+        vi.fn(async (url: string) => new Response(url.includes('museum1') ? jsonLd : talk)),
+      )
+      const { runActorAndGetResults } = await import('./apify.service.js')
+
+      const result = await scrapeMuseums([createMuseum('museum1'), createMuseum('museum2')], env)
+
+      expect(runActorAndGetResults).toHaveBeenCalledTimes(1)
+      expect(runActorAndGetResults).toHaveBeenCalledWith(
+        'actor-id',
+        expect.objectContaining({
+          startUrls: [{ url: 'https://museum2.example/exhibitions/', method: 'GET' }],
+        }),
+      )
+      expect(result.exhibitions).toEqual([
+        expect.objectContaining({
+          title: 'JSON-LD展',
+          venue: 'museum1美術館',
+          extraction: { method: 'json-ld' },
+        }),
+        expect.objectContaining({
+          title: 'Apify展',
+          extraction: expect.objectContaining({ method: 'llm' }),
+        }),
+      ])
+    })
+
+    it('should not require the Apify settings when no museum uses Apify', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn(async () => new Response(html)),
+      )
+
+      const result = await scrapeMuseums([createMuseum('museum1', htmlScraper)], {})
+
+      expect(result.apifyRunIds).toBeUndefined()
+      expect(result.exhibitions).toHaveLength(1)
+    })
+  })
+
+  describe('preferStructuredData', () => {
+    it('should replace the crawled exhibitions of museums that publish exhibition events', async () => {
+      const jsonLd = `
+        <script type="application/ld+json">
+          { "@type": "ExhibitionEvent", "name": "JSON-LD展", "startDate": "2025-03-01" }
+        </script>
+      `
+      vi.stubGlobal(
+        'fetch',
+        vi.fn(async (url: string) => new Response(url.includes('museum1') ? jsonLd : html)),
+      )
+      const museums = [createMuseum('museum1'), createMuseum('museum2')]
+
+      const exhibitions = await preferStructuredData(
+        [
+          { title: 'Apify展', venue: 'museum1美術館' },
+          { title: 'Apify展2', venue: 'museum2美術館' },
+        ],
+        museums,
+        buildMuseumMaps(museums),
+      )
+
+      expect(exhibitions.map((exhibition) => exhibition.title)).toEqual(['JSON-LD展', 'Apify展2'])
+    })
+  })
+})
@@ -0,0 +1,288 @@
+import {
+  buildScrapeActorInput,
+  buildScrapeFeedActorInput,
+  resolveCrawlSettings,
+} from '../config/apify.config.js'
+import { DEFAULT_PROMPT_VERSION } from '../config/prompt.config.js'
+import { HTML_SCRAPER_CONFIG } from '../config/scraper.config.js'
+import { apifyFeedResponseSchema, apifyResponseSchema } from '../schemas/apify.schema.js'
+import { runActorAndGetResults } from './apify.service.js'
+import { getHtmlParser, parseStructuredData } from './html-parser.service.js'
+import { resolveVenue } from './exhibition.service.js'
+import { buildMuseumMaps } from './museum.service.js'
+import { ConfigurationError, ExternalServiceError } from '../errors/app-error.js'
+import type { Museum } from '../schemas/museum.schema.js'
+import type { MuseumMaps } from '../types/museum.js'
+import type { ScrapedExhibition } from '../schemas/exhibition.schema.js'
+import type { AppEnv } from '../types/env.js'
+import type { ScrapeOrigin } from '../types/exhibition.js'
+import type {
+  EffectiveCrawlSettings,
+  ScrapeOptions,
+  ScrapeResult,
+  ScrapeTarget,
+  ScraperProvider,
+  ScraperProviderName,
+} from '../types/scraper.js'
+
+export type ScraperEnv = Partial<Pick<AppEnv, 'APIFY_ACTOR_ID' | 'OPENAI_API_KEY'>>
+
+/**
+ * Group targets whose effective crawl settings are equal, so that each group can be crawled
+ * in one actor run
+ */
+export function groupByCrawlSettings(
+  targets: ScrapeTarget[],
+  origin: ScrapeOrigin,
+): Array<{ crawl: EffectiveCrawlSettings; targets: ScrapeTarget[] }> {
+  const groups = new Map<string, { crawl: EffectiveCrawlSettings; targets: ScrapeTarget[] }>()
+  for (const target of targets) {
+    const crawl = resolveCrawlSettings(target.crawl, origin)
+    const key = JSON.stringify(crawl)
+    const group = groups.get(key) ?? { crawl, targets: [] }
+    group.targets.push(target)
+    groups.set(key, group)
+  }
+  return [...groups.values()]
+}
+
+/**
+ * Scrape pages with the Apify actor, which extracts exhibitions with an LLM
+ * Targets are grouped by their crawl settings and each group is crawled in its own actor run.
+ * Each exhibition is stamped with the prompt version and the model of the run that extracted it.
+ */
+export function createApifyProvider(env: ScraperEnv): ScraperProvider {
+  const { APIFY_ACTOR_ID, OPENAI_API_KEY } = env
+  if (!APIFY_ACTOR_ID || !OPENAI_API_KEY) {
+    throw new ConfigurationError(
+      'Missing required environment variables: APIFY_ACTOR_ID or OPENAI_API_KEY',
+    )
+  }
+
+  return {
+    name: 'apify',
+    async scrape(targets, origin, { promptVersion = DEFAULT_PROMPT_VERSION }: ScrapeOptions = {}) {
+      const result: Required<ScrapeResult> = {
+        exhibitions: [],
+        apifyRunIds: [],
+        promptVersion,
+        models: [],
+      }
+
+      for (const group of groupByCrawlSettings(targets, origin)) {
+        const startUrls = group.targets.map(({ url }) => ({ url, method: 'GET' as const }))
+        const input =
+          origin === 'scrape-feed'
+            ? buildScrapeFeedActorInput(startUrls, OPENAI_API_KEY, group.crawl, promptVersion)
+            : buildScrapeActorInput(startUrls, OPENAI_API_KEY, group.crawl, promptVersion)
+
+        const { runId, items } = await runActorAndGetResults(APIFY_ACTOR_ID, input)
+        const exhibitions =
+          origin === 'scrape-feed'
+            ? apifyFeedResponseSchema.parse(items)
+            : apifyResponseSchema.parse(items)
+        const extraction = { method: 'llm' as const, promptVersion, model: group.crawl.model }
+        result.exhibitions.push(...exhibitions.map((exhibition) => ({ ...exhibition, extraction })))
+        result.apifyRunIds.push(runId)
+        if (!result.models.includes(group.crawl.model)) {
+          result.models.push(group.crawl.model)
+        }
+      }
+
+      return result
+    },
+  }
+}
+
+async function fetchPage(url: string): Promise<string> {
+  let response: Response
+  try {
+    response = await fetch(url, {
+      headers: { 'User-Agent': HTML_SCRAPER_CONFIG.userAgent },
+      signal: AbortSignal.timeout(HTML_SCRAPER_CONFIG.timeoutMs),
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    throw new ExternalServiceError(`Failed to fetch ${url}: ${message}`, 'HTML')
+  }
+
+  if (!response.ok) {
+    throw new ExternalServiceError(`Failed to fetch ${url}: HTTP ${response.status}`, 'HTML')
+  }
+
+  return response.text()
+}
+
+/**
+ * Fetch pages directly and extract exhibitions with the parser configured on each museum
+ * Pages are fetched one at a time. A page that fails is logged and skipped, so that one broken
+ * site does not fail the whole run, unless every page fails.
+ */
+export function createHtmlProvider(): ScraperProvider {
+  return {
+    name: 'html',
+    async scrape(targets) {
+      const exhibitions: ScrapedExhibition[] = []
+      let failures = 0
+      let lastError: unknown
+
+      for (const target of targets) {
+        try {
+          const parser = getHtmlParser(target.museum?.scraper?.parser)
+          const html = await fetchPage(target.url)
+          const parsed = parser(html, target)
+          console.log(`Extracted ${parsed.length} exhibitions from ${target.url}`)
+          exhibitions.push(...parsed)
+        } catch (error) {
+          console.error(`Failed to scrape ${target.url}:`, error)
+          failures++
+          lastError = error
+        }
+      }
+
+      if (targets.length > 0 && failures === targets.length) {
+        throw lastError
+      }
+
+      return { exhibitions }
+    },
+  }
+}
+
+/**
+ * Extract exhibitions from the schema.org events (JSON-LD or microdata) published on each page
+ * Pages that cannot be fetched or publish no exhibition events are returned as `fallback`, to be
+ * crawled by the caller instead. Locations that are no known museum (e.g. the name of a gallery
+ * room) are replaced by the museum whose page lists the event.
+ */
+export async function scrapeStructuredData(
+  targets: ScrapeTarget[],
+  museumMaps: MuseumMaps,
+): Promise<{
+  exhibitions: ScrapedExhibition[]
+  resolved: ScrapeTarget[]
+  fallback: ScrapeTarget[]
+}> {
+  const exhibitions: ScrapedExhibition[] = []
+  const resolved: ScrapeTarget[] = []
+  const fallback: ScrapeTarget[] = []
+
+  for (const target of targets) {
+    let parsed: ScrapedExhibition[]
+    try {
+      parsed = parseStructuredData(await fetchPage(target.url), target)
+    } catch (error) {
+      console.error(`Failed to read structured data from ${target.url}:`, error)
+      fallback.push(target)
+      continue
+    }
+
+    if (parsed.length === 0) {
+      fallback.push(target)
+      continue
+    }
+    console.log(`Extracted ${parsed.length} exhibitions from structured data on ${target.url}`)
+    const { museum } = target
+    exhibitions.push(
+      ...parsed.map((exhibition) =>
+        museum && !resolveVenue(exhibition.venue, museumMaps)
+          ? { ...exhibition, venue: museum.name }
+          : exhibition,
+      ),
+    )
+    resolved.push(target)
+  }
+
+  return { exhibitions, resolved, fallback }
+}
+
+/**
+ * Replace the crawled exhibitions of museums that publish structured data with the structured ones
+ * Async scrapes crawl every museum so that the request does not wait for the pages to be read,
+ * and their pages are read for structured data once the crawl results arrive instead.
+ */
+export async function preferStructuredData(
+  crawled: ScrapedExhibition[],
+  museums: Museum[],
+  museumMaps: MuseumMaps,
+): Promise<ScrapedExhibition[]> {
+  const structured = await scrapeStructuredData(
+    museums.map((museum) => ({ url: museum.scrapeUrl, museum, crawl: museum.crawl })),
+    museumMaps,
+  )
+  const resolvedNames = new Set(
+    structured.resolved.flatMap(({ museum }) => (museum ? [museum.name] : [])),
+  )
+
+  return [
+    ...structured.exhibitions,
+    ...crawled.filter(
+      (exhibition) => !resolvedNames.has(resolveVenue(exhibition.venue, museumMaps)?.name ?? ''),
+    ),
+  ]
+}
+
+export function getScraperProvider(name: ScraperProviderName, env: ScraperEnv): ScraperProvider {
+  switch (name) {
+    case 'apify':
+      return createApifyProvider(env)
+    case 'html':
+      return createHtmlProvider()
+  }
+}
+
+/**
+ * Scrape the exhibition pages of museums with the provider selected on each museum
+ * Museums are grouped by provider, and the results of all providers are merged. Museums crawled
+ * by Apify are first read for structured data, and only those without it are crawled.
+ */
+export async function scrapeMuseums(
+  museums: Museum[],
+  env: ScraperEnv,
+  options: ScrapeOptions = {},
+): Promise<ScrapeResult> {
+  const groups = new Map<ScraperProviderName, ScrapeTarget[]>()
+  for (const museum of museums) {
+    const name = museum.scraper?.provider ?? 'apify'
+    groups.set(name, [
+      ...(groups.get(name) ?? []),
+      { url: museum.scrapeUrl, museum, crawl: museum.crawl },
+    ])
+  }
+
+  // Resolve every provider first so that a configuration error fails before anything is scraped
+  const providers = [...groups.keys()].map((name) => getScraperProvider(name, env))
+
+  const result: ScrapeResult = { exhibitions: [] }
+  for (const provider of providers) {
+    let targets = groups.get(provider.name) ?? []
+
+    // Structured data is exact and free, so the LLM only reads pages that do not publish it
+    if (provider.name === 'apify') {
+      const structured = await scrapeStructuredData(targets, buildMuseumMaps(museums))
+      result.exhibitions.push(...structured.exhibitions)
+      targets = structured.fallback
+      if (targets.length === 0) {
+        continue
+      }
+    }
+
+    console.log(`Scraping ${targets.length} museums with the ${provider.name} provider`)
+
+    const { exhibitions, apifyRunIds, promptVersion, models } = await provider.scrape(
+      targets,
+      'scrape',
+      options,
+    )
+    result.exhibitions.push(...exhibitions)
+    if (apifyRunIds) {
+      result.apifyRunIds = [...(result.apifyRunIds ?? []), ...apifyRunIds]
+    }
+    if (promptVersion) {
+      result.promptVersion = promptVersion
+      result.models = [...(result.models ?? []), ...(models ?? [])]
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,241 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { FieldValue, Timestamp } from '@google-cloud/firestore'
+import {
+  recordUnmatchedVenues,
+  promoteUnmatchedVenue,
+  releaseHeldExhibitions,
+  dismissUnmatchedVenue,
+} from './unmatched-venue.service.js'
+import { ConflictError, NotFoundError, ValidationError } from '../errors/app-error.js'
+import { createMockTransaction, mockRunTransaction } from '../test/firestore.js'
+import type { MockTransaction } from '../test/firestore.js'
+import type { ScrapedExhibition } from '../schemas/exhibition.schema.js'
+
+// Mock Firestore
+vi.mock('../lib/firestore.js', () => ({
+  default: {
+    collection: vi.fn(),
+    runTransaction: vi.fn(),
+  },
+}))
+
+async function setupFirestore(mockTransaction: MockTransaction) {
+  const db = await import('../lib/firestore.js')
+  vi.mocked(db.default.collection).mockImplementation(
+    (collection: string) =>
+      ({
+        doc: vi.fn().mockImplementation((id: string) => ({ id, collection })),
+      }) as never,
+  )
+  mockRunTransaction(mockTransaction)
+}
+
+describe('unmatched-venue.service', () => {
+  describe('recordUnmatchedVenues', () => {
+    beforeEach(() => {
+      vi.clearAllMocks()
+    })
+
+    it('should create a venue document holding the exhibitions', async () => {
+      const exhibitions = [
+        { title: '展覧会A', venue: '新しい美術館', startDate: '2024-01-01' },
+        { title: '展覧会B', venue: '新しい美術館 ', startDate: '2024-02-01' },
+      ] satisfies ScrapedExhibition[]
+
+      const mockTransaction = createMockTransaction({
+        getAll: vi
+          .fn()
+          .mockImplementation((...refs: Array<{ id: string }>) =>
+            Promise.resolve(refs.map((ref) => ({ id: ref.id, exists: false }))),
+          ),
+      })
+      await setupFirestore(mockTransaction)
+
+      await recordUnmatchedVenues(exhibitions, 'scrape')
+
+      // Both venue spellings normalize to the same document
+      expect(mockTransaction.set).toHaveBeenCalledTimes(1)
+      const [, data] = mockTransaction.set.mock.calls[0]
+      expect(data).toMatchObject({
+        venue: '新しい美術館',
+        status: 'open',
+        sampleTitles: ['展覧会A', '展覧会B'],
+        origins: ['scrape'],
+        occurrenceCount: 2,
+      })
+      expect(data.heldExhibitions).toEqual([
+        { ...exhibitions[0], origin: 'scrape' },
+        { ...exhibitions[1], origin: 'scrape' },
+      ])
+    })
+
+    it('should only count occurrences of dismissed venues', async () => {
+      const firstSeenAt = Timestamp.fromDate(new Date('2024-01-01T00:00:00Z'))
+      const mockTransaction = createMockTransaction({
+        getAll: vi.fn().mockImplementation((...refs: Array<{ id: string }>) =>
+          Promise.resolve(
+            refs.map((ref) => ({
+              id: ref.id,
+              exists: true,
+              data: () => ({
+                venue: '対象外の美術館',
+                status: 'dismissed',
+                sampleTitles: ['過去の展覧会'],
+                heldExhibitions: [],
+                origins: ['scrape-feed'],
+                occurrenceCount: 3,
+                firstSeenAt,
+                lastSeenAt: firstSeenAt,
+              }),
+            })),
+          ),
+        ),
+      })
+      await setupFirestore(mockTransaction)
+
+      await recordUnmatchedVenues([{ title: '新しい展覧会', venue: '対象外の美術館' }], 'scrape')
+
+      const [, data] = mockTransaction.set.mock.calls[0]
+      expect(data).toMatchObject({
+        status: 'dismissed',
+        heldExhibitions: [],
+        origins: ['scrape-feed', 'scrape'],
+        occurrenceCount: 4,
+        firstSeenAt,
+      })
+    })
+  })
+
+  describe('promoteUnmatchedVenue', () => {
+    beforeEach(() => {
+      vi.clearAllMocks()
+    })
+
+    it('should add the venue to the museum aliases and return the held exhibitions', async () => {
+      const heldExhibitions = [{ title: '展覧会A', venue: '新しい美術館', origin: 'scrape' }]
+      const mockTransaction = createMockTransaction({
+        get: vi.fn().mockResolvedValue({ docs: [] }),
+        getAll: vi.fn().mockResolvedValue([
+          {
+            exists: true,
+            data: () => ({ venue: '新しい美術館', status: 'open', heldExhibitions }),
+          },
+          { exists: true, data: () => ({ name: '新しい美術館（正式名称）' }) },
+        ]),
+      })
+      await setupFirestore(mockTransaction)
+
+      const result = await promoteUnmatchedVenue('venue1', 'museum1')
+
+      expect(result).toEqual(heldExhibitions)
+      expect(mockTransaction.update).toHaveBeenCalledWith(
+        { id: 'museum1', collection: 'museum' },
+        { aliases: expect.anything() },
+      )
+      expect(mockTransaction.update).toHaveBeenCalledWith(
+        { id: 'venue1', collection: 'unmatchedVenue' },
+        expect.objectContaining({ status: 'promoted', promotedTo: 'museum1' }),
+      )
+    })
+
+    it('should return the exhibitions still held when promoted to the same museum again', async () => {
+      const heldExhibitions = [{ title: '展覧会A', venue: '新しい美術館', origin: 'scrape' }]
+      const mockTransaction = createMockTransaction({
+        get: vi.fn().mockResolvedValue({ docs: [] }),
+        getAll: vi.fn().mockResolvedValue([
+          {
+            exists: true,
+            data: () => ({
+              venue: '新しい美術館',
+              status: 'promoted',
+              promotedTo: 'museum1',
+              heldExhibitions,
+            }),
+          },
+          { exists: true, data: () => ({ name: '新しい美術館（正式名称）' }) },
+        ]),
+      })
+      await setupFirestore(mockTransaction)
+
+      await expect(promoteUnmatchedVenue('venue1', 'museum1')).resolves.toEqual(heldExhibitions)
+      await expect(promoteUnmatchedVenue('venue1', 'museum2')).rejects.toThrow(ValidationError)
+      expect(mockTransaction.update).not.toHaveBeenCalled()
+    })
+
+    it('should throw ConflictError when another museum already claims the venue', async () => {
+      const mockTransaction = createMockTransaction({
+        get: vi.fn().mockResolvedValue({
+          docs: [
+            {
+              id: 'museum2',
+              data: () => ({ name: '別の美術館', aliases: ['新しい美術館'] }),
+            },
+          ],
+        }),
+        getAll: vi.fn().mockResolvedValue([
+          { exists: true, data: () => ({ venue: '新しい美術館', status: 'open' }) },
+          { exists: true, data: () => ({ name: '新しい美術館（正式名称）' }) },
+        ]),
+      })
+      await setupFirestore(mockTransaction)
+
+      await expect(promoteUnmatchedVenue('venue1', 'museum1')).rejects.toThrow(ConflictError)
+      expect(mockTransaction.update).not.toHaveBeenCalled()
+    })
+
+    it('should throw NotFoundError when the museum does not exist', async () => {
+      const mockTransaction = createMockTransaction({
+        get: vi.fn().mockResolvedValue({ docs: [] }),
+        getAll: vi
+          .fn()
+          .mockResolvedValue([
+            { exists: true, data: () => ({ venue: '新しい美術館', status: 'open' }) },
+            { exists: false },
+          ]),
+      })
+      await setupFirestore(mockTransaction)
+
+      await expect(promoteUnmatchedVenue('venue1', 'missing')).rejects.toThrow(NotFoundError)
+      expect(mockTransaction.update).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('releaseHeldExhibitions', () => {
+    beforeEach(() => {
+      vi.clearAllMocks()
+    })
+
+    it('should remove only the reprocessed exhibitions', async () => {
+      const mockUpdate = vi.fn()
+      const db = await import('../lib/firestore.js')
+      vi.mocked(db.default.collection).mockReturnValue({
+        doc: vi.fn().mockReturnValue({ update: mockUpdate }),
+      } as never)
+      const held = [{ title: '展覧会A', venue: '新しい美術館', origin: 'scrape' as const }]
+
+      await releaseHeldExhibitions('venue1', held)
+
+      expect(mockUpdate).toHaveBeenCalledWith({
+        heldExhibitions: FieldValue.arrayRemove(...held),
+      })
+    })
+  })
+
+  describe('dismissUnmatchedVenue', () => {
+    beforeEach(() => {
+      vi.clearAllMocks()
+    })
+
+    it('should reject venues that are not open', async () => {
+      const mockTransaction = createMockTransaction({
+        get: vi.fn().mockResolvedValue({
+          exists: true,
+          data: () => ({ venue: '新しい美術館', status: 'promoted' }),
+        }),
+      })
+      await setupFirestore(mockTransaction)
+
+      await expect(dismissUnmatchedVenue('venue1')).rejects.toThrow(ValidationError)
+    })
+  })
+})
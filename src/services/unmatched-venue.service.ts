@@ -0,0 +1,198 @@
+import db from '../lib/firestore.js'
+import { FieldValue, Timestamp } from '@google-cloud/firestore'
+import { NotFoundError, ValidationError } from '../errors/app-error.js'
+import { getUnmatchedVenueDocumentId } from '../utils/hash.js'
+import { assertNamesAvailable } from './museum.service.js'
+import type { ScrapedExhibition } from '../schemas/exhibition.schema.js'
+import type { ScrapeOrigin } from '../types/exhibition.js'
+import type { MuseumDocument } from '../types/museum.js'
+import type {
+  HeldExhibition,
+  UnmatchedVenue,
+  UnmatchedVenueDocument,
+  UnmatchedVenueStatus,
+} from '../types/unmatched-venue.js'
+
+const MAX_SAMPLE_TITLES = 5
+const MAX_HELD_EXHIBITIONS = 50
+
+function toUnmatchedVenue(id: string, data: UnmatchedVenueDocument): UnmatchedVenue {
+  const { firstSeenAt, lastSeenAt, resolvedAt, ...rest } = data
+  return {
+    ...rest,
+    id,
+    firstSeenAt: firstSeenAt.toDate().toISOString(),
+    lastSeenAt: lastSeenAt.toDate().toISOString(),
+    ...(resolvedAt && { resolvedAt: resolvedAt.toDate().toISOString() }),
+  }
+}
+
+/**
+ * Persist exhibitions whose venue could not be resolved, grouped by venue
+ * Exhibitions are held on the venue document so they can be reprocessed once the venue is
+ * promoted to a museum alias. Dismissed venues only have their occurrence count updated.
+ */
+export async function recordUnmatchedVenues(
+  exhibitions: ScrapedExhibition[],
+  origin: ScrapeOrigin,
+): Promise<void> {
+  const groups = new Map<string, ScrapedExhibition[]>()
+  for (const exhibition of exhibitions) {
+    const id = getUnmatchedVenueDocumentId(exhibition.venue)
+    groups.set(id, [...(groups.get(id) ?? []), exhibition])
+  }
+
+  if (groups.size === 0) {
+    return
+  }
+
+  const docRefs = [...groups.keys()].map((id) => db.collection('unmatchedVenue').doc(id))
+
+  await db.runTransaction(async (transaction) => {
+    const existingDocs = await transaction.getAll(...docRefs)
+    const now = Timestamp.now()
+
+    existingDocs.forEach((existingDoc, i) => {
+      const group = groups.get(existingDoc.id) ?? []
+      const existing = existingDoc.exists
+        ? (existingDoc.data() as UnmatchedVenueDocument)
+        : undefined
+
+      const held: HeldExhibition[] = [...(existing?.heldExhibitions ?? [])]
+      if (existing?.status !== 'dismissed') {
+        for (const exhibition of group) {
+          if (held.length >= MAX_HELD_EXHIBITIONS) {
+            break
+          }
+          if (!held.some((item) => item.title === exhibition.title)) {
+            held.push({ ...exhibition, origin })
+          }
+        }
+      }
+
+      const sampleTitles = [
+        ...new Set([...(existing?.sampleTitles ?? []), ...group.map((e) => e.title)]),
+      ]
+
+      transaction.set(docRefs[i], {
+        venue: existing?.venue ?? group[0].venue,
+        // A venue that shows up again after being promoted lost its alias, so it needs attention again
+        status: existing?.status === 'dismissed' ? 'dismissed' : 'open',
+        sampleTitles: sampleTitles.slice(0, MAX_SAMPLE_TITLES),
+        heldExhibitions: held,
+        origins: [...new Set([...(existing?.origins ?? []), origin])],
+        occurrenceCount: (existing?.occurrenceCount ?? 0) + group.length,
+        firstSeenAt: existing?.firstSeenAt ?? now,
+        lastSeenAt: now,
+      } satisfies UnmatchedVenueDocument)
+    })
+  })
+}
+
+export async function fetchUnmatchedVenues(
+  status: UnmatchedVenueStatus,
+  limit: number,
+): Promise<UnmatchedVenue[]> {
+  const snapshot = await db
+    .collection('unmatchedVenue')
+    .where('status', '==', status)
+    .orderBy('occurrenceCount', 'desc')
+    .limit(limit)
+    .get()
+  return snapshot.docs.map((doc) => toUnmatchedVenue(doc.id, doc.data() as UnmatchedVenueDocument))
+}
+
+/**
+ * Add an open unmatched venue to a museum's aliases
+ * The held exhibitions stay on the venue until the caller has reprocessed them and released them
+ * with `releaseHeldExhibitions`. Promoting the venue to the same museum again retries them.
+ *
+ * @returns The exhibitions held for the venue, to be reprocessed by the caller
+ */
+export async function promoteUnmatchedVenue(
+  id: string,
+  museumId: string,
+): Promise<HeldExhibition[]> {
+  const venueRef = db.collection('unmatchedVenue').doc(id)
+  const museumRef = db.collection('museum').doc(museumId)
+
+  return db.runTransaction(async (transaction) => {
+    const [venueDoc, museumDoc] = await transaction.getAll(venueRef, museumRef)
+    const museumsSnapshot = await transaction.get(db.collection('museum'))
+
+    if (!venueDoc.exists) {
+      throw new NotFoundError(`Unmatched venue not found: ${id}`)
+    }
+    if (!museumDoc.exists) {
+      throw new NotFoundError(`Museum not found: ${museumId}`)
+    }
+
+    const venue = venueDoc.data() as UnmatchedVenueDocument
+    if (
+      venue.status === 'promoted' &&
+      venue.promotedTo === museumId &&
+      venue.heldExhibitions.length > 0
+    ) {
+      return venue.heldExhibitions
+    }
+    if (venue.status !== 'open') {
+      throw new ValidationError(`Unmatched venue ${id} is already ${venue.status}`)
+    }
+
+    // Two museums must never claim the same alias
+    const museums = museumsSnapshot.docs.map((doc) => ({
+      ...(doc.data() as MuseumDocument),
+      id: doc.id,
+    }))
+    assertNamesAvailable(museums, [venue.venue], museumId)
+
+    transaction.update(museumRef, { aliases: FieldValue.arrayUnion(venue.venue) })
+    transaction.update(venueRef, {
+      status: 'promoted',
+      promotedTo: museumId,
+      resolvedAt: Timestamp.now(),
+    })
+
+    return venue.heldExhibitions
+  })
+}
+
+/**
+ * Remove exhibitions from a venue once they have been reprocessed
+ * Only the given exhibitions are removed, so exhibitions held in the meantime are kept.
+ */
+export async function releaseHeldExhibitions(
+  id: string,
+  exhibitions: HeldExhibition[],
+): Promise<void> {
+  if (exhibitions.length === 0) {
+    return
+  }
+  await db
+    .collection('unmatchedVenue')
+    .doc(id)
+    .update({ heldExhibitions: FieldValue.arrayRemove(...exhibitions) })
+}
+
+export async function dismissUnmatchedVenue(id: string): Promise<void> {
+  const venueRef = db.collection('unmatchedVenue').doc(id)
+
+  await db.runTransaction(async (transaction) => {
+    const venueDoc = await transaction.get(venueRef)
+
+    if (!venueDoc.exists) {
+      throw new NotFoundError(`Unmatched venue not found: ${id}`)
+    }
+
+    const venue = venueDoc.data() as UnmatchedVenueDocument
+    if (venue.status !== 'open') {
+      throw new ValidationError(`Unmatched venue ${id} is already ${venue.status}`)
+    }
+
+    transaction.update(venueRef, {
+      status: 'dismissed',
+      heldExhibitions: [],
+      resolvedAt: Timestamp.now(),
+    })
+  })
+}
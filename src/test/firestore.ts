@@ -0,0 +1,37 @@
+import { Transaction } from '@google-cloud/firestore'
+import { vi } from 'vitest'
+import type { Mock } from 'vitest'
+import db from '../lib/firestore.js'
+
+type StubbedMethod = 'get' | 'getAll' | 'set' | 'update' | 'delete'
+
+/**
+ * Firestore transaction whose reads and writes are mocks
+ */
+export type MockTransaction = Transaction & { [K in StubbedMethod]: Mock<Transaction[K]> }
+
+/**
+ * Create a transaction stub, with the given methods set up and the others as plain mocks
+ * Transaction's constructor is private, so the stub is built on its prototype.
+ */
+export function createMockTransaction(
+  methods: Partial<Record<StubbedMethod, Mock>> = {},
+): MockTransaction {
+  const transaction: MockTransaction = Object.create(Transaction.prototype)
+  return Object.assign(transaction, {
+    get: vi.fn(),
+    getAll: vi.fn(),
+    set: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+    ...methods,
+  })
+}
+
+/**
+ * Run the transactions of the mocked Firestore client against the given stub
+ * The test file must mock `../lib/firestore.js` with `collection` and `runTransaction` mocks.
+ */
+export function mockRunTransaction(transaction: MockTransaction): void {
+  vi.mocked(db.runTransaction).mockImplementation(async (callback) => callback(transaction))
+}
@@ -1,4 +1,6 @@
 export interface AppEnv extends Record<string, unknown> {
   APIFY_ACTOR_ID: string
   OPENAI_API_KEY: string
+  APIFY_WEBHOOK_URL?: string
+  APIFY_WEBHOOK_SECRET?: string
 }
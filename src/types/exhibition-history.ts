@@ -0,0 +1,38 @@
+import type { Timestamp } from '@google-cloud/firestore'
+import type { ContentField, Origin } from './exhibition.js'
+
+/**
+ * Previous and new value of a changed field
+ */
+export interface FieldChange<T> {
+  old?: T
+  new?: T
+}
+
+/**
+ * Exhibition history document structure in Firestore (`exhibition/{id}/history`)
+ * Changes made by reviewers have the `manual` origin and record who made them.
+ */
+export interface ExhibitionHistoryDocument {
+  changes: {
+    startDate?: FieldChange<Timestamp>
+    endDate?: FieldChange<Timestamp>
+  } & Partial<Record<ContentField, FieldChange<string>>>
+  origin: Origin
+  runId?: string
+  reviewedBy?: string
+  changedAt: Timestamp
+}
+
+/**
+ * Exhibition history entry as returned by the API
+ * Exhibition dates are serialized as `yyyy-MM-dd` in Asia/Tokyo, other timestamps as ISO strings
+ */
+export interface ExhibitionHistoryEntry {
+  id: string
+  changes: Partial<Record<'startDate' | 'endDate' | ContentField, FieldChange<string>>>
+  origin: Origin
+  runId?: string
+  reviewedBy?: string
+  changedAt: string
+}
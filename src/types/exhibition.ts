@@ -1,7 +1,24 @@
 import type { Timestamp } from '@google-cloud/firestore'
+import type { VenueMatch, VenueMatchStrategy } from './museum.js'
+import type { ExhibitionImage } from './image.js'
+import type { ExtractionProvenance } from '../schemas/exhibition.schema.js'
+import type { Museum } from '../schemas/museum.schema.js'
 
-type Status = 'active' | 'pending'
-type Origin = 'scrape' | 'scrape-feed' | 'manual'
+export type Status = 'active' | 'pending' | 'ended'
+// Derived from the exhibition dates in Asia/Tokyo, independently of the review status
+export type Phase = 'upcoming' | 'ongoing' | 'ended'
+export type Origin = 'scrape' | 'scrape-feed' | 'manual'
+export type ReviewAction =
+  | 'approve'
+  | 'exclude'
+  | 'edit'
+  | 'acknowledge-date-change'
+  | 'accept-changes'
+  | 'dismiss-changes'
+export type ScrapeOrigin = Exclude<Origin, 'manual'>
+// Scraped fields other than dates that are compared with existing documents
+export type ContentField = 'title' | 'officialUrl' | 'imageUrl'
+export type DiffField = 'startDate' | 'endDate' | ContentField
 
 /**
  * Exhibition document structure in Firestore
@@ -19,6 +36,64 @@ export interface ExhibitionDocument {
   createdAt: Timestamp
   updatedAt: Timestamp
   officialUrl?: string
+  imageUrl?: string
+  // Scraped values that differ from already-set fields, waiting for review
+  pendingChanges?: Partial<Record<ContentField, string>>
+  hasPendingChanges?: boolean
+  // Values a reviewer dismissed, so they are not flagged again by later scrapes
+  dismissedChanges?: Partial<Record<ContentField, string>>
+  // Copy of the image at imageUrl, stored by the image pipeline
+  image?: ExhibitionImage
+  // How the exhibition was extracted by the scrape that last created or updated it
+  extraction?: ExtractionProvenance
+  // Stamped whenever a scrape finds the exhibition
+  lastSeenAt?: Timestamp
+  seenCount?: number
+  // Consecutive runs covering the museum that did not find the exhibition
+  missedRuns?: number
+  // Set once missedRuns reaches the threshold, cleared when the exhibition is found again
+  isMissing?: boolean
+  missingSince?: Timestamp
+  excludedReason?: string
+  reviewedBy?: string
+  reviewedAt?: Timestamp
+  reviewAction?: ReviewAction
+}
+
+/**
+ * Exhibition as returned by the API
+ * Exhibition dates are serialized as `yyyy-MM-dd` in Asia/Tokyo, other timestamps as ISO strings
+ */
+export interface Exhibition
+  extends Omit<
+    ExhibitionDocument,
+    | 'startDate'
+    | 'endDate'
+    | 'createdAt'
+    | 'updatedAt'
+    | 'reviewedAt'
+    | 'lastSeenAt'
+    | 'missingSince'
+  > {
+  id: string
+  startDate?: string
+  endDate?: string
+  createdAt: string
+  updatedAt: string
+  reviewedAt?: string
+  lastSeenAt?: string
+  missingSince?: string
+  // Absent when the exhibition has no dates
+  phase?: Phase
+}
+
+/**
+ * Exhibition to export, with the museum holding it
+ */
+export interface ExportedExhibition {
+  id: string
+  data: ExhibitionDocument
+  museum?: Museum
 }
 
 /**
@@ -31,10 +106,114 @@ export interface NewExhibitionDocument {
   startDate?: Timestamp
   endDate?: Timestamp
   status: 'pending'
-  origin: 'scrape' | 'scrape-feed'
+  origin: ScrapeOrigin
   isExcluded: boolean
   hasDateChanged: boolean
   createdAt: Timestamp
   updatedAt: Timestamp
   officialUrl?: string
+  imageUrl?: string
+  extraction?: ExtractionProvenance
+  lastSeenAt: Timestamp
+  seenCount: number
+  missedRuns: number
+}
+
+/**
+ * Aggregated results of processing scraped exhibitions
+ */
+export interface ScrapeStats {
+  created: number
+  updated: number
+  skipped: number
+  errors: number
+  // Number of exhibitions that failed semantic validation and were quarantined
+  quarantined?: number
+  // Number of new exhibitions treated as a near-duplicate of an existing one
+  linked?: number
+  // Number of new exhibitions held back as merge candidates for review
+  mergeCandidates?: number
+  // Number of updated exhibitions in which each field changed (filled in or held for review)
+  fieldChanges?: Partial<Record<DiffField, number>>
+  // Number of exhibition images downloaded and stored, or that could not be stored
+  images?: { stored: number; failed: number }
+  // Number of exhibitions of the covered museums newly flagged as missing
+  missing?: number
+  // Number of exhibitions whose venue was resolved by each strategy
+  venueMatches?: Record<VenueMatchStrategy, number>
+}
+
+/**
+ * Options controlling how scraped exhibitions are processed
+ */
+export interface ProcessOptions {
+  /** Only read existing documents and report what would change, without writing */
+  dryRun?: boolean
+  /** Minimum score for fuzzy venue matches (defaults to `VENUE_MATCH_CONFIG.fuzzyThreshold`) */
+  venueMatchThreshold?: number
+  /** Skip semantic validation, e.g. for exhibitions released from quarantine by a reviewer */
+  skipValidation?: boolean
+  /** Skip near-duplicate detection, e.g. for merge candidates a reviewer marked as separate */
+  skipDuplicateDetection?: boolean
+  /** ID of the scrape run the exhibitions come from, recorded in the change history */
+  runId?: string
+  /** Museums whose whole listing was scraped; their exhibitions that were not found count a missed run */
+  coveredMuseumIds?: string[]
+  /** When the exhibitions were scraped, used to infer missing years and to validate dates (defaults to now) */
+  scrapedAt?: Date
+}
+
+/**
+ * Existing exhibition resembling a new one
+ */
+export interface DuplicateMatch {
+  documentId: string
+  title: string
+  similarity: number
+}
+
+/**
+ * Outcome of a single scraped exhibition, as reported by a dry run
+ */
+export interface ExhibitionDiff {
+  title: string
+  venue: string
+  action: 'create' | 'update' | 'skip' | 'reject' | 'quarantine' | 'merge-candidate'
+  documentId?: string
+  reason?: string
+  // Present when the venue was not matched exactly
+  venueMatch?: VenueMatch
+  // Present when the exhibition was matched to an existing one with a different title
+  duplicateOf?: DuplicateMatch
+  // Present for updates; fields with `pendingReview` were held for review instead of written
+  changes?: Partial<Record<DiffField, { old?: string; new?: string; pendingReview?: boolean }>>
+}
+
+/**
+ * Results of processing scraped exhibitions, including the diff when running in dry-run mode
+ */
+export interface ProcessResults extends ScrapeStats {
+  diff?: ExhibitionDiff[]
+}
+
+/**
+ * Results of moving exhibition documents to the IDs generated from their canonicalized titles
+ */
+export interface IdMigrationResults {
+  scanned: number
+  migrated: number
+  unchanged: number
+  errors: number
+  // Documents whose new ID is already used by another document
+  conflicts: Array<{ from: string; to: string; title: string }>
+}
+
+/**
+ * Results of moving exhibitions between `active` and `ended` based on their end date
+ */
+export interface LifecycleResults {
+  // Active exhibitions whose end date has passed
+  ended: number
+  // Ended exhibitions whose end date was moved into the future
+  reopened: number
 }
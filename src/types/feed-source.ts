@@ -0,0 +1,21 @@
+import type { ExhibitionDiff, ScrapeStats } from './exhibition.js'
+
+/**
+ * Feed source document structure in Firestore
+ */
+export interface FeedSourceDocument {
+  name: string
+  url: string
+  crawlDepth: number
+  instructions?: string
+  enabled: boolean
+  region?: string
+}
+
+/**
+ * Outcome of scraping one feed source, as reported by POST /exhibition/scrape-feed
+ */
+export type FeedScrapeResult = { feedId: string; name: string } & (
+  | { runId: string; stats: ScrapeStats & { total: number }; diff?: ExhibitionDiff[] }
+  | { error: string }
+)
@@ -0,0 +1,40 @@
+/**
+ * Backend that stored images are written to
+ */
+export interface ImageStorage {
+  /**
+   * Write an image to the storage
+   *
+   * @param path - Path of the image relative to the storage root
+   * @param data - The image content
+   * @param contentType - The MIME type of the image
+   * @returns The URI of the stored image (e.g. `gs://bucket/path` or a local file path)
+   */
+  save(path: string, data: Buffer, contentType: string): Promise<string>
+
+  /**
+   * Copy a stored image to another path, keeping the original
+   *
+   * @returns The URI of the copy
+   */
+  copy(fromPath: string, toPath: string): Promise<string>
+}
+
+export type ImageFormat = 'jpeg' | 'png' | 'gif' | 'webp'
+
+export interface ImageDimensions {
+  format: ImageFormat
+  width: number
+  height: number
+}
+
+/**
+ * Stored image recorded on an exhibition document
+ */
+export interface ExhibitionImage {
+  path: string
+  sourceUrl: string
+  contentType: string
+  width: number
+  height: number
+}
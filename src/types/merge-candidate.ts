@@ -0,0 +1,54 @@
+import type { Timestamp } from '@google-cloud/firestore'
+import type { ScrapedExhibition } from '../schemas/exhibition.schema.js'
+import type { ScrapeOrigin } from './exhibition.js'
+
+export type MergeCandidateStatus = 'open' | 'merged' | 'separated'
+
+/**
+ * Where a merge candidate was found
+ * - `scrape`: a scraped exhibition resembling an existing one was held back instead of created
+ * - `audit`: two existing exhibitions resemble each other
+ */
+export type MergeCandidateSource = 'scrape' | 'audit'
+
+/**
+ * Merge candidate document structure in Firestore
+ */
+export interface MergeCandidateDocument {
+  museumId: string
+  source: MergeCandidateSource
+  status: MergeCandidateStatus
+  // The existing exhibition the candidate resembles
+  existingId: string
+  existingTitle: string
+  title: string
+  similarity: number
+  // Set for `scrape` candidates: the exhibition that was not written
+  exhibition?: ScrapedExhibition
+  origin?: ScrapeOrigin
+  // Set for `audit` candidates: the other existing exhibition
+  duplicateId?: string
+  createdAt: Timestamp
+  updatedAt: Timestamp
+  resolvedBy?: string
+  resolvedAt?: Timestamp
+}
+
+/**
+ * Merge candidate as returned by the API, with timestamps serialized to ISO strings
+ */
+export interface MergeCandidate
+  extends Omit<MergeCandidateDocument, 'createdAt' | 'updatedAt' | 'resolvedAt'> {
+  id: string
+  createdAt: string
+  updatedAt: string
+  resolvedAt?: string
+}
+
+/**
+ * Results of auditing existing exhibitions for near-duplicates
+ */
+export interface DuplicateAuditResults {
+  scanned: number
+  candidates: number
+}
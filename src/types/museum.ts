@@ -1,5 +1,7 @@
-type VenueType = '美術館' | '博物館' | 'ギャラリー' | 'イベントスペース'
-type Area =
+import type { CrawlSettings, ScraperConfig } from './scraper.js'
+
+export type VenueType = '美術館' | '博物館' | 'ギャラリー' | 'イベントスペース'
+export type Area =
   | '上野'
   | '浅草・押上（スカイツリー）'
   | '銀座・丸の内'
@@ -33,6 +35,8 @@ export interface MuseumDocument {
   scrapeUrl: string
   aliases?: string[]
   scrapeEnabled: boolean
+  scraper?: ScraperConfig
+  crawl?: CrawlSettings
   venueType: VenueType
   area: Area
 }
@@ -43,4 +47,17 @@ export interface MuseumDocument {
 export interface MuseumMaps {
   aliasToName: Map<string, string>
   nameToId: Map<string, string>
+  // Names and aliases keyed by their normalized form (see `normalizeVenueName`)
+  normalizedToName: Map<string, string>
+}
+
+export type VenueMatchStrategy = 'exact' | 'normalized' | 'fuzzy'
+
+/**
+ * Result of resolving a scraped venue name to a museum
+ */
+export interface VenueMatch {
+  name: string
+  strategy: VenueMatchStrategy
+  score: number
 }
@@ -0,0 +1,58 @@
+import type { Timestamp } from '@google-cloud/firestore'
+import type { ScrapedExhibition } from '../schemas/exhibition.schema.js'
+import type { ScrapeOrigin } from './exhibition.js'
+
+export type QuarantineStatus = 'open' | 'released' | 'discarded'
+
+/**
+ * Codes of the semantic validation rules applied to scraped exhibitions
+ */
+export type ValidationRuleCode =
+  | 'TITLE_TOO_SHORT'
+  | 'BLOCKED_TITLE'
+  | 'UNPARSEABLE_DATE'
+  | 'DATE_ORDER'
+  | 'DATE_OUT_OF_RANGE'
+
+export interface RuleViolation {
+  code: ValidationRuleCode
+  message: string
+}
+
+/**
+ * Scraped exhibition together with the rules it breaks
+ */
+export interface QuarantineCandidate {
+  exhibition: ScrapedExhibition
+  violations: RuleViolation[]
+}
+
+export type CorrectedDates = Pick<ScrapedExhibition, 'startDate' | 'endDate'>
+
+/**
+ * Quarantined exhibition document structure in Firestore
+ */
+export interface QuarantinedExhibitionDocument {
+  exhibition: ScrapedExhibition
+  origin: ScrapeOrigin
+  status: QuarantineStatus
+  violations: RuleViolation[]
+  occurrenceCount: number
+  firstSeenAt: Timestamp
+  lastSeenAt: Timestamp
+  resolvedBy?: string
+  resolvedAt?: Timestamp
+  // Dates the reviewer corrected on release, used in place of scraped dates that cannot be parsed
+  correctedDates?: CorrectedDates
+}
+
+/**
+ * Quarantined exhibition as returned by the API, with timestamps serialized to ISO strings
+ */
+export interface QuarantinedExhibition
+  extends Omit<QuarantinedExhibitionDocument, 'firstSeenAt' | 'lastSeenAt' | 'resolvedAt'> {
+  id: string
+  firstSeenAt: string
+  lastSeenAt: string
+  resolvedAt?: string
+}
@@ -0,0 +1,92 @@
+import type { Timestamp } from '@google-cloud/firestore'
+import type { ScrapeOrigin, ScrapeStats } from './exhibition.js'
+
+// `processing` is set while the webhook of an async run processes its results
+export type ScrapeRunStatus = 'running' | 'processing' | 'succeeded' | 'failed'
+
+/**
+ * Scrape run document structure in Firestore
+ */
+export interface ScrapeRunDocument {
+  origin: ScrapeOrigin
+  status: ScrapeRunStatus
+  dryRun?: boolean
+  async?: boolean
+  ingest?: boolean
+  startedAt: Timestamp
+  endedAt?: Timestamp
+  apifyRunId?: string
+  // Set instead of apifyRunId when the scrape waited for its actor runs, which may be several
+  apifyRunIds?: string[]
+  datasetId?: string
+  museumIds?: string[]
+  // Set for feed scrapes, which run once per feed source
+  feedId?: string
+  // Set when the exhibitions were extracted by an LLM
+  promptVersion?: string
+  models?: string[]
+  stats?: ScrapeStats
+  failureReason?: string
+  // Set on an async scrape, whose crawls are each tracked as a job of their own
+  jobIds?: string[]
+  // Set on the jobs of an async scrape
+  parentId?: string
+}
+
+/**
+ * Options recorded on a scrape run when it is created
+ */
+export interface ScrapeRunOptions {
+  dryRun?: boolean
+  /** The actor was started without waiting; results arrive through the Apify webhook */
+  async?: boolean
+  /** Items were re-ingested from an existing Apify dataset instead of a new crawl */
+  ingest?: boolean
+  /** The run is one job of the async scrape with this run ID */
+  parentId?: string
+}
+
+/**
+ * Mutable context filled in by a tracked scrape run as it progresses
+ */
+export interface ScrapeRunContext {
+  id: string
+  apifyRunId?: string
+  apifyRunIds?: string[]
+  datasetId?: string
+  museumIds?: string[]
+  feedId?: string
+  promptVersion?: string
+  models?: string[]
+  stats?: ScrapeStats
+  jobIds?: string[]
+}
+
+/**
+ * Scrape run as returned by the API, with timestamps serialized to ISO strings
+ */
+export interface ScrapeRun extends Omit<ScrapeRunDocument, 'startedAt' | 'endedAt'> {
+  id: string
+  startedAt: string
+  endedAt?: string
+}
+
+/**
+ * Outcome of the recent runs that extracted with one prompt version
+ * Rates are relative to the exhibitions the runs scraped, and 0 when there were none.
+ */
+export interface PromptVersionStats {
+  promptVersion: string
+  runs: number
+  failedRuns: number
+  models: string[]
+  exhibitions: number
+  created: number
+  updated: number
+  skipped: number
+  errors: number
+  quarantined: number
+  mergeCandidates: number
+  errorRate: number
+  quarantineRate: number
+}
@@ -0,0 +1,122 @@
+import type { Museum } from '../schemas/museum.schema.js'
+import type { ScrapedExhibition } from '../schemas/exhibition.schema.js'
+import type { ScrapeOrigin } from './exhibition.js'
+
+/**
+ * How a museum's exhibitions are scraped
+ * - `apify`: crawled by the Apify actor, which extracts exhibitions with an LLM
+ * - `html`: the page is fetched directly and exhibitions are extracted by an HTML parser
+ */
+export type ScraperProviderName = 'apify' | 'html'
+export type HtmlParserName = 'selectors'
+
+/**
+ * How the fields of an exhibition were extracted from a page
+ * - `llm`: by the Apify actor with an extraction prompt
+ * - `json-ld`, `microdata`: from schema.org events published on the page
+ * - `selectors`: by the CSS selectors configured on the museum
+ */
+export type ExtractionMethod = 'llm' | 'json-ld' | 'microdata' | 'selectors'
+
+/**
+ * CSS selectors used by the `selectors` parser, relative to each exhibition item
+ * `date` holds the whole period (e.g. `2025年3月1日〜5月6日`) and is split into start and end dates.
+ */
+export interface HtmlSelectors {
+  item: string
+  title: string
+  date?: string
+  startDate?: string
+  endDate?: string
+  // Defaults to the first link in the item
+  link?: string
+  image?: string
+}
+
+/**
+ * Per-museum scraper settings
+ */
+export interface ScraperConfig {
+  provider: ScraperProviderName
+  // Defaults to `selectors` for the `html` provider
+  parser?: HtmlParserName
+  selectors?: HtmlSelectors
+}
+
+/**
+ * Crawler settings for a page, overriding the defaults of the provider
+ */
+export interface CrawlSettings {
+  maxCrawlingDepth?: number
+  maxPagesPerCrawl?: number
+  // Links matching the selector are followed, up to maxCrawlingDepth
+  linkSelector?: string
+  excludeUrlGlobs?: string[]
+  // Appended to the default extraction instructions
+  instructions?: string
+  model?: string
+}
+
+/**
+ * Crawler settings with the defaults filled in
+ */
+export type EffectiveCrawlSettings = Required<Omit<CrawlSettings, 'instructions'>> &
+  Pick<CrawlSettings, 'instructions'>
+
+/**
+ * Page to scrape, with the museum it lists exhibitions for (absent for feeds)
+ */
+export interface ScrapeTarget {
+  url: string
+  museum?: Museum
+  crawl?: CrawlSettings
+}
+
+export interface ScrapeResult {
+  exhibitions: ScrapedExhibition[]
+  // Set when the exhibitions were scraped by Apify, one per actor run
+  apifyRunIds?: string[]
+  // Set when the exhibitions were extracted by an LLM
+  promptVersion?: string
+  models?: string[]
+}
+
+export interface ScrapeOptions {
+  // Registered prompt version to extract with (defaults to `DEFAULT_PROMPT_VERSION`)
+  promptVersion?: string
+}
+
+/**
+ * Source of scraped exhibitions
+ */
+export interface ScraperProvider {
+  readonly name: ScraperProviderName
+  scrape(
+    targets: ScrapeTarget[],
+    origin: ScrapeOrigin,
+    options?: ScrapeOptions,
+  ): Promise<ScrapeResult>
+}
+
+/**
+ * Instructions and output schema given to the LLM for one scrape origin
+ */
+export interface ExtractionPrompt {
+  instructions: string
+  schema: object
+  schemaDescription: string
+}
+
+/**
+ * Registered version of the extraction prompts
+ */
+export interface PromptDefinition {
+  version: string
+  description: string
+  prompts: Record<ScrapeOrigin, ExtractionPrompt>
+}
+
+/**
+ * Extracts exhibitions from the HTML of a page
+ */
+export type HtmlParser = (html: string, target: ScrapeTarget) => ScrapedExhibition[]
@@ -0,0 +1,37 @@
+import type { Timestamp } from '@google-cloud/firestore'
+import type { ScrapedExhibition } from '../schemas/exhibition.schema.js'
+import type { ScrapeOrigin } from './exhibition.js'
+
+export type UnmatchedVenueStatus = 'open' | 'promoted' | 'dismissed'
+
+/**
+ * Scraped exhibition held back because its venue could not be resolved
+ */
+export type HeldExhibition = ScrapedExhibition & { origin: ScrapeOrigin }
+
+/**
+ * Unmatched venue document structure in Firestore
+ */
+export interface UnmatchedVenueDocument {
+  venue: string
+  status: UnmatchedVenueStatus
+  sampleTitles: string[]
+  heldExhibitions: HeldExhibition[]
+  origins: ScrapeOrigin[]
+  occurrenceCount: number
+  firstSeenAt: Timestamp
+  lastSeenAt: Timestamp
+  promotedTo?: string
+  resolvedAt?: Timestamp
+}
+
+/**
+ * Unmatched venue as returned by the API, with timestamps serialized to ISO strings
+ */
+export interface UnmatchedVenue
+  extends Omit<UnmatchedVenueDocument, 'firstSeenAt' | 'lastSeenAt' | 'resolvedAt'> {
+  id: string
+  firstSeenAt: string
+  lastSeenAt: string
+  resolvedAt?: string
+}
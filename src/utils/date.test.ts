@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest'
+import { formatDate, parseExhibitionDates, splitDateRange, startOfTokyoDay } from './date.js'
+import { ValidationError } from '../errors/app-error.js'
+
+const referenceDate = new Date('2025-06-15T00:00:00.000Z')
+
+function parse(startDate?: string | null, endDate?: string | null) {
+  const result = parseExhibitionDates(startDate, endDate, referenceDate)
+  return { startDate: formatDate(result.startDate), endDate: formatDate(result.endDate) }
+}
+
+describe('date', () => {
+  describe('parseExhibitionDates', () => {
+    it.each([
+      ['2025-03-01', '2025-03-01'],
+      ['2025/3/1', '2025-03-01'],
+      ['2025.03.01', '2025-03-01'],
+      ['2025年3月1日', '2025-03-01'],
+      ['２０２５年３月１日（土）', '2025-03-01'],
+      ['2025年3月1日(土・祝)〜', '2025-03-01'],
+      ['2025-03-01T10:00:00+09:00', '2025-03-01'],
+      ['2025-02-28T15:30:00Z', '2025-03-01'],
+      ['2025-03-01T23:30:00-0100', '2025-03-02'],
+      ['2025年3月1日10:00', '2025-03-01'],
+      ['令和7年3月1日', '2025-03-01'],
+      ['令和7年3月1日 10:00', '2025-03-01'],
+      ['令和7年3月1日10時30分', '2025-03-01'],
+      ['3月1日 18:00', '2025-03-01'],
+      ['令和元年5月1日', '2019-05-01'],
+      ['平成31年4月30日', '2019-04-30'],
+    ])('should parse %s', (value, expected) => {
+      expect(parse(value).startDate).toBe(expected)
+    })
+
+    it('should treat empty values as missing', () => {
+      expect(parse('', null)).toEqual({ startDate: undefined, endDate: undefined })
+    })
+
+    it('should take a missing year from the other date', () => {
+      expect(parse('3月1日', '2026年5月6日まで')).toEqual({
+        startDate: '2026-03-01',
+        endDate: '2026-05-06',
+      })
+    })
+
+    it('should move the end date into the next year when the range crosses new year', () => {
+      expect(parse('2025年12月20日', '1/12')).toEqual({
+        startDate: '2025-12-20',
+        endDate: '2026-01-12',
+      })
+      expect(parse('12/20', '2026/1/12')).toEqual({
+        startDate: '2025-12-20',
+        endDate: '2026-01-12',
+      })
+    })
+
+    it('should infer the year closest to the reference date when neither date has one', () => {
+      expect(parse('7/1', '8/31')).toEqual({ startDate: '2025-07-01', endDate: '2025-08-31' })
+      expect(parse('12/20', '1/12')).toEqual({ startDate: '2024-12-20', endDate: '2025-01-12' })
+    })
+
+    it('should throw ValidationError for unparseable values', () => {
+      expect(() => parse('近日公開')).toThrow(ValidationError)
+      expect(() => parse('2025-03-01', 'TBD')).toThrow('Unparseable endDate: "TBD"')
+    })
+
+    it('should throw ValidationError for dates that do not exist', () => {
+      expect(() => parse('2025年2月30日')).toThrow('Invalid startDate: "2025年2月30日"')
+    })
+  })
+
+  describe('startOfTokyoDay', () => {
+    it('should return midnight of the day in Asia/Tokyo', () => {
+      // 2025-06-15 23:30 UTC is already 2025-06-16 in Tokyo
+      const today = startOfTokyoDay(new Date('2025-06-15T23:30:00.000Z'))
+      expect(today.toDate().toISOString()).toBe('2025-06-15T15:00:00.000Z')
+    })
+  })
+
+  describe('splitDateRange', () => {
+    it.each([
+      [
+        '2025年3月1日（土）〜5月6日（火）',
+        { startDate: '2025年3月1日(土)', endDate: '5月6日(火)' },
+      ],
+      ['2025.03.01 - 2025.05.06', { startDate: '2025.03.01', endDate: '2025.05.06' }],
+      ['2025-03-01～2025-05-06', { startDate: '2025-03-01', endDate: '2025-05-06' }],
+      ['2025/03/01-2025/05/06', { startDate: '2025/03/01', endDate: '2025/05/06' }],
+      ['2025-03-01-2025-05-06', { startDate: '2025-03-01', endDate: '2025-05-06' }],
+      ['2025-03-01', { startDate: '2025-03-01' }],
+      ['2025年3月1日', { startDate: '2025年3月1日' }],
+    ])('should split %s', (text, expected) => {
+      expect(splitDateRange(text)).toEqual(expected)
+    })
+  })
+})
@@ -1,30 +1,246 @@
 import { TZDate } from '@date-fns/tz'
+import { format } from 'date-fns'
 import { Timestamp } from '@google-cloud/firestore'
+import { ValidationError } from '../errors/app-error.js'
 
 /**
- * Compare Firestore Timestamps or undefined/null values representing missing dates
+ * Compare Firestore Timestamps or undefined values representing missing dates
  *
  * @param existing - The existing date value from Firestore (Timestamp or undefined)
- * @param incoming - The incoming date value from scraping (string, null, or undefined)
+ * @param incoming - The incoming date value parsed from scraping (Timestamp or undefined)
  * @returns true if dates are equal, false otherwise
  */
 export function areDatesEqual(
   existing: Timestamp | undefined,
-  incoming: string | undefined | null,
+  incoming: Timestamp | undefined,
 ): boolean {
-  // Convert incoming string to Timestamp if present
-  const incomingDate = incoming ? Timestamp.fromDate(new TZDate(incoming, 'Asia/Tokyo')) : undefined
-
-  // Both undefined/null
-  if (existing === undefined && incomingDate === undefined) {
+  // Both undefined
+  if (existing === undefined && incoming === undefined) {
     return true
   }
 
   // One is undefined, the other is not
-  if (existing === undefined || incomingDate === undefined) {
+  if (existing === undefined || incoming === undefined) {
     return false
   }
 
   // Both are Timestamps - use Firestore's isEqual()
-  return existing.isEqual(incomingDate)
+  return existing.isEqual(incoming)
+}
+
+/**
+ * Format a Firestore Timestamp as a `yyyy-MM-dd` date in Asia/Tokyo
+ *
+ * @param date - The Timestamp to format (or undefined)
+ * @returns The formatted date, or undefined if no date was given
+ */
+export function formatDate(date: Timestamp | undefined): string | undefined {
+  return date ? format(new TZDate(date.toDate(), 'Asia/Tokyo'), 'yyyy-MM-dd') : undefined
+}
+
+/**
+ * Get the start of the day in Asia/Tokyo, matching how exhibition dates are stored
+ *
+ * @param date - The moment whose day to use (defaults to now)
+ * @returns Midnight of that day in Asia/Tokyo
+ */
+export function startOfTokyoDay(date: Date = new Date()): Timestamp {
+  const tokyo = new TZDate(date, 'Asia/Tokyo')
+  return Timestamp.fromDate(
+    new TZDate(tokyo.getFullYear(), tokyo.getMonth(), tokyo.getDate(), 'Asia/Tokyo'),
+  )
+}
+
+/**
+ * Split text at the first hyphen that has a full date (with a year) on both sides
+ */
+function splitAtDateHyphen(text: string): [string, string] | undefined {
+  for (let i = text.indexOf('-'); i !== -1; i = text.indexOf('-', i + 1)) {
+    const start = text.slice(0, i).trim()
+    const end = text.slice(i + 1).trim()
+    if (parseDateParts(start)?.year !== undefined && parseDateParts(end)?.year !== undefined) {
+      return [start, end]
+    }
+  }
+  return undefined
+}
+
+/**
+ * Split a period such as `2025年3月1日（土）〜5月6日（火）` into its start and end dates
+ * A single date is returned as the start date. A hyphen without spaces (`2025/03/01-2025/05/06`)
+ * only separates the dates when both sides are full dates, as it is also a date separator.
+ */
+export function splitDateRange(text: string): { startDate?: string; endDate?: string } {
+  const parts = text
+    .normalize('NFKC')
+    .split(/\s*[〜~–—]\s*|\s+-\s+/)
+    .map((part) => part.trim())
+  const [start, end] = parts.length === 1 ? (splitAtDateHyphen(parts[0]) ?? parts) : parts
+  return {
+    ...(start && { startDate: start }),
+    ...(end && { endDate: end }),
+  }
+}
+
+interface DateParts {
+  year?: number
+  month: number
+  day: number
+}
+
+const ERA_START_YEARS: Record<string, number> = {
+  令和: 2019,
+  平成: 1989,
+  昭和: 1926,
+}
+
+// ISO 8601 datetime with a UTC offset, e.g. from JSON-LD
+const ISO_DATETIME_WITH_OFFSET =
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})$/
+
+// Time following a date, e.g. ` 10:00`, `T10:00:00` or `10時30分` right after `日`
+const TRAILING_TIME = /(?:T|\s+|(?<=日))\d{1,2}(?::\d{2}(?::\d{2}(?:\.\d+)?)?|時(?:\d{1,2}分)?)$/
+
+/**
+ * Parse a scraped date string into year/month/day parts
+ *
+ * Supported formats (after NFKC normalization):
+ * - `2025-03-01`, `2025/3/1`, `2025.03.01`, `2025年3月1日`
+ * - `令和7年3月1日`, `令和元年5月1日`
+ * - `3/1`, `3.1`, `3月1日` (year inferred by the caller)
+ * Any of these may be followed by a time. ISO datetimes with an offset (`Z`, `+09:00`) are
+ * converted to Asia/Tokyo first, so a UTC time late in the evening falls on the next day.
+ * Weekdays such as `(土)`, range markers such as `〜` and suffixes like `まで` are ignored.
+ *
+ * @returns The parsed parts, or null if the value is not a supported date
+ */
+function parseDateParts(value: string): DateParts | null {
+  let text = value
+    .normalize('NFKC')
+    .replace(/[(（][^)）]*[)）]/g, '')
+    .replace(/(まで|から|より)$/, '')
+    .replace(/[\s〜~\-–—]+$/, '')
+    .replace(/^[\s〜~\-–—]+/, '')
+    .trim()
+
+  if (ISO_DATETIME_WITH_OFFSET.test(text)) {
+    const instant = new Date(text.replace(/([+-]\d{2})(\d{2})$/, '$1:$2'))
+    if (Number.isNaN(instant.getTime())) {
+      return null
+    }
+    const tokyo = new TZDate(instant, 'Asia/Tokyo')
+    return { year: tokyo.getFullYear(), month: tokyo.getMonth() + 1, day: tokyo.getDate() }
+  }
+  text = text.replace(TRAILING_TIME, '')
+
+  const full = text.match(/^(\d{4})[-/.年](\d{1,2})[-/.月](\d{1,2})日?(?:[T\s].*)?$/)
+  if (full) {
+    return { year: Number(full[1]), month: Number(full[2]), day: Number(full[3]) }
+  }
+
+  const era = text.match(/^(令和|平成|昭和)(\d{1,2}|元)年(\d{1,2})月(\d{1,2})日$/)
+  if (era) {
+    const eraYear = era[2] === '元' ? 1 : Number(era[2])
+    return {
+      year: ERA_START_YEARS[era[1]] + eraYear - 1,
+      month: Number(era[3]),
+      day: Number(era[4]),
+    }
+  }
+
+  const monthDay = text.match(/^(\d{1,2})[/.月](\d{1,2})日?$/)
+  if (monthDay) {
+    return { month: Number(monthDay[1]), day: Number(monthDay[2]) }
+  }
+
+  return null
+}
+
+function toTokyoDate(year: number, parts: DateParts): TZDate {
+  return new TZDate(year, parts.month - 1, parts.day, 'Asia/Tokyo')
+}
+
+/**
+ * Pick the year that puts a month/day closest to the reference date
+ */
+function inferYear(parts: DateParts, referenceDate: Date): number {
+  const referenceYear = new TZDate(referenceDate, 'Asia/Tokyo').getFullYear()
+  const candidates = [referenceYear - 1, referenceYear, referenceYear + 1]
+  const distance = (year: number) =>
+    Math.abs(toTokyoDate(year, parts).getTime() - referenceDate.getTime())
+  return candidates.reduce((best, year) => (distance(year) < distance(best) ? year : best))
+}
+
+function parseOrThrow(field: string, value: string | null | undefined): DateParts | undefined {
+  if (!value || value.trim() === '') {
+    return undefined
+  }
+
+  const parts = parseDateParts(value)
+  if (!parts) {
+    throw new ValidationError(`Unparseable ${field}: "${value}"`)
+  }
+
+  // Reject impossible dates such as 2月30日 instead of letting them roll over
+  const check = new Date(Date.UTC(parts.year ?? 2000, parts.month - 1, parts.day))
+  if (check.getUTCMonth() !== parts.month - 1 || check.getUTCDate() !== parts.day) {
+    throw new ValidationError(`Invalid ${field}: "${value}"`)
+  }
+
+  return parts
+}
+
+/**
+ * Parse the scraped start and end dates of an exhibition into Firestore Timestamps (Asia/Tokyo)
+ *
+ * Dates without a year take it from the other end of the range when available (moving the end
+ * into the next year if it would otherwise precede the start), or else the year that puts them
+ * closest to the reference date. Empty values are treated as missing.
+ *
+ * @param startDate - The scraped start date
+ * @param endDate - The scraped end date
+ * @param referenceDate - The date the values were scraped, used to infer missing years
+ * @returns The parsed dates
+ * @throws ValidationError if a non-empty value cannot be parsed
+ */
+export function parseExhibitionDates(
+  startDate: string | null | undefined,
+  endDate: string | null | undefined,
+  referenceDate: Date = new Date(),
+): { startDate?: Timestamp; endDate?: Timestamp } {
+  const start = parseOrThrow('startDate', startDate)
+  const end = parseOrThrow('endDate', endDate)
+
+  let startYear = start?.year
+  let endYear = end?.year
+
+  if (start && startYear === undefined) {
+    if (end && endYear !== undefined) {
+      startYear = endYear
+      if (toTokyoDate(startYear, start) > toTokyoDate(endYear, end)) {
+        startYear--
+      }
+    } else {
+      startYear = inferYear(start, referenceDate)
+    }
+  }
+
+  if (end && endYear === undefined) {
+    if (start && startYear !== undefined) {
+      endYear = startYear
+      if (toTokyoDate(endYear, end) < toTokyoDate(startYear, start)) {
+        endYear++
+      }
+    } else {
+      endYear = inferYear(end, referenceDate)
+    }
+  }
+
+  return {
+    ...(start &&
+      startYear !== undefined && {
+        startDate: Timestamp.fromDate(toTokyoDate(startYear, start)),
+      }),
+    ...(end && endYear !== undefined && { endDate: Timestamp.fromDate(toTokyoDate(endYear, end)) }),
+  }
 }
@@ -1,22 +1,58 @@
 import crypto from 'crypto'
+import { canonicalizeTitle, normalizeVenueName } from './text.js'
 
 /**
- * Normalizes a text string to reduce variations caused by formatting differences.
- *
- * This function is intended to make scraped strings comparable by:
- * - Converting full-width characters to half-width characters using Unicode NFKC normalization
- * - Converting all characters to lowercase
- * - Collapsing multiple whitespace characters into a single space
- * - Trimming leading and trailing whitespace
+ * Generates a deterministic document ID for an exhibition document.
+ * The title is canonicalized so that listings of the same exhibition with different labels,
+ * brackets or a trailing museum name share the same document.
+ * Only the canonical museum name is stripped, not its aliases: aliases are added over time
+ * (e.g. when an unmatched venue is promoted), and the ID of existing titles must not change.
+ * Renaming a museum does change the IDs, so its exhibitions are migrated when it is renamed.
  */
-function normalize(text: string): string {
-  return text.normalize('NFKC').toLowerCase().replace(/\s+/g, ' ').trim()
+export function getExhibitionDocumentId(
+  museumId: string,
+  title: string,
+  museumName?: string,
+): string {
+  const hashedTitle = crypto
+    .createHash('md5')
+    .update(canonicalizeTitle(title, museumName ? [museumName] : []))
+    .digest('base64url')
+  return `${museumId}_${hashedTitle}`
 }
 
 /**
- * Generates a deterministic document ID for an exhibition document.
+ * Generates a deterministic document ID for an unmatched venue document.
+ * Venue names that only differ in formatting share the same document.
  */
-export function getExhibitionDocumentId(museumId: string, title: string): string {
-  const hashedTitle = crypto.createHash('md5').update(normalize(title)).digest('base64url')
-  return `${museumId}_${hashedTitle}`
+export function getUnmatchedVenueDocumentId(venue: string): string {
+  return crypto.createHash('md5').update(normalizeVenueName(venue)).digest('base64url')
+}
+
+/**
+ * Generates a deterministic document ID for a quarantined exhibition document.
+ * The venue is part of the ID because quarantined exhibitions have not been matched to a museum.
+ */
+export function getQuarantinedExhibitionDocumentId(venue: string, title: string): string {
+  return crypto
+    .createHash('md5')
+    .update(`${normalizeVenueName(venue)}\n${canonicalizeTitle(title, [venue])}`)
+    .digest('base64url')
+}
+
+/**
+ * Compares two secrets in constant time.
+ * Both values are hashed first so that inputs of different lengths can be compared safely.
+ */
+export function secretsEqual(actual: string, expected: string): boolean {
+  const actualHash = crypto.createHash('sha256').update(actual).digest()
+  const expectedHash = crypto.createHash('sha256').update(expected).digest()
+  return crypto.timingSafeEqual(actualHash, expectedHash)
+}
+
+/**
+ * Generates a strong ETag for a response body.
+ */
+export function getContentETag(body: string): string {
+  return `"${crypto.createHash('sha256').update(body).digest('base64url')}"`
 }
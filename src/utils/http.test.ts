@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest'
+import { isNotModified, isPublicAddress, resolveUrl } from './http.js'
+
+describe('isNotModified', () => {
+  const etag = '"abc"'
+  const lastModified = new Date('2025-02-03T00:00:00.500Z')
+
+  it('should match the ETag weakly against any listed tag', () => {
+    expect(isNotModified({ 'if-none-match': '"xyz", W/"abc"' }, etag)).toBe(true)
+    expect(isNotModified({ 'if-none-match': '*' }, etag)).toBe(true)
+    expect(isNotModified({ 'if-none-match': '"xyz"' }, etag)).toBe(false)
+  })
+
+  it('should ignore If-Modified-Since when If-None-Match is given', () => {
+    expect(
+      isNotModified(
+        { 'if-none-match': '"xyz"', 'if-modified-since': 'Mon, 03 Feb 2025 00:00:00 GMT' },
+        etag,
+        lastModified,
+      ),
+    ).toBe(false)
+  })
+
+  it('should compare the last modification with a precision of one second', () => {
+    const headers = (date: string) => ({ 'if-modified-since': date })
+
+    expect(isNotModified(headers('Mon, 03 Feb 2025 00:00:00 GMT'), etag, lastModified)).toBe(true)
+    expect(isNotModified(headers('Sun, 02 Feb 2025 23:59:59 GMT'), etag, lastModified)).toBe(false)
+    expect(isNotModified(headers('not a date'), etag, lastModified)).toBe(false)
+    expect(isNotModified({}, etag, lastModified)).toBe(false)
+  })
+})
+
+describe('resolveUrl', () => {
+  it('should resolve relative URLs against the page URL', () => {
+    expect(resolveUrl('../img/main.jpg', 'https://museum.example/exhibitions/1/')).toBe(
+      'https://museum.example/exhibitions/img/main.jpg',
+    )
+    expect(resolveUrl('https://cdn.example/main.jpg', 'https://museum.example/')).toBe(
+      'https://cdn.example/main.jpg',
+    )
+  })
+
+  it('should return undefined for missing or invalid URLs', () => {
+    expect(resolveUrl(undefined, 'https://museum.example/')).toBeUndefined()
+    expect(resolveUrl('http://[invalid', 'https://museum.example/')).toBeUndefined()
+  })
+})
+
+describe('isPublicAddress', () => {
+  it('should accept public addresses', () => {
+    expect(isPublicAddress('203.0.113.10')).toBe(true)
+    expect(isPublicAddress('2001:db8::1')).toBe(true)
+  })
+
+  it('should reject loopback, private, link-local and mapped addresses', () => {
+    for (const address of [
+      '127.0.0.1',
+      '10.1.2.3',
+      '172.16.0.1',
+      '192.168.1.1',
+      '169.254.169.254',
+      '0.0.0.0',
+      '::1',
+      '::',
+      'fd00::1',
+      'fe80::1',
+      '::ffff:7f00:1',
+    ]) {
+      expect(isPublicAddress(address), address).toBe(false)
+    }
+  })
+
+  it('should reject values that are not IP addresses', () => {
+    expect(isPublicAddress('localhost')).toBe(false)
+  })
+})
@@ -0,0 +1,85 @@
+import { BlockList, isIP } from 'node:net'
+
+/**
+ * Whether a conditional GET can be answered with 304 Not Modified (RFC 9110, section 13.2.2)
+ * If-None-Match takes precedence over If-Modified-Since, and ETags are compared weakly.
+ *
+ * @param headers - Request headers, looked up by lower-case name
+ * @param etag - ETag of the current representation
+ * @param lastModified - Last modification of the current representation
+ */
+export function isNotModified(
+  headers: { 'if-none-match'?: string; 'if-modified-since'?: string },
+  etag: string,
+  lastModified?: Date,
+): boolean {
+  const ifNoneMatch = headers['if-none-match']
+  if (ifNoneMatch !== undefined) {
+    const opaque = (tag: string) => tag.trim().replace(/^W\//, '')
+    return ifNoneMatch.split(',').some((tag) => tag.trim() === '*' || opaque(tag) === opaque(etag))
+  }
+
+  const ifModifiedSince = headers['if-modified-since']
+  if (ifModifiedSince === undefined || !lastModified) {
+    return false
+  }
+  const since = Date.parse(ifModifiedSince)
+  // HTTP dates have a precision of one second
+  return !Number.isNaN(since) && Math.floor(lastModified.getTime() / 1000) * 1000 <= since
+}
+
+/**
+ * Resolve a URL found on a page against the page URL
+ *
+ * @returns The absolute URL, or undefined if the URL is missing or invalid
+ */
+export function resolveUrl(url: string | null | undefined, baseUrl: string): string | undefined {
+  if (!url) {
+    return undefined
+  }
+  try {
+    return new URL(url, baseUrl).href
+  } catch {
+    return undefined
+  }
+}
+
+// Loopback, private, link-local (including the metadata server), shared, reserved and multicast ranges
+const nonPublicAddresses = new BlockList()
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  nonPublicAddresses.addSubnet(network, prefix, 'ipv4')
+}
+// IPv4-mapped addresses are checked against the IPv4 ranges; NAT64 ones could embed any of them
+for (const [network, prefix] of [
+  ['::', 127],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  nonPublicAddresses.addSubnet(network, prefix, 'ipv6')
+}
+
+/**
+ * Whether an IP address is reachable on the public internet
+ * Used to keep requests to URLs taken from scraped pages away from internal services.
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address)
+  if (family === 0) {
+    return false
+  }
+  return !nonPublicAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6')
+}
@@ -0,0 +1,59 @@
+import { TZDate } from '@date-fns/tz'
+import { addDays, format } from 'date-fns'
+import type { Timestamp } from '@google-cloud/firestore'
+
+// Content lines longer than this many octets are folded (RFC 5545, section 3.1)
+const MAX_LINE_OCTETS = 75
+
+/**
+ * Escape a TEXT property value (RFC 5545, section 3.3.11)
+ */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+/**
+ * Fold a content line into lines of at most 75 octets, without splitting a UTF-8 character
+ */
+export function foldLine(line: string): string {
+  const lines: string[] = []
+  let current = ''
+  let octets = 0
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char)
+    // Continuation lines start with a space, which counts towards their length
+    const limit = lines.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1
+    if (octets + size > limit) {
+      lines.push(current)
+      current = ''
+      octets = 0
+    }
+    current += char
+    octets += size
+  }
+  lines.push(current)
+
+  return lines.join('\r\n ')
+}
+
+/**
+ * Format the Asia/Tokyo day of a date as a DATE value, optionally moved by a number of days
+ */
+export function formatDateValue(date: Timestamp, offsetDays = 0): string {
+  return format(addDays(new TZDate(date.toDate(), 'Asia/Tokyo'), offsetDays), 'yyyyMMdd')
+}
+
+/**
+ * Format a moment as a DATE-TIME value in UTC
+ */
+export function formatDateTimeValue(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '')
+}
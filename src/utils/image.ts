@@ -0,0 +1,73 @@
+import type { ImageDimensions } from '../types/image.js'
+
+/**
+ * Reads the format and dimensions of an image from its header.
+ *
+ * Supports JPEG, PNG, GIF and WebP (lossy, lossless and extended).
+ * Returns null if the data is not a supported image.
+ */
+export function getImageDimensions(data: Buffer): ImageDimensions | null {
+  // PNG: signature followed by the IHDR chunk
+  if (
+    data.length >= 24 &&
+    data.readUInt32BE(0) === 0x89504e47 &&
+    data.readUInt32BE(4) === 0x0d0a1a0a
+  ) {
+    return { format: 'png', width: data.readUInt32BE(16), height: data.readUInt32BE(20) }
+  }
+
+  // GIF: "GIF87a" or "GIF89a" followed by the logical screen size
+  if (data.length >= 10 && data.toString('ascii', 0, 3) === 'GIF') {
+    return { format: 'gif', width: data.readUInt16LE(6), height: data.readUInt16LE(8) }
+  }
+
+  // WebP: RIFF container with a VP8, VP8L or VP8X chunk
+  if (
+    data.length >= 30 &&
+    data.toString('ascii', 0, 4) === 'RIFF' &&
+    data.toString('ascii', 8, 12) === 'WEBP'
+  ) {
+    const chunk = data.toString('ascii', 12, 16)
+    if (chunk === 'VP8 ') {
+      return {
+        format: 'webp',
+        width: data.readUInt16LE(26) & 0x3fff,
+        height: data.readUInt16LE(28) & 0x3fff,
+      }
+    }
+    if (chunk === 'VP8L') {
+      const bits = data.readUInt32LE(21)
+      return { format: 'webp', width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 }
+    }
+    if (chunk === 'VP8X') {
+      return {
+        format: 'webp',
+        width: data.readUIntLE(24, 3) + 1,
+        height: data.readUIntLE(27, 3) + 1,
+      }
+    }
+    return null
+  }
+
+  // JPEG: scan the segments for a start-of-frame marker
+  if (data.length >= 4 && data[0] === 0xff && data[1] === 0xd8) {
+    let offset = 2
+    while (offset + 9 < data.length) {
+      if (data[offset] !== 0xff) {
+        return null
+      }
+      const marker = data[offset + 1]
+      // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+      if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+        return {
+          format: 'jpeg',
+          width: data.readUInt16BE(offset + 7),
+          height: data.readUInt16BE(offset + 5),
+        }
+      }
+      offset += 2 + data.readUInt16BE(offset + 2)
+    }
+  }
+
+  return null
+}
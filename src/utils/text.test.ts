@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest'
+import { canonicalizeTitle } from './text.js'
+
+describe('text', () => {
+  describe('canonicalizeTitle', () => {
+    it.each([
+      ['特別展「モネ 睡蓮のとき」', 'モネ 睡蓮のとき'],
+      ['【企画展】『モネ 睡蓮のとき』！', 'モネ 睡蓮のとき'],
+      ['開館記念 特別展「モネ 睡蓮のとき」', 'モネ 睡蓮のとき'],
+      ['開館10周年記念展　★モネ★', 'モネ'],
+      ['ＭＯＮＥＴ　睡蓮のとき', 'monet 睡蓮のとき'],
+    ])('should canonicalize %s', (title, expected) => {
+      expect(canonicalizeTitle(title)).toBe(expected)
+    })
+
+    it('should strip trailing venue names', () => {
+      const venues = ['国立西洋美術館', '西美']
+      expect(canonicalizeTitle('モネ 睡蓮のとき @ 国立西洋美術館', venues)).toBe('モネ 睡蓮のとき')
+      expect(canonicalizeTitle('モネ 睡蓮のとき（西美）', venues)).toBe('モネ 睡蓮のとき')
+    })
+
+    it('should keep brackets that do not enclose the whole title', () => {
+      expect(canonicalizeTitle('「A」と「B」')).toBe('「a」と「b」')
+    })
+
+    it('should keep titles that consist only of a label', () => {
+      expect(canonicalizeTitle('特別展')).toBe('特別展')
+      expect(canonicalizeTitle('国立西洋美術館', ['国立西洋美術館'])).toBe('国立西洋美術館')
+    })
+  })
+})
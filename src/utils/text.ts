@@ -0,0 +1,128 @@
+/**
+ * Normalizes a text string to reduce variations caused by formatting differences.
+ *
+ * This function is intended to make scraped strings comparable by:
+ * - Converting full-width characters to half-width characters using Unicode NFKC normalization
+ * - Converting all characters to lowercase
+ * - Collapsing multiple whitespace characters into a single space
+ * - Trimming leading and trailing whitespace
+ */
+export function normalizeText(text: string): string {
+  return text.normalize('NFKC').toLowerCase().replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Normalizes a venue name for lookups.
+ *
+ * Same as `normalizeText`, but removes whitespace entirely since Japanese venue names
+ * are written without spaces and LLM output often inserts them (e.g. "国立西洋美術館 本館").
+ */
+export function normalizeVenueName(text: string): string {
+  return normalizeText(text).replace(/\s/g, '')
+}
+
+/**
+ * Computes the Levenshtein edit distance between two strings (by code point).
+ */
+export function editDistance(a: string, b: string): number {
+  const source = Array.from(a)
+  const target = Array.from(b)
+
+  let previous = Array.from({ length: target.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= source.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= target.length; j++) {
+      const cost = source[i - 1] === target[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+    }
+    previous = current
+  }
+
+  return previous[target.length]
+}
+
+/**
+ * Scores the similarity of two strings between 0 (nothing in common) and 1 (identical),
+ * based on the edit distance relative to the longer string.
+ */
+export function editSimilarity(a: string, b: string): number {
+  const maxLength = Math.max(Array.from(a).length, Array.from(b).length)
+  if (maxLength === 0) {
+    return 1
+  }
+  return 1 - editDistance(a, b) / maxLength
+}
+
+// Labels describing the kind of exhibition rather than its subject (e.g. "特別展", "開館10周年記念展")
+const TITLE_LABEL =
+  '(?:特別企画展|特別展示|特別展|企画展示|企画展|特集展示|特集展|巡回展|(?:開館|創立)(?:\\d+周年)?記念(?:特別)?展?|\\d+周年記念(?:特別)?展)'
+const TITLE_LABEL_PATTERN = new RegExp(
+  `^(?:[【\\[(]${TITLE_LABEL}[】\\])]|${TITLE_LABEL})[\\s:・\\-]*`,
+)
+const ENCLOSING_BRACKETS: Array<[string, string]> = [
+  ['「', '」'],
+  ['『', '』'],
+  ['“', '”'],
+  ['"', '"'],
+]
+const DECORATIVE_CHARACTERS = /[!?★☆◆◇■□●○◎♪♫※…]/g
+const EDGE_SEPARATORS = /^[\s~〜\-:・|/]+|[\s~〜\-:・|/]+$/g
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Canonicalizes an exhibition title for use in document IDs.
+ *
+ * On top of `normalizeText`, this removes the parts of a title that vary between listings of
+ * the same exhibition:
+ * - Leading labels such as "特別展" or "【企画展】"
+ * - Brackets enclosing the whole title, such as 「」 and 『』
+ * - Trailing venue names (e.g. "モネ展 @ 国立西洋美術館"), when given
+ * - Decorative punctuation such as "!" or "★"
+ *
+ * The result is only meant for comparison; the original title should be kept for display.
+ */
+export function canonicalizeTitle(title: string, venueNames: string[] = []): string {
+  const normalized = normalizeText(title)
+  let text = normalized.replace(DECORATIVE_CHARACTERS, '').replace(EDGE_SEPARATORS, '')
+
+  // Labels can be stacked (e.g. "開館記念 特別展「...」")
+  let previous
+  do {
+    previous = text
+    const stripped = text.replace(TITLE_LABEL_PATTERN, '')
+    if (stripped !== '') {
+      text = stripped
+    }
+  } while (text !== previous)
+
+  const venues = venueNames.map(normalizeText).sort((a, b) => b.length - a.length)
+  for (const venue of venues) {
+    const venuePattern = new RegExp(
+      `[\\s@|/・:\\-]*(?:at\\s+)?[(【\\[]?${escapeRegExp(venue)}[)】\\]]?$`,
+    )
+    const stripped = text.replace(venuePattern, '')
+    if (stripped !== '' && stripped !== text) {
+      text = stripped
+      break
+    }
+  }
+
+  for (const [open, close] of ENCLOSING_BRACKETS) {
+    const inner = text.slice(open.length, -close.length)
+    if (
+      text.length > open.length + close.length &&
+      text.startsWith(open) &&
+      text.endsWith(close) &&
+      !inner.includes(close)
+    ) {
+      text = inner
+      break
+    }
+  }
+
+  text = text.replace(EDGE_SEPARATORS, '').replace(/\s+/g, ' ')
+  return text === '' ? normalized : text
+}
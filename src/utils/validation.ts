@@ -0,0 +1,14 @@
+import { z } from 'zod'
+import { ValidationError } from '../errors/app-error.js'
+
+/**
+ * Parse request input with a Zod schema
+ * Failures are thrown as ValidationError so they are reported through the global error handler
+ */
+export function parseRequest<T extends z.ZodType>(schema: T, input: unknown): z.output<T> {
+  const result = schema.safeParse(input)
+  if (!result.success) {
+    throw new ValidationError(z.prettifyError(result.error))
+  }
+  return result.data
+}
@@ -0,0 +1,24 @@
+/**
+ * Whether a character is allowed in XML 1.0 documents; the others cannot even be escaped
+ */
+function isXmlChar(char: string): boolean {
+  const code = char.charCodeAt(0)
+  if (code < 0x20) {
+    return code === 0x09 || code === 0x0a || code === 0x0d
+  }
+  return code !== 0xfffe && code !== 0xffff
+}
+
+/**
+ * Escape text for use in XML content or attribute values
+ */
+export function escapeXml(value: string): string {
+  return Array.from(value)
+    .filter(isXmlChar)
+    .join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}